@@ -0,0 +1,162 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SlothfulTrader } from './agent';
+import { AuditLog } from './audit/audit-log';
+import { AuditTrail } from './audit/audit-trail';
+import { EventBus } from './events/event-bus';
+import { OrderManager } from './execution/order-manager';
+import { TradeExecutor } from './execution/trade-executor';
+import { CheckpointStore } from './lifecycle/checkpoint';
+import { candleStore } from './market/candles';
+import { ScriptedModel } from './llm/providers';
+import { LocalMemoryStore } from './memory/local-memory-store';
+import { TradingMemory } from './memory/trading-memory';
+import { PositionLedger } from './portfolio/position-ledger';
+import { PositionMonitor } from './portfolio/position-monitor';
+import { PriceOracle } from './pricing/price-oracle';
+import { FakePriceSource } from './pricing/testing';
+import { RiskManager } from './risk/risk-manager';
+import { FakeClock } from './scheduler/clock';
+import { SimulatedExchange } from './services/simulated-exchange';
+import { tokenRegistry } from './tokens/token-registry';
+import { RecallNetworkTools } from './tools/recall-tools';
+import * as walletSigner from './wallet/wallet-signer';
+import { TradeDecision } from './workflows/trade-decision';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+const PRICES: Record<string, number> = {
+  [USDC.address.toLowerCase()]: 1,
+  [WETH.address.toLowerCase()]: 3000,
+};
+
+const BUY: TradeDecision = { execute: true, symbol: 'ETH/USDC', action: 'buy', positionSize: 900, reason: 'test buy', source: 'test' };
+
+describe('SlothfulTrader lifecycle', () => {
+  let dir: string;
+  let checkpointFile: string;
+  let exchange: SimulatedExchange;
+  let ledger: PositionLedger;
+  let executor: TradeExecutor;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-'));
+    checkpointFile = path.join(dir, 'checkpoint.json');
+    exchange = new SimulatedExchange({
+      priceSource: async token => PRICES[token.toLowerCase()],
+      initialBalances: { [USDC.address]: 100_000 },
+    });
+    ledger = new PositionLedger('fifo', '');
+    // Paper trading: no wallet, and the candle history stays out of the working directory
+    jest.spyOn(walletSigner, 'createWalletSigner').mockResolvedValue(undefined);
+    jest.spyOn(candleStore, 'flush').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A trader whose collaborators are all local: paper venue, in-memory stores, no model calls,
+  // and a position monitor on a clock that never moves
+  function trader(): SlothfulTrader {
+    const recall = new RecallNetworkTools(exchange);
+    const memory = new TradingMemory(new LocalMemoryStore());
+    const risk = new RiskManager(memory, false, '');
+    const events = new EventBus();
+    const oracle = new PriceOracle([new FakePriceSource().set('WETH', 3000).set('USDC', 1)], {
+      maxAgeMs: 60_000,
+      maxDeviationPercent: 1,
+      minSources: 1,
+      cacheTtlMs: 0,
+    });
+    executor = new TradeExecutor(recall, memory, risk, ledger, new OrderManager(), async () => undefined, oracle, null, events);
+    const monitor = new PositionMonitor(ledger, recall, executor, undefined, events, risk, new FakeClock(Date.UTC(2024, 0, 1)));
+    return new SlothfulTrader(
+      new CheckpointStore(checkpointFile),
+      new ScriptedModel([]),
+      executor,
+      memory,
+      new AuditTrail(new AuditLog('')),
+      events,
+      oracle,
+      ledger,
+      recall,
+      monitor
+    );
+  }
+
+  // Hold every swap at the venue until the returned release is called
+  function holdSwaps(): () => void {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const executeTrade = exchange.executeTrade.bind(exchange);
+    jest.spyOn(exchange, 'executeTrade').mockImplementation(async request => {
+      await released;
+      return executeTrade(request);
+    });
+    return release;
+  }
+
+  it('checkpoints its state at shutdown and restores it on the next start', async () => {
+    const first = trader();
+    await executor.execute(BUY);
+    first.pause();
+    await first.stop(1000);
+
+    const saved = new CheckpointStore(checkpointFile).load()!;
+    expect(saved.paused).toBe(true);
+    expect(saved.positions).toEqual([{ symbol: 'ETH/USDC', quantity: ledger.getPosition('ETH/USDC')!.quantity, averageCost: expect.any(Number) }]);
+    expect(saved.pendingOrders).toEqual([]);
+
+    const second = trader();
+    const reconcile = jest.spyOn(ledger, 'reconcile');
+    await second.start();
+    const status = second.getStatus();
+    await second.stop(1000);
+
+    expect(status).toMatchObject({ active: true, paused: true, currentPairs: [] });
+    expect(reconcile).toHaveBeenCalledWith(expect.objectContaining({ tokens: expect.any(Array) }));
+  });
+
+  it('waits for a trade in progress before checkpointing', async () => {
+    const release = holdSwaps();
+    const agent = trader();
+    const trade = executor.execute(BUY);
+
+    const stopping = agent.stop(60_000);
+    release();
+    await stopping;
+
+    await expect(trade).resolves.toMatchObject({ executed: true });
+    await expect(executor.execute(BUY)).resolves.toMatchObject({ executed: false, reason: 'Shutting down, not accepting new orders' });
+    const saved = new CheckpointStore(checkpointFile).load()!;
+    expect(saved.pendingOrders).toEqual([]);
+    expect(saved.positions).toHaveLength(1);
+  });
+
+  it('records a trade still running at the deadline as a pending order', async () => {
+    const release = holdSwaps();
+    const agent = trader();
+    const trade = executor.execute(BUY);
+
+    await agent.stop(10);
+
+    const saved = new CheckpointStore(checkpointFile).load()!;
+    expect(saved.pendingOrders).toEqual([expect.objectContaining({ symbol: 'ETH/USDC', action: 'buy', source: 'test' })]);
+    expect(saved.positions).toEqual([]);
+    release();
+    await trade;
+  });
+});
@@ -1,49 +1,123 @@
-import { Agent } from '@mastra/core';
-import { tradingTools } from './tools/trading-tools';
-import { tradingMemory } from './memory/trading-memory';
+import { RecallNetworkTools, recallTools } from './tools/recall-tools';
+import { TradingMemory, tradingMemory } from './memory/trading-memory';
+import { describeRegime, memoryRetriever } from './memory/retrieval';
+import { Timeframe, candleStore } from './market/candles';
+import { computeIndicators } from './market/indicators';
+import { TechnicalIndicators } from './tools/trading-tools';
+import { PriceOracle, PriceOracleError, createPriceOracle } from './pricing/price-oracle';
+import { TradeExecutor, tradeExecutor } from './execution/trade-executor';
+import { Position, PositionLedger, positionLedger } from './portfolio/position-ledger';
+import { PositionMonitor, positionMonitor } from './portfolio/position-monitor';
+import { riskManager } from './risk/risk-manager';
+import { AgentDecision, requestAgentDecision, toTradingSignal } from './decisions/agent-decision';
+import { MIN_SIGNAL_CONFIDENCE, decideFromAgent } from './workflows/trade-decision';
 import { config } from './config';
-import winston from 'winston';
-
-const logger = winston.createLogger({
-  level: 'info',
-    format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.json()
-  ),
-  transports: [
-    new winston.transports.File({ filename: 'agent.log' }),
-    new winston.transports.Console({
-      format: winston.format.simple(),
-    }),
-  ],
-});
+import { tokenRegistry } from './tokens/token-registry';
+import { CHECKPOINT_VERSION, CheckpointStore, comparePositions, toCheckpointPositions } from './lifecycle/checkpoint';
+import { createWalletSigner } from './wallet/wallet-signer';
+import { PairSchedule, PairState, Scheduler, TaskOutcome, loadPairSchedules } from './scheduler/scheduler';
+import { ModelProvider, ModelUsageTotals, modelUsage } from './llm/model-provider';
+import { createModelProvider } from './llm/fallback-model';
+import { AuditTrail, audit, auditTrail } from './audit/audit-trail';
+import { EventBus, eventBus } from './events/event-bus';
+import { createModuleLogger } from './logging/logger';
+
+const logger = createModuleLogger('agent.log', { timestamps: true });
+
+export interface TraderStatus {
+  active: boolean;
+  paused: boolean;
+  tradingPairs: string[];
+  currentPairs: string[];
+  schedule: PairState[];
+  lastDecision?: { symbol: string; timestamp: Date; decision: AgentDecision };
+  killSwitchEngaged: boolean;
+  modelUsage: ModelUsageTotals;
+}
+
+// Outcome of one analysis; a trade starts the pair's cooldown
+export interface PairAnalysis {
+  decision: AgentDecision;
+  traded: boolean;
+}
+
+// What the model is shown about a pair before it decides
+interface MarketSnapshot {
+  symbol: string;
+  timeframe: Timeframe;
+  marketPrice: number; // Last price from the venue
+  oraclePrice?: number;
+  indicators?: TechnicalIndicators;
+  indicatorError?: string; // Why indicators are missing, e.g. too little candle history
+  position?: Position;
+}
+
+function round(value: number): string {
+  return Number.isFinite(value) ? Number(value.toPrecision(6)).toString() : String(value);
+}
+
+// Prompt section with the prices, indicators and ledger position for a pair
+function describeMarket(snapshot: MarketSnapshot): string {
+  const { symbol, timeframe, marketPrice, oraclePrice, indicators, position } = snapshot;
+  const lines = [
+    `Market data for ${symbol} on the ${timeframe} timeframe:`,
+    `- Price: ${round(marketPrice)} (oracle ${oraclePrice !== undefined ? round(oraclePrice) : 'unavailable'})`,
+  ];
+  if (indicators) {
+    const { rsi, macd, movingAverages: ma, bollingerBands: bb } = indicators;
+    lines.push(
+      `- RSI(14): ${round(rsi)}`,
+      `- MACD(12,26,9): line ${round(macd.line)}, signal ${round(macd.signal)}, histogram ${round(macd.histogram)}`,
+      `- SMA20 ${round(ma.sma20)}, SMA50 ${round(ma.sma50)}, EMA12 ${round(ma.ema12)}, EMA26 ${round(ma.ema26)}`,
+      `- Bollinger Bands(20,2): upper ${round(bb.upper)}, middle ${round(bb.middle)}, lower ${round(bb.lower)}, bandwidth ${round(bb.bandwidth)}`,
+      `- ATR(14): ${round(indicators.atr)}, VWAP: ${round(indicators.vwap)}, volume: ${round(indicators.volume)}`,
+      `- Annualized volatility: ${(indicators.volatility * 100).toFixed(1)}%`
+    );
+  } else {
+    lines.push(`- Indicators unavailable: ${snapshot.indicatorError}`);
+  }
+  if (position && position.quantity > 0) {
+    const markPrice = oraclePrice ?? marketPrice;
+    lines.push(
+      `Open position: ${round(position.quantity)} at an average cost of ${round(position.averageCost)}, ` +
+        `unrealized PnL ${round(position.quantity * markPrice - position.costBasis)}` +
+        (position.stopLoss !== undefined ? `, stop loss ${round(position.stopLoss)}` : '') +
+        (position.takeProfit !== undefined ? `, take profit ${round(position.takeProfit)}` : '')
+    );
+  } else {
+    lines.push('Open position: none');
+  }
+  return lines.join('\n');
+}
+
+const SYSTEM_PROMPT =
+  'You are SlothfulTrader, an autonomous DeFi trading agent that trades through Recall Network. ' +
+  'You make deliberate, risk-aware decisions and prefer holding over trading on weak evidence.';
 
 export class SlothfulTrader {
-  private agent: Agent;
   private isActive: boolean = false;
-  private lastTradeTimestamp: number = 0;
-  private tradingPairs: string[] = ['ETH/USDC', 'BTC/USDC', 'LINK/USDC'];
-  private cooldownPeriod: number = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-  constructor() {
-    this.agent = new Agent({
-      name: 'SlothfulTrader',
-      description: 'Autonomous DeFi trading agent that interacts with Recall Network',
-      tools: [
-        ...tradingTools.getTools(),
-        // Add more tools as needed
-      ],
-      // Configure the LLM model
-      model: {
-        provider: 'openai',
-        model: 'gpt-4',
-        apiKey: config.mastra.apiKey,
-      },
-      memory: {
-        type: 'structured',
-        capacity: 50,
-      },
-    });
+  private currentPairs = new Set<string>();
+  private lastDecision?: TraderStatus['lastDecision'];
+  private tradingPairs: string[] = [...config.trading.pairs];
+  private scheduler: Scheduler;
+  private stopping?: Promise<void>;
+
+  // The model is the LLM_PROVIDERS fallback chain unless one is given, e.g. a ScriptedModel in tests
+  constructor(
+    private checkpoints: CheckpointStore = new CheckpointStore(),
+    private model: Pick<ModelProvider, 'generate'> = createModelProvider(),
+    private executor: TradeExecutor = tradeExecutor,
+    private memory: TradingMemory = tradingMemory,
+    private trail: AuditTrail = auditTrail,
+    private events: EventBus = eventBus,
+    private oracle: PriceOracle = createPriceOracle(),
+    private ledger: PositionLedger = positionLedger,
+    private recall: RecallNetworkTools = recallTools,
+    private monitor: PositionMonitor = positionMonitor
+  ) {
+    // Fail fast on pairs the token registry can't resolve
+    this.tradingPairs.forEach(pair => tokenRegistry.resolvePair(pair));
+    this.scheduler = new Scheduler(loadPairSchedules(this.tradingPairs), pair => this.runScheduledPair(pair));
 
     logger.info('SlothfulTrader agent initialized');
   }
@@ -55,114 +129,314 @@ export class SlothfulTrader {
       return;
     }
 
+    // Fail fast on a wallet key that doesn't match WALLET_ADDRESS
+    await createWalletSigner();
+
     this.isActive = true;
+    this.stopping = undefined;
     logger.info('SlothfulTrader started');
+    this.events.emit('agent_started', { pairs: [...this.tradingPairs] });
+
+    // Pick up cooldowns and pause state from the last shutdown, and surface any drift
+    // between the checkpoint, the position ledger and the venue's balances
+    this.restoreCheckpoint();
+    try {
+      this.ledger.reconcile(await this.recall.getPortfolioBalance.execute({}));
+    } catch (error) {
+      logger.error('Error reconciling position ledger:', error);
+    }
+
+    // Enforce stops and targets independently of the LLM
+    this.monitor.start();
+
+    // Analyze each pair on its own schedule
+    this.scheduler.start();
+  }
 
-    // Start the main trading loop
-    this.tradingLoop();
+  // Stop the trading agent: wait up to timeoutMs for analyses and trades under way,
+  // flush memory writes and checkpoint state for the next start
+  public stop(timeoutMs: number = config.lifecycle.shutdownTimeoutMs): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown(timeoutMs);
+    }
+    return this.stopping;
   }
 
-  // Stop the trading agent
-  public async stop(): Promise<void> {
+  private async shutdown(timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
     this.isActive = false;
+    this.monitor.stop();
+
+    if (!(await this.scheduler.stop(timeoutMs))) {
+      logger.warn(`Analyses still running after ${timeoutMs}ms: ${[...this.currentPairs].join(', ')}`);
+    }
+    if (!(await this.executor.drain(Math.max(deadline - Date.now(), 0)))) {
+      logger.warn('Trades still executing at shutdown; they are recorded as pending orders in the checkpoint');
+    }
+
+    try {
+      await this.memory.flush();
+    } catch (error) {
+      logger.error('Error flushing memory:', error);
+    }
+    candleStore.flush();
+
+    try {
+      this.checkpoints.save({
+        version: CHECKPOINT_VERSION,
+        savedAt: new Date(),
+        paused: this.scheduler.isPaused(),
+        schedule: this.scheduler.snapshot(),
+        positions: toCheckpointPositions(this.ledger.getOpenPositions()),
+        pendingOrders: this.executor.getPendingOrders(),
+      });
+    } catch (error) {
+      logger.error('Error checkpointing agent state:', error);
+    }
     logger.info('SlothfulTrader stopped');
+    this.events.emit('agent_stopped', { pairs: [...this.tradingPairs] });
+    await this.events.flush();
   }
 
-  // Main trading loop
-  private async tradingLoop(): Promise<void> {
-    while (this.isActive) {
-      try {
-        // Rotate through trading pairs
-        for (const pair of this.tradingPairs) {
-          if (!this.isActive) break;
-
-          logger.info(`Analyzing trading pair: ${pair}`);
-          await this.analyzeTradingPair(pair);
-          
-          // Wait to avoid rate limits
-          await this.sleep(3000);
-        }
-
-        // Sleep before next cycle
-        await this.sleep(60000);
-      } catch (error) {
-        logger.error('Error in trading loop:', error);
-        await this.sleep(10000);
+  // Restore the last checkpoint; positions come from the ledger, the checkpoint only flags drift
+  private restoreCheckpoint(): void {
+    try {
+      const checkpoint = this.checkpoints.load();
+      if (!checkpoint) return;
+
+      this.scheduler.restore(checkpoint.schedule);
+      if (checkpoint.paused) this.scheduler.pause();
+      logger.info(`Restored checkpoint from ${checkpoint.savedAt.toISOString()}${checkpoint.paused ? ' (paused)' : ''}`);
+
+      const drift = comparePositions(checkpoint.positions, this.ledger.getOpenPositions());
+      if (drift.length > 0) {
+        logger.warn('Position ledger changed since the last checkpoint', { drift });
       }
+      for (const order of checkpoint.pendingOrders) {
+        logger.warn(
+          `${order.action} ${order.symbol} was still executing at shutdown (started ${order.startedAt.toISOString()}); check the venue for its fill`
+        );
+      }
+    } catch (error) {
+      logger.error('Error restoring checkpoint:', error);
     }
   }
 
-  // Analyze a specific trading pair
-  private async analyzeTradingPair(symbol: string): Promise<void> {
+  // Stop analyzing new pairs; the position monitor keeps enforcing exits
+  public pause(): void {
+    this.scheduler.pause();
+    logger.info('SlothfulTrader paused');
+  }
+
+  public resume(): void {
+    this.scheduler.resume();
+    logger.info('SlothfulTrader resumed');
+  }
+
+  public getStatus(): TraderStatus {
+    return {
+      active: this.isActive,
+      paused: this.scheduler.isPaused(),
+      tradingPairs: [...this.tradingPairs],
+      currentPairs: [...this.currentPairs],
+      schedule: this.scheduler.getStates(),
+      lastDecision: this.lastDecision,
+      killSwitchEngaged: riskManager.isKillSwitchEngaged(),
+      modelUsage: modelUsage.getSummary(0).total,
+    };
+  }
+
+  public getTradingPairs(): string[] {
+    return [...this.tradingPairs];
+  }
+
+  // Replace the traded pairs; every pair must resolve in the token registry
+  public setTradingPairs(pairs: string[]): void {
+    const normalized = pairs.map(pair => pair.trim()).filter(pair => pair.length > 0);
+    if (normalized.length === 0) {
+      throw new Error('At least one trading pair is required');
+    }
+    normalized.forEach(pair => tokenRegistry.resolvePair(pair));
+    this.scheduler.setPairs(loadPairSchedules(normalized));
+    this.tradingPairs = normalized;
+    logger.info(`Trading pairs set to ${normalized.join(', ')}`);
+  }
+
+  // Analyze one pair now, ignoring its schedule and cooldown; a trade still starts the cooldown
+  public async analyzePair(symbol: string, timeframe?: Timeframe): Promise<PairAnalysis> {
+    tokenRegistry.resolvePair(symbol);
+    const [schedule] = loadPairSchedules([symbol]);
+    const analysis = await this.analyzeTradingPair(symbol, timeframe ?? schedule.timeframe);
+    if (analysis.traded) this.scheduler.recordTrade(symbol);
+    return analysis;
+  }
+
+  // Scheduler task; errors propagate so the scheduler backs off the pair
+  private async runScheduledPair(pair: PairSchedule): Promise<TaskOutcome> {
+    logger.info(`Analyzing trading pair: ${pair.symbol}`);
     try {
-      const now = Date.now();
-      
-      // Check if we're still in cooldown period since last trade
-      if (now - this.lastTradeTimestamp < this.cooldownPeriod) {
-        logger.info(`Still in cooldown period for ${symbol}, skipping analysis`);
-        return;
+      return await this.analyzeTradingPair(pair.symbol, pair.timeframe);
+    } catch (error) {
+      logger.error(`Error analyzing ${pair.symbol}:`, error);
+      this.events.emit('loop_error', { source: 'agent', symbol: pair.symbol, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  // Analyze a specific trading pair as one audited cycle
+  private analyzeTradingPair(symbol: string, timeframe: Timeframe): Promise<PairAnalysis> {
+    return this.trail.runCycle(symbol, async () => {
+      audit('cycle_start', { symbol, timeframe });
+      try {
+        const analysis = await this.runAnalysis(symbol, timeframe);
+        audit('cycle_end', analysis);
+        return analysis;
+      } catch (error) {
+        audit('cycle_end', { error: error instanceof Error ? error.message : String(error) });
+        throw error;
       }
+    });
+  }
+
+  private async runAnalysis(symbol: string, timeframe: Timeframe): Promise<PairAnalysis> {
+    this.currentPairs.add(symbol);
+    try {
+      const marketData = await this.recall.getMarketData.execute({ symbol });
+      candleStore.recordTick(symbol, marketData.price, 0, marketData.timestamp.getTime());
+      const snapshot = await this.takeSnapshot(symbol, timeframe, marketData.price);
+
+      // Recall past calls made in similar conditions
+      const regime = describeRegime(candleStore.getCandles(symbol, timeframe), timeframe);
+      const context = await memoryRetriever.buildContext(symbol, regime);
 
       // Get market analysis
-      const marketAnalysis = await this.agent.execute(`
-        Analyze the current market conditions for ${symbol} and determine if there's a trading opportunity.
-        Consider all available technical indicators and recent market movements.
-        Only recommend a trade if there's strong confidence.
+      const analysis = await this.requestDecision(`
+        Analyze the current market conditions for ${symbol} on the ${timeframe} timeframe and determine if there's a trading opportunity.
+        Base the analysis on the indicators, prices and open position below.
+        Only recommend a trade if there's strong confidence; otherwise answer with action "hold".
+
+        ${describeMarket(snapshot)}
+        ${context ? `\n${context}\nWeigh how similar past calls turned out.` : ''}
       `);
 
+      this.lastDecision = { symbol, timestamp: new Date(), decision: analysis };
+      this.events.emit('signal_generated', {
+        symbol,
+        source: 'agent',
+        action: analysis.action,
+        confidence: analysis.confidence,
+        reason: analysis.rationale,
+      });
+
       // Store the analysis in memory
-      await tradingMemory.storeMarketInsight(symbol, marketAnalysis.text, 0.7);
+      await this.memory.storeMarketInsight(symbol, analysis.rationale, analysis.confidence);
 
       // Check if the analysis suggests a trade
-      if (marketAnalysis.text.toLowerCase().includes('buy') || marketAnalysis.text.toLowerCase().includes('sell')) {
-        // Execute trading workflow
-        await this.executeTradingDecision(symbol, marketAnalysis.text);
-        this.lastTradeTimestamp = now;
-      } else {
-        logger.info(`No clear trading opportunity for ${symbol}`);
+      if (analysis.action !== 'hold' && analysis.confidence >= MIN_SIGNAL_CONFIDENCE) {
+        const traded = await this.executeTradingDecision(snapshot, analysis);
+        return { decision: analysis, traded };
       }
-    } catch (error) {
-      logger.error(`Error analyzing ${symbol}:`, error);
+      logger.info(`No clear trading opportunity for ${symbol} (${analysis.action}, confidence ${analysis.confidence})`);
+      this.events.emit('trade_skipped', {
+        symbol,
+        source: 'agent',
+        reason: `No clear opportunity (${analysis.action}, confidence ${analysis.confidence})`,
+      });
+      return { decision: analysis, traded: false };
+    } finally {
+      this.currentPairs.delete(symbol);
     }
   }
 
-  // Execute trading decision
-  private async executeTradingDecision(symbol: string, analysis: string): Promise<void> {
+  // Execute trading decision; returns whether a trade went through
+  private async executeTradingDecision(snapshot: MarketSnapshot, analysis: AgentDecision): Promise<boolean> {
+    const { symbol } = snapshot;
     try {
-      const action = analysis.toLowerCase().includes('buy') ? 'buy' : 'sell';
-      
-      logger.info(`Executing ${action} decision for ${symbol}`);
+      logger.info(`Executing ${analysis.action} decision for ${symbol}`);
+      const context = await memoryRetriever.buildContext(symbol, `${analysis.action} ${analysis.rationale}`);
+      const portfolio = await this.recall.getPortfolioBalance.execute({});
       
-      const result = await this.agent.execute(`
-        I want to ${action} ${symbol} based on this analysis: "${analysis}"
+      const plan = await this.requestDecision(`
+        You recommended to ${analysis.action} ${symbol} based on this analysis: "${analysis.rationale}"
         
-        1. How much should I ${action}?
-        2. What's the best execution strategy?
-        3. Where should I set stop loss and take profit?
+        1. How much should I ${analysis.action}? The portfolio is worth ${round(portfolio.totalBalance)} in total.
+        2. Where should I set stop loss and take profit?
         
-        After answering these questions, execute the trade using the available tools.
+        Confirm or revise the decision. Answer with action "hold" if the trade should not go ahead.
+
+        ${describeMarket(snapshot)}
+        ${context ? `\n${context}\nUse the outcomes of these past trades when sizing and placing stops.` : ''}
       `);
+
+      const decision = decideFromAgent(symbol, plan, portfolio.totalBalance);
+      const result = await this.executor.execute({ ...decision, source: 'agent' });
+
+      // Orders that reached the venue are recorded by the executor; record the rest here
+      if (!result.executed && !result.orderId) {
+        await this.memory.storeTradingDecision({
+          timestamp: new Date(),
+          symbol,
+          action: plan.action,
+          signal: toTradingSignal(plan),
+          decision: plan,
+          notes: result.reason || result.error,
+          result: {
+            executed: false,
+          },
+        });
+      }
       
-      // Store the trading decision
-      await tradingMemory.storeTradingDecision({
-        timestamp: new Date(),
-        symbol,
-        action,
-        notes: analysis,
-        result: {
-          executed: result.text.toLowerCase().includes('executed') || result.text.toLowerCase().includes('successful'),
-        },
-      });
-      
-      logger.info(`Trading decision execution completed for ${symbol}`);
+      logger.info(`Trading decision execution completed for ${symbol}: ${result.executed ? 'executed' : result.reason || result.error}`);
+      return result.executed;
     } catch (error) {
       logger.error(`Error executing trading decision for ${symbol}:`, error);
+      this.events.emit('loop_error', { source: 'agent', symbol, error: error instanceof Error ? error.message : String(error) });
+      return false;
     }
   }
 
-  // Helper method to sleep
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Indicators over the stored candles, the oracle price and the ledger position; an
+  // indicator or oracle failure leaves its part out rather than failing the analysis
+  private async takeSnapshot(symbol: string, timeframe: Timeframe, marketPrice: number): Promise<MarketSnapshot> {
+    const snapshot: MarketSnapshot = { symbol, timeframe, marketPrice, position: this.ledger.getPosition(symbol) };
+    try {
+      snapshot.indicators = computeIndicators(candleStore.getCandles(symbol, timeframe), timeframe);
+    } catch (error) {
+      snapshot.indicatorError = error instanceof Error ? error.message : String(error);
+      logger.warn(`No indicators for ${symbol} ${timeframe}: ${snapshot.indicatorError}`);
+    }
+    try {
+      snapshot.oraclePrice = await this.oracle.getPairPrice(symbol);
+      audit('price_check', { symbol, price: snapshot.oraclePrice });
+    } catch (error) {
+      if (!(error instanceof PriceOracleError)) throw error;
+      audit('price_check', { symbol, error: error.message, code: error.code });
+    }
+    return snapshot;
+  }
+
+  // Query the model for a schema-validated decision, retrying on invalid responses
+  private async requestDecision(prompt: string): Promise<AgentDecision> {
+    const generate = async (attemptPrompt: string) => {
+      const request = {
+        prompt: attemptPrompt,
+        system: SYSTEM_PROMPT,
+        maxTokens: config.llm.maxTokens,
+        temperature: config.llm.temperature,
+      };
+      audit('prompt', request);
+      try {
+        const response = await this.model.generate(request);
+        audit('model_response', response);
+        return response.text;
+      } catch (error) {
+        audit('model_response', { error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    };
+    const decision = await requestAgentDecision(generate, prompt);
+    audit('decision', decision);
+    return decision;
   }
 }
     
@@ -0,0 +1,124 @@
+import { periodReturns, sharpeRatio } from '../backtest/metrics';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { AnalyticsWindow, TradeRecord, buildPerformanceReport, computeStats, equityAtStart } from './performance';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+const WINDOW: AnalyticsWindow = { label: '4d', from: new Date(START), to: new Date(START + 96 * HOUR) };
+
+function trade(hours: number, action: 'buy' | 'sell', profit?: number, holdingHours?: number): TradeRecord {
+  return {
+    timestamp: new Date(START + hours * HOUR),
+    symbol: 'ETH/USDC',
+    strategy: 'balanced',
+    action,
+    price: 3000,
+    amount: 0.1,
+    notional: 300,
+    profit,
+    holdingTimeMs: holdingHours !== undefined ? holdingHours * HOUR : undefined,
+  };
+}
+
+// Realized equity goes 1000 -> 1100 -> 1050 -> 1000 -> 1200 over the window
+const TRADES = [
+  trade(1, 'buy'),
+  trade(24, 'sell', 100, 12),
+  trade(48, 'sell', -50, 6),
+  trade(72, 'sell', -50, 12),
+  trade(84, 'sell', 200, 24),
+];
+
+describe('computeStats', () => {
+  it('summarizes closed trades', () => {
+    const stats = computeStats(TRADES, WINDOW, 1000);
+
+    expect(stats).toMatchObject({
+      fills: 5,
+      closedTrades: 4,
+      wins: 2,
+      losses: 2,
+      winRate: 50,
+      grossProfit: 300,
+      grossLoss: 100,
+      netProfit: 200,
+      profitFactor: 3,
+      expectancy: 50,
+      averageWin: 150,
+      averageLoss: -50,
+      averageHoldingTimeMs: 13.5 * HOUR,
+      volume: 1500,
+    });
+    expect(stats.maxDrawdown).toBeCloseTo((100 / 1100) * 100, 10);
+    // Daily closes of the realized equity curve
+    expect(stats.sharpeRatio).toBeCloseTo(sharpeRatio(periodReturns([1000, 1000, 1100, 1050, 1200]), 365), 10);
+  });
+
+  it('measures the longest time below a peak until equity recovers', () => {
+    expect(computeStats(TRADES, WINDOW, 1000).maxDrawdownDurationMs).toBe(60 * HOUR);
+  });
+
+  it('runs a drawdown that never recovers to the window end', () => {
+    const stats = computeStats(TRADES.slice(0, 3), WINDOW, 1000);
+
+    expect(stats.maxDrawdownDurationMs).toBe(72 * HOUR);
+    expect(stats.profitFactor).toBe(2);
+  });
+
+  it('counts overlapping holding periods once in the exposure', () => {
+    // Held 12-24h, 42-48h and 60-84h: 42 of 96 hours
+    expect(computeStats(TRADES, WINDOW, 1000).exposure).toBeCloseTo(43.75, 10);
+  });
+
+  it('clips holding periods to the window start', () => {
+    const stats = computeStats([trade(12, 'sell', 10, 36)], WINDOW, 1000);
+
+    expect(stats.exposure).toBeCloseTo(12.5, 10);
+  });
+
+  it('has no ratios to report without losses or trades', () => {
+    expect(computeStats([trade(24, 'sell', 100)], WINDOW, 1000)).toMatchObject({ profitFactor: null, calmarRatio: null, maxDrawdown: 0 });
+    expect(computeStats([], WINDOW, 1000)).toMatchObject({ fills: 0, winRate: 0, exposure: 0, sharpeRatio: 0, maxDrawdownDurationMs: 0 });
+  });
+});
+
+describe('equityAtStart', () => {
+  it('backs the PnL realized since the window start out of the current equity', () => {
+    expect(equityAtStart(TRADES, new Date(START + 48 * HOUR), 1200)).toBe(1100);
+    expect(equityAtStart(TRADES, new Date(START + 100 * HOUR), 1200)).toBe(1200);
+  });
+
+  it('gives the report its initial equity when only the current equity is known', () => {
+    const window: AnalyticsWindow = { label: '2d', from: new Date(START + 48 * HOUR), to: new Date(START + 72 * HOUR) };
+
+    const report = buildPerformanceReport(TRADES, { window, currentEquity: 1200 });
+
+    expect(report.initialEquity).toBe(1100);
+    expect(report.overall.closedTrades).toBe(2);
+    expect(report.bySymbol['ETH/USDC'].netProfit).toBe(-100);
+  });
+});
+
+describe('TradingMemory.getPerformanceAnalytics', () => {
+  it('only searches memory from the window start', async () => {
+    const store = new LocalMemoryStore();
+    const memory = new TradingMemory(store);
+    const search = jest.spyOn(store, 'search');
+    const sell = (timestamp: number, profit: number) =>
+      memory.storeTradingDecision({
+        timestamp: new Date(timestamp),
+        symbol: 'ETH/USDC',
+        action: 'sell',
+        result: { executed: true, price: 3000, amount: 0.1, profit },
+      });
+    await sell(START - 48 * HOUR, 500);
+    await sell(START + 24 * HOUR, 100);
+
+    const report = await memory.getPerformanceAnalytics(undefined, { window: WINDOW, currentEquity: 1100 });
+
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ since: '2024-01-01T00:00:00.000Z' }));
+    expect(report.overall).toMatchObject({ closedTrades: 1, netProfit: 100 });
+    expect(report.initialEquity).toBe(1000);
+  });
+});
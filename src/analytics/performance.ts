@@ -0,0 +1,244 @@
+import { maxDrawdown, periodReturns, sharpeRatio, sortinoRatio } from '../backtest/metrics';
+import { TradingMemoryEntry } from '../memory/trading-memory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Equity the realized PnL curve starts from when the caller doesn't give one
+export const DEFAULT_INITIAL_EQUITY = 10000;
+
+// An executed fill as recorded in trading memory
+export interface TradeRecord {
+  timestamp: Date;
+  symbol: string;
+  strategy: string;
+  action: 'buy' | 'sell';
+  price: number;
+  amount: number; // Base asset amount
+  notional: number; // Quote asset amount
+  profit?: number; // Realized PnL, set on sells
+  holdingTimeMs?: number;
+  slippage?: number; // Percent shortfall of the fill against its quote
+}
+
+export interface AnalyticsWindow {
+  label: string;
+  from: Date;
+  to: Date;
+}
+
+export interface PerformanceStats {
+  fills: number;
+  closedTrades: number; // Sells with realized PnL
+  wins: number;
+  losses: number;
+  winRate: number; // Percent of closed trades with positive PnL
+  grossProfit: number;
+  grossLoss: number; // Positive number
+  netProfit: number;
+  profitFactor: number | null; // Gross profit / gross loss; null without losses
+  expectancy: number; // Average PnL per closed trade
+  averageWin: number;
+  averageLoss: number;
+  maxDrawdown: number; // Percent of peak equity
+  maxDrawdownDurationMs: number; // Longest time below a previous equity peak
+  sharpeRatio: number; // Annualized from daily returns
+  sortinoRatio: number;
+  calmarRatio: number | null; // Annualized return / max drawdown; null without a drawdown
+  averageHoldingTimeMs: number;
+  exposure: number; // Percent of the window with a position open
+  averageSlippage: number; // Percent, positive when fills came in worse than quoted
+  volume: number; // Quote asset traded
+}
+
+export interface PerformanceReport {
+  window: AnalyticsWindow;
+  initialEquity: number;
+  overall: PerformanceStats;
+  bySymbol: Record<string, PerformanceStats>;
+  byStrategy: Record<string, PerformanceStats>;
+}
+
+export interface ReportOptions {
+  window?: AnalyticsWindow; // Defaults to the span of the trades
+  initialEquity?: number;
+  currentEquity?: number; // Portfolio value now; without initialEquity, the equity at the window start is backed out of it
+}
+
+// Executed trading decisions as trade records; skips entries without a fill price
+export function toTradeRecords(entries: TradingMemoryEntry[], defaultStrategy: string = 'unknown'): TradeRecord[] {
+  return entries
+    .filter(entry => entry.result?.executed && entry.result.price && (entry.action === 'buy' || entry.action === 'sell'))
+    .map(entry => {
+      const result = entry.result!;
+      const quoted = result.quotedAmountOut;
+      return {
+        timestamp: entry.timestamp,
+        symbol: entry.symbol,
+        strategy: entry.strategy || defaultStrategy,
+        action: entry.action as 'buy' | 'sell',
+        price: result.price!,
+        amount: result.amount || 0,
+        notional: result.notional ?? (result.amount || 0) * result.price!,
+        profit: entry.action === 'sell' ? result.profit : undefined,
+        holdingTimeMs: result.holdingTimeMs,
+        slippage: quoted && result.amountOut !== undefined ? ((quoted - result.amountOut) / quoted) * 100 : undefined,
+      };
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Trailing windows ending now: last day, week and month
+export function trailingWindows(now: Date = new Date()): AnalyticsWindow[] {
+  return [
+    { label: '1d', from: new Date(now.getTime() - DAY_MS), to: now },
+    { label: '7d', from: new Date(now.getTime() - 7 * DAY_MS), to: now },
+    { label: '30d', from: new Date(now.getTime() - 30 * DAY_MS), to: now },
+  ];
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Longest stretch an equity curve spent below a previous peak, including an unrecovered one at the end
+function longestDrawdownDuration(points: { time: number; equity: number }[], end: number): number {
+  let peak = -Infinity;
+  let peakTime = 0;
+  let underwater = false;
+  let longest = 0;
+  for (const point of points) {
+    if (point.equity >= peak) {
+      if (underwater) longest = Math.max(longest, point.time - peakTime);
+      underwater = false;
+      peak = point.equity;
+      peakTime = point.time;
+    } else {
+      underwater = true;
+    }
+  }
+  if (underwater) longest = Math.max(longest, end - peakTime);
+  return longest;
+}
+
+// Share of the window covered by the union of holding intervals
+function exposure(trades: TradeRecord[], window: AnalyticsWindow): number {
+  const span = window.to.getTime() - window.from.getTime();
+  if (span <= 0) return 0;
+
+  const intervals = trades
+    .filter(trade => trade.holdingTimeMs)
+    .map(trade => [Math.max(trade.timestamp.getTime() - trade.holdingTimeMs!, window.from.getTime()), trade.timestamp.getTime()])
+    .sort((a, b) => a[0] - b[0]);
+
+  let covered = 0;
+  let cursor = -Infinity;
+  for (const [start, end] of intervals) {
+    const from = Math.max(start, cursor);
+    if (end > from) covered += end - from;
+    cursor = Math.max(cursor, end);
+  }
+  return (covered / span) * 100;
+}
+
+export function computeStats(trades: TradeRecord[], window: AnalyticsWindow, initialEquity: number): PerformanceStats {
+  const closed = trades.filter(trade => trade.profit !== undefined);
+  const profits = closed.map(trade => trade.profit!);
+  const wins = profits.filter(profit => profit > 0);
+  const losses = profits.filter(profit => profit < 0);
+  const grossProfit = wins.reduce((sum, profit) => sum + profit, 0);
+  const grossLoss = -losses.reduce((sum, profit) => sum + profit, 0);
+  const netProfit = grossProfit - grossLoss;
+
+  // Realized equity after each closed trade, and at the end of each day of the window
+  const start = window.from.getTime();
+  const end = window.to.getTime();
+  const points = [{ time: start, equity: initialEquity }];
+  let equity = initialEquity;
+  for (const trade of closed) {
+    equity += trade.profit!;
+    points.push({ time: trade.timestamp.getTime(), equity });
+  }
+
+  const days = Math.max(Math.ceil((end - start) / DAY_MS), 1);
+  const dailyEquity = [initialEquity];
+  let index = 1;
+  for (let day = 1; day <= days; day++) {
+    const dayEnd = start + day * DAY_MS;
+    while (index < points.length && points[index].time < dayEnd) index++;
+    dailyEquity.push(points[index - 1].equity);
+  }
+  const returns = periodReturns(dailyEquity);
+  const drawdown = maxDrawdown(points.map(point => point.equity)).maxDrawdown;
+
+  const finalEquity = points[points.length - 1].equity;
+  const years = Math.max(end - start, DAY_MS) / (365 * DAY_MS);
+  const annualizedReturn = initialEquity > 0 && finalEquity > 0 ? Math.pow(finalEquity / initialEquity, 1 / years) - 1 : -1;
+
+  const holdingTimes = closed.filter(trade => trade.holdingTimeMs !== undefined).map(trade => trade.holdingTimeMs!);
+  const slippages = trades.filter(trade => trade.slippage !== undefined).map(trade => trade.slippage!);
+
+  return {
+    fills: trades.length,
+    closedTrades: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    grossProfit,
+    grossLoss,
+    netProfit,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: average(profits),
+    averageWin: average(wins),
+    averageLoss: average(losses),
+    maxDrawdown: drawdown * 100,
+    maxDrawdownDurationMs: longestDrawdownDuration(points, end),
+    sharpeRatio: sharpeRatio(returns, 365),
+    sortinoRatio: sortinoRatio(returns, 365),
+    calmarRatio: drawdown > 0 ? annualizedReturn / drawdown : null,
+    averageHoldingTimeMs: average(holdingTimes),
+    exposure: exposure(closed, window),
+    averageSlippage: average(slippages),
+    volume: trades.reduce((sum, trade) => sum + trade.notional, 0),
+  };
+}
+
+function groupBy(trades: TradeRecord[], key: (trade: TradeRecord) => string): Record<string, TradeRecord[]> {
+  const groups: Record<string, TradeRecord[]> = {};
+  trades.forEach(trade => (groups[key(trade)] = groups[key(trade)] || []).push(trade));
+  return groups;
+}
+
+// Equity when a window started: the current equity less the PnL realized since then
+export function equityAtStart(trades: TradeRecord[], from: Date, currentEquity: number): number {
+  return trades
+    .filter(trade => trade.timestamp >= from)
+    .reduce((equity, trade) => equity - (trade.profit ?? 0), currentEquity);
+}
+
+// Overall, per-symbol and per-strategy stats for the trades inside a window
+export function buildPerformanceReport(trades: TradeRecord[], options: ReportOptions = {}): PerformanceReport {
+  const window = options.window ?? {
+    label: 'all',
+    from: trades[0]?.timestamp ?? new Date(),
+    to: trades[trades.length - 1]?.timestamp ?? new Date(),
+  };
+  const initialEquity =
+    options.initialEquity ??
+    (options.currentEquity !== undefined ? equityAtStart(trades, window.from, options.currentEquity) : DEFAULT_INITIAL_EQUITY);
+  const inWindow = trades.filter(trade => trade.timestamp >= window.from && trade.timestamp <= window.to);
+
+  const breakdown = (groups: Record<string, TradeRecord[]>) =>
+    Object.fromEntries(
+      Object.entries(groups)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, group]) => [name, computeStats(group, window, initialEquity)])
+    );
+
+  return {
+    window,
+    initialEquity,
+    overall: computeStats(inWindow, window, initialEquity),
+    bySymbol: breakdown(groupBy(inWindow, trade => trade.symbol)),
+    byStrategy: breakdown(groupBy(inWindow, trade => trade.strategy)),
+  };
+}
@@ -0,0 +1,90 @@
+import { PerformanceReport, PerformanceStats } from './performance';
+
+export type ReportFormat = 'json' | 'csv' | 'markdown';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Columns of the Markdown tables; the CSV export carries every stat
+const columns: { key: keyof PerformanceStats; label: string; format: (value: number | null) => string }[] = [
+  { key: 'closedTrades', label: 'Closed trades', format: value => String(value) },
+  { key: 'winRate', label: 'Win rate %', format: value => fixed(value) },
+  { key: 'netProfit', label: 'Net profit', format: value => fixed(value) },
+  { key: 'profitFactor', label: 'Profit factor', format: value => fixed(value) },
+  { key: 'expectancy', label: 'Expectancy', format: value => fixed(value) },
+  { key: 'maxDrawdown', label: 'Max drawdown %', format: value => fixed(value) },
+  { key: 'maxDrawdownDurationMs', label: 'Drawdown duration h', format: value => fixed(value === null ? null : value / HOUR_MS, 1) },
+  { key: 'sharpeRatio', label: 'Sharpe', format: value => fixed(value) },
+  { key: 'sortinoRatio', label: 'Sortino', format: value => fixed(value) },
+  { key: 'calmarRatio', label: 'Calmar', format: value => fixed(value) },
+  { key: 'averageHoldingTimeMs', label: 'Avg holding h', format: value => fixed(value === null ? null : value / HOUR_MS, 1) },
+  { key: 'exposure', label: 'Exposure %', format: value => fixed(value) },
+  { key: 'averageSlippage', label: 'Avg slippage %', format: value => fixed(value, 3) },
+  { key: 'volume', label: 'Volume', format: value => fixed(value) },
+];
+
+function fixed(value: number | null, digits: number = 2): string {
+  return value === null || !Number.isFinite(value) ? '' : value.toFixed(digits);
+}
+
+function rows(report: PerformanceReport): { scope: string; name: string; stats: PerformanceStats }[] {
+  return [
+    { scope: 'overall', name: 'all', stats: report.overall },
+    ...Object.entries(report.bySymbol).map(([name, stats]) => ({ scope: 'symbol', name, stats })),
+    ...Object.entries(report.byStrategy).map(([name, stats]) => ({ scope: 'strategy', name, stats })),
+  ];
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function reportToJson(report: PerformanceReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+// One row per scope, with every numeric stat at full precision
+export function reportToCsv(report: PerformanceReport): string {
+  const keys = Object.keys(report.overall) as (keyof PerformanceStats)[];
+  const header = ['window', 'from', 'to', 'scope', 'name', ...keys].join(',');
+  const lines = rows(report).map(({ scope, name, stats }) =>
+    [report.window.label, report.window.from.toISOString(), report.window.to.toISOString(), scope, name, ...keys.map(key => stats[key] ?? '')]
+      .map(value => csvField(String(value)))
+      .join(',')
+  );
+  return [header, ...lines].join('\n') + '\n';
+}
+
+export function reportToMarkdown(report: PerformanceReport): string {
+  const table = (title: string, scope: string, entries: [string, PerformanceStats][]) => {
+    if (entries.length === 0) return [];
+    return [
+      `### ${title}`,
+      '',
+      `| ${scope} | ${columns.map(column => column.label).join(' | ')} |`,
+      `|---|${columns.map(() => '---:').join('|')}|`,
+      ...entries.map(([name, stats]) => `| ${name} | ${columns.map(column => column.format(stats[column.key] as number | null)).join(' | ')} |`),
+      '',
+    ];
+  };
+
+  return [
+    `## Performance report (${report.window.label})`,
+    '',
+    `${report.window.from.toISOString()} to ${report.window.to.toISOString()}, starting equity ${report.initialEquity}`,
+    '',
+    ...table('Overall', 'Scope', [['all', report.overall]]),
+    ...table('By symbol', 'Symbol', Object.entries(report.bySymbol)),
+    ...table('By strategy', 'Strategy', Object.entries(report.byStrategy)),
+  ].join('\n');
+}
+
+export function formatReport(report: PerformanceReport, format: ReportFormat): string {
+  switch (format) {
+    case 'csv':
+      return reportToCsv(report);
+    case 'markdown':
+      return reportToMarkdown(report);
+    default:
+      return reportToJson(report);
+  }
+}
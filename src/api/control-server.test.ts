@@ -0,0 +1,181 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import http from 'http';
+import { SlothfulTrader } from '../agent';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { PositionLedger } from '../portfolio/position-ledger';
+import { RiskManager } from '../risk/risk-manager';
+import { RecallNetworkTools } from '../tools/recall-tools';
+import { ControlServer, ControlServerOptions } from './control-server';
+
+const TOKEN = 'test-token';
+
+interface Reply {
+  status: number;
+  body: any;
+}
+
+// Trader stand-in recording the calls the API makes
+function fakeTrader() {
+  const trader = {
+    paused: false,
+    pairs: ['ETH/USDC'],
+    analyzed: [] as string[],
+    getStatus: () => ({ active: true, paused: trader.paused }),
+    pause: () => (trader.paused = true),
+    resume: () => (trader.paused = false),
+    getTradingPairs: () => trader.pairs,
+    setTradingPairs: (pairs: string[]) => (trader.pairs = pairs),
+    analyzePair: async (symbol: string) => {
+      trader.analyzed.push(symbol);
+      return { decision: { action: 'hold' }, traded: false };
+    },
+  };
+  return trader;
+}
+
+describe('ControlServer', () => {
+  let server: ControlServer | undefined;
+  let trader: ReturnType<typeof fakeTrader>;
+  let risk: RiskManager;
+  let ledger: PositionLedger;
+
+  beforeEach(() => {
+    trader = fakeTrader();
+    const memory = new TradingMemory(new LocalMemoryStore());
+    risk = new RiskManager(memory, false, '');
+    ledger = new PositionLedger('fifo', '');
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function start(options: Partial<ControlServerOptions> = {}): Promise<number> {
+    const memory = new TradingMemory(new LocalMemoryStore());
+    const recall = { getPortfolioBalance: { execute: async () => ({ totalBalance: 1000, tokens: [] }) } } as unknown as RecallNetworkTools;
+    server = new ControlServer(
+      trader as unknown as SlothfulTrader,
+      { port: 0, host: '127.0.0.1', token: TOKEN, readOnly: false, ...options },
+      memory,
+      ledger,
+      risk,
+      recall
+    );
+    await server.start();
+    return server.address()!.port;
+  }
+
+  function request(port: number, method: string, path: string, body?: string, token: string | null = TOKEN): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path, headers: token ? { Authorization: `Bearer ${token}` } : {} }, res => {
+        let data = '';
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: data.startsWith('{') || data.startsWith('[') ? JSON.parse(data) : data }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  it('refuses to run without a token', () => {
+    expect(() => new ControlServer(trader as unknown as SlothfulTrader, { port: 0, host: '127.0.0.1', token: '', readOnly: false })).toThrow(
+      'CONTROL_API_TOKEN is required to serve the control API'
+    );
+  });
+
+  it('answers only requests with the bearer token', async () => {
+    const port = await start();
+
+    await expect(request(port, 'GET', '/status', undefined, null)).resolves.toEqual({ status: 401, body: { error: 'Missing or invalid bearer token' } });
+    await expect(request(port, 'GET', '/status', undefined, 'wrong')).resolves.toMatchObject({ status: 401 });
+    await expect(request(port, 'POST', '/pause', undefined, null)).resolves.toMatchObject({ status: 401 });
+    expect(trader.paused).toBe(false);
+    await expect(request(port, 'GET', '/status')).resolves.toEqual({ status: 200, body: { active: true, paused: false } });
+  });
+
+  it('serves open positions from the ledger', async () => {
+    ledger.recordFill({ id: '1', timestamp: new Date(), symbol: 'ETH/USDC', side: 'buy', quantity: 1, price: 3000 });
+    const port = await start();
+
+    const reply = await request(port, 'GET', '/positions');
+
+    expect(reply.status).toBe(200);
+    expect(reply.body).toEqual([expect.objectContaining({ symbol: 'ETH/USDC', quantity: 1, averageCost: 3000 })]);
+  });
+
+  it('answers unknown paths with 404 and wrong methods with 405', async () => {
+    const port = await start();
+
+    await expect(request(port, 'GET', '/nothing')).resolves.toEqual({ status: 404, body: { error: 'Not found: /nothing' } });
+    await expect(request(port, 'GET', '/pause')).resolves.toEqual({ status: 405, body: { error: 'Method GET not allowed on /pause' } });
+  });
+
+  it('rejects bodies that are too large or not JSON', async () => {
+    const port = await start();
+
+    await expect(request(port, 'POST', '/analyze', JSON.stringify({ symbol: 'x'.repeat(70 * 1024) }))).resolves.toMatchObject({ status: 413 });
+    await expect(request(port, 'POST', '/analyze', '{symbol')).resolves.toEqual({ status: 400, body: { error: 'Request body must be JSON' } });
+    expect(trader.analyzed).toEqual([]);
+  });
+
+  it('pauses, resumes and analyzes on request', async () => {
+    const port = await start();
+
+    await expect(request(port, 'POST', '/pause')).resolves.toEqual({ status: 200, body: { active: true, paused: true } });
+    await expect(request(port, 'POST', '/resume')).resolves.toEqual({ status: 200, body: { active: true, paused: false } });
+    await expect(request(port, 'POST', '/analyze', JSON.stringify({ symbol: 'ETH/USDC' }))).resolves.toEqual({
+      status: 200,
+      body: { symbol: 'ETH/USDC', decision: { action: 'hold' }, traded: false },
+    });
+    await expect(request(port, 'POST', '/analyze', JSON.stringify({ symbol: 'NOPE/USDC' }))).resolves.toMatchObject({ status: 400 });
+    expect(trader.analyzed).toEqual(['ETH/USDC']);
+  });
+
+  it('replaces the trading pairs', async () => {
+    const port = await start();
+
+    await expect(request(port, 'PUT', '/pairs', JSON.stringify({ pairs: ['WBTC/USDC'] }))).resolves.toEqual({
+      status: 200,
+      body: { tradingPairs: ['WBTC/USDC'] },
+    });
+    await expect(request(port, 'PUT', '/pairs', JSON.stringify({ pairs: 'WBTC/USDC' }))).resolves.toEqual({
+      status: 400,
+      body: { error: '"pairs" must be an array of strings' },
+    });
+  });
+
+  it('engages and releases the kill switch', async () => {
+    const port = await start();
+
+    await expect(request(port, 'POST', '/kill-switch', JSON.stringify({ engaged: true, reason: 'test' }))).resolves.toEqual({
+      status: 200,
+      body: { killSwitchEngaged: true },
+    });
+    expect(risk.isKillSwitchEngaged()).toBe(true);
+    await expect(request(port, 'POST', '/kill-switch', JSON.stringify({ engaged: false }))).resolves.toMatchObject({ body: { killSwitchEngaged: false } });
+    await expect(request(port, 'POST', '/kill-switch', JSON.stringify({ engaged: 'yes' }))).resolves.toMatchObject({ status: 400 });
+  });
+
+  it('serves reads but refuses every write in read-only mode', async () => {
+    const port = await start({ readOnly: true });
+
+    await expect(request(port, 'POST', '/kill-switch', JSON.stringify({ engaged: true }))).resolves.toEqual({
+      status: 403,
+      body: { error: 'Control API is read-only' },
+    });
+    await expect(request(port, 'POST', '/pause')).resolves.toMatchObject({ status: 403 });
+    expect(risk.isKillSwitchEngaged()).toBe(false);
+    expect(trader.paused).toBe(false);
+    await expect(request(port, 'GET', '/risk/vetoes')).resolves.toEqual({ status: 200, body: [] });
+  });
+});
@@ -0,0 +1,273 @@
+import http from 'http';
+import crypto from 'crypto';
+import { config } from '../config';
+import { SlothfulTrader } from '../agent';
+import { AnalyticsWindow, trailingWindows } from '../analytics/performance';
+import { ReportFormat, formatReport } from '../analytics/report';
+import { TradingMemory, tradingMemory } from '../memory/trading-memory';
+import { PositionLedger, positionLedger } from '../portfolio/position-ledger';
+import { RiskManager, riskManager } from '../risk/risk-manager';
+import { tokenRegistry } from '../tokens/token-registry';
+import { modelUsage } from '../llm/model-provider';
+import { RecallNetworkTools, recallTools } from '../tools/recall-tools';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('control-api.log');
+
+// Request bodies larger than this are rejected
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface ControlServerOptions {
+  port: number;
+  host: string;
+  token: string; // Bearer token required on every request; the server refuses to run without one
+  readOnly: boolean; // Reject every request that changes state
+}
+
+interface Route {
+  method: 'GET' | 'POST' | 'PUT';
+  path: string;
+  mutates: boolean;
+  handle: (url: URL, body: any) => Promise<unknown>;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    // An oversized body is read to the end and dropped, so the client still gets the 413
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (text.trim().length === 0) return resolve({});
+      try {
+        resolve(JSON.parse(text));
+      } catch (error) {
+        reject(new HttpError(400, 'Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Embedded HTTP API to inspect and steer a running SlothfulTrader
+export class ControlServer {
+  private server?: http.Server;
+  private routes: Route[];
+
+  constructor(
+    private trader: SlothfulTrader,
+    private options: ControlServerOptions = {
+      port: config.api.port,
+      host: config.api.host,
+      token: config.api.token,
+      readOnly: config.api.readOnly,
+    },
+    private memory: TradingMemory = tradingMemory,
+    private ledger: PositionLedger = positionLedger,
+    private risk: RiskManager = riskManager,
+    private recall: RecallNetworkTools = recallTools
+  ) {
+    // Positions, decisions and the kill switch are never served to unauthenticated callers
+    if (!options.token) {
+      throw new Error('CONTROL_API_TOKEN is required to serve the control API');
+    }
+    this.routes = [
+      { method: 'GET', path: '/status', mutates: false, handle: async () => this.trader.getStatus() },
+      { method: 'GET', path: '/positions', mutates: false, handle: async () => this.ledger.getOpenPositions() },
+      {
+        method: 'GET',
+        path: '/decisions',
+        mutates: false,
+        handle: async url => {
+          const symbol = url.searchParams.get('symbol');
+          const limit = Math.min(Number(url.searchParams.get('limit')) || 20, 200);
+          return symbol ? this.memory.getTradingHistory(symbol, limit) : this.memory.getRecentDecisions(limit);
+        },
+      },
+      { method: 'GET', path: '/analytics', mutates: false, handle: async url => this.analytics(url) },
+      { method: 'GET', path: '/risk/vetoes', mutates: false, handle: async () => this.risk.getRecentVetoes() },
+      {
+        method: 'GET',
+        path: '/model/usage',
+        mutates: false,
+        handle: async url => modelUsage.getSummary(Math.min(Number(url.searchParams.get('limit')) || 20, 100)),
+      },
+      {
+        method: 'POST',
+        path: '/pause',
+        mutates: true,
+        handle: async () => {
+          this.trader.pause();
+          return this.trader.getStatus();
+        },
+      },
+      {
+        method: 'POST',
+        path: '/resume',
+        mutates: true,
+        handle: async () => {
+          this.trader.resume();
+          return this.trader.getStatus();
+        },
+      },
+      {
+        method: 'POST',
+        path: '/analyze',
+        mutates: true,
+        handle: async (_url, body) => {
+          if (typeof body.symbol !== 'string') throw new HttpError(400, '"symbol" is required');
+          try {
+            tokenRegistry.resolvePair(body.symbol);
+          } catch (error) {
+            throw new HttpError(400, error instanceof Error ? error.message : String(error));
+          }
+          try {
+            return { symbol: body.symbol, ...(await this.trader.analyzePair(body.symbol)) };
+          } catch (error) {
+            throw new HttpError(502, `Analysis of ${body.symbol} failed: ${error instanceof Error ? error.message : error}`);
+          }
+        },
+      },
+      {
+        method: 'PUT',
+        path: '/pairs',
+        mutates: true,
+        handle: async (_url, body) => {
+          if (!Array.isArray(body.pairs) || !body.pairs.every((pair: unknown) => typeof pair === 'string')) {
+            throw new HttpError(400, '"pairs" must be an array of strings');
+          }
+          try {
+            this.trader.setTradingPairs(body.pairs);
+          } catch (error) {
+            throw new HttpError(400, error instanceof Error ? error.message : String(error));
+          }
+          return { tradingPairs: this.trader.getTradingPairs() };
+        },
+      },
+      {
+        method: 'POST',
+        path: '/kill-switch',
+        mutates: true,
+        handle: async (_url, body) => {
+          if (typeof body.engaged !== 'boolean') throw new HttpError(400, '"engaged" must be true or false');
+          if (body.engaged) {
+            this.risk.engageKillSwitch(typeof body.reason === 'string' ? body.reason : 'control API');
+          } else {
+            this.risk.releaseKillSwitch();
+          }
+          return { killSwitchEngaged: this.risk.isKillSwitchEngaged() };
+        },
+      },
+    ];
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+    logger.info(`Control API listening on http://${this.options.host}:${this.address()?.port}${this.options.readOnly ? ' (read-only)' : ''}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  address(): { port: number } | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? { port: address.port } : undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let status = 200;
+    let payload: unknown;
+    let contentType = 'application/json';
+
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const route = this.routes.find(item => item.path === url.pathname && item.method === req.method);
+      if (!route) {
+        throw this.routes.some(item => item.path === url.pathname)
+          ? new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`)
+          : new HttpError(404, `Not found: ${url.pathname}`);
+      }
+
+      this.authorize(req, route);
+      const body = route.method === 'GET' ? {} : await readBody(req);
+      payload = await route.handle(url, body);
+      if (route.mutates) {
+        logger.info(`Control API ${req.method} ${url.pathname}`, { body });
+      }
+      if (typeof payload === 'string') {
+        contentType = url.searchParams.get('format') === 'csv' ? 'text/csv' : 'text/markdown';
+      }
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      payload = { error: error instanceof Error ? error.message : String(error) };
+      if (status === 500) logger.error('Control API error:', error);
+    }
+
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  }
+
+  private authorize(req: http.IncomingMessage, route: Route): void {
+    const header = req.headers.authorization || '';
+    const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+    if (!tokensMatch(this.options.token, provided)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+    if (route.mutates && this.options.readOnly) {
+      throw new HttpError(403, 'Control API is read-only');
+    }
+  }
+
+  // GET /analytics?symbol=ETH/USDC&window=7d&format=markdown
+  private async analytics(url: URL): Promise<unknown> {
+    const format = (url.searchParams.get('format') || 'json') as ReportFormat;
+    if (!['json', 'csv', 'markdown'].includes(format)) {
+      throw new HttpError(400, 'format must be json, csv or markdown');
+    }
+    const windowLabel = url.searchParams.get('window');
+    let window: AnalyticsWindow | undefined;
+    if (windowLabel && windowLabel !== 'all') {
+      window = trailingWindows().find(item => item.label === windowLabel);
+      if (!window) throw new HttpError(400, 'window must be 1d, 7d, 30d or all');
+    }
+
+    // The equity curve starts from the portfolio value at the window start, backed out of today's
+    let currentEquity: number | undefined;
+    try {
+      currentEquity = (await this.recall.getPortfolioBalance.execute({})).totalBalance;
+    } catch (error) {
+      logger.warn(`Portfolio unavailable for analytics, using the default starting equity: ${error instanceof Error ? error.message : error}`);
+    }
+    const report = await this.memory.getPerformanceAnalytics(url.searchParams.get('symbol') || undefined, { window, currentEquity });
+    return format === 'json' ? report : formatReport(report, format);
+  }
+}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog, GENESIS_HASH, hashEntry } from './audit-log';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeCycle(log: AuditLog = new AuditLog(file)) {
+    log.append('cycle-1', 'cycle_start', { symbol: 'ETH/USDC', timeframe: '1h' });
+    log.append('cycle-1', 'price_check', { symbol: 'ETH/USDC', price: 3000, size: 10n });
+    log.append('cycle-2', 'cycle_start', { symbol: 'BTC/USDC', timeframe: '1h' });
+    log.append('cycle-1', 'cycle_end', { decision: { action: 'hold' }, traded: false, skipped: undefined });
+    return log;
+  }
+
+  function lines(): string[] {
+    return fs.readFileSync(file, 'utf8').trim().split('\n');
+  }
+
+  it('chains entries and continues the chain after a restart', () => {
+    writeCycle();
+    const reopened = new AuditLog(file);
+    reopened.append('cycle-3', 'cycle_start', { symbol: 'LINK/USDC' });
+
+    const entries = reopened.read();
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect(entries[0].prevHash).toBe(GENESIS_HASH);
+    entries.slice(1).forEach((entry, index) => expect(entry.prevHash).toBe(entries[index].hash));
+    expect(entries[1].data).toEqual({ symbol: 'ETH/USDC', price: 3000, size: '10' });
+    expect(reopened.read('cycle-1').map(entry => entry.type)).toEqual(['cycle_start', 'price_check', 'cycle_end']);
+    expect(reopened.verify()).toEqual({ valid: true, entries: 5 });
+  });
+
+  it('keeps entries in memory without a file', () => {
+    const log = writeCycle(new AuditLog(''));
+
+    expect(log.read('cycle-2')).toHaveLength(1);
+    expect(log.verify()).toEqual({ valid: true, entries: 4 });
+  });
+
+  it('detects an edited entry', () => {
+    writeCycle();
+    fs.writeFileSync(file, lines().map(line => line.replace('"price":3000', '"price":2900')).join('\n') + '\n');
+
+    expect(new AuditLog(file).verify()).toEqual({ valid: false, entries: 4, brokenAt: 2, reason: 'entry hash does not match its content' });
+  });
+
+  it('detects an edited entry whose hash was recomputed', () => {
+    writeCycle();
+    const edited = lines().map(line => JSON.parse(line));
+    edited[1].data.price = 2900;
+    edited[1].hash = hashEntry(edited[1]);
+    fs.writeFileSync(file, edited.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+    expect(new AuditLog(file).verify()).toMatchObject({ valid: false, brokenAt: 3, reason: 'previous hash does not match' });
+  });
+
+  it('detects reordered and removed entries', () => {
+    writeCycle();
+    const [first, second, third, fourth] = lines();
+
+    fs.writeFileSync(file, [first, third, second, fourth].join('\n') + '\n');
+    expect(new AuditLog(file).verify()).toMatchObject({ valid: false, brokenAt: 2, reason: 'expected seq 2, found 3' });
+
+    fs.writeFileSync(file, [second, third, fourth].join('\n') + '\n');
+    expect(new AuditLog(file).verify()).toMatchObject({ valid: false, brokenAt: 1, reason: 'expected seq 1, found 2' });
+  });
+
+  it('detects a truncated line and skips it when reading', () => {
+    writeCycle();
+    const all = lines();
+    fs.writeFileSync(file, [...all.slice(0, 3), all[3].slice(0, 40)].join('\n') + '\n');
+    const log = new AuditLog(file);
+
+    expect(log.verify()).toEqual({ valid: false, entries: 4, brokenAt: 4, reason: 'unparseable entry' });
+    expect(log.read()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { config } from '../config';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('audit.log');
+
+export type AuditEventType =
+  | 'cycle_start'
+  | 'prompt'
+  | 'model_response'
+  | 'decision'
+  | 'tool_call'
+  | 'price_check'
+  | 'risk_check'
+  | 'order'
+  | 'execution'
+  | 'cycle_end';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  correlationId: string; // Shared by every entry of one agent cycle
+  type: AuditEventType;
+  data: any;
+  prevHash: string; // Hash of the entry before, chaining the log
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  brokenAt?: number; // Line of the first entry that fails, counting from 1
+  reason?: string;
+}
+
+// Where audit entries go; the log file normally, an in-memory list during replays
+export interface AuditSink {
+  append(correlationId: string, type: AuditEventType, data: unknown): void;
+}
+
+// prevHash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+// JSON-safe copy of a value: bigints become strings, Dates ISO strings, undefined fields disappear
+export function normalizeAuditData(value: unknown): unknown {
+  const json = JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  return json === undefined ? null : JSON.parse(json);
+}
+
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { seq, timestamp, correlationId, type, data, prevHash } = entry;
+  return crypto
+    .createHash('sha256')
+    .update(prevHash)
+    .update(JSON.stringify({ seq, timestamp, correlationId, type, data }))
+    .digest('hex');
+}
+
+// Append-only, hash-chained audit log in JSONL. Each entry's hash covers its content and the
+// previous entry's hash, so editing, removing or reordering entries breaks verification from
+// that point on.
+export class AuditLog implements AuditSink {
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+  private entries: AuditEntry[] = []; // Only kept when there is no file
+
+  constructor(private filePath: string = config.audit.file) {
+    const last = this.readAll().pop();
+    if (last) {
+      this.seq = last.seq;
+      this.lastHash = last.hash;
+    }
+  }
+
+  append(correlationId: string, type: AuditEventType, data: unknown): AuditEntry {
+    const unhashed = {
+      seq: this.seq + 1,
+      timestamp: new Date().toISOString(),
+      correlationId,
+      type,
+      data: normalizeAuditData(data),
+      prevHash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    } else {
+      this.entries.push(entry);
+    }
+    this.seq = entry.seq;
+    this.lastHash = entry.hash;
+    return entry;
+  }
+
+  // Entries in order, optionally only those of one cycle
+  read(correlationId?: string): AuditEntry[] {
+    const entries = this.readAll();
+    return correlationId ? entries.filter(entry => entry.correlationId === correlationId) : entries;
+  }
+
+  // Recompute the chain from the start
+  verify(): AuditVerification {
+    const lines = this.filePath ? this.readLines() : this.entries.map(entry => JSON.stringify(entry));
+    let prevHash = GENESIS_HASH;
+    for (const [index, line] of lines.entries()) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        return { valid: false, entries: lines.length, brokenAt: index + 1, reason: 'unparseable entry' };
+      }
+      if (entry.seq !== index + 1) {
+        return { valid: false, entries: lines.length, brokenAt: index + 1, reason: `expected seq ${index + 1}, found ${entry.seq}` };
+      }
+      if (entry.prevHash !== prevHash) {
+        return { valid: false, entries: lines.length, brokenAt: index + 1, reason: 'previous hash does not match' };
+      }
+      if (hashEntry(entry) !== entry.hash) {
+        return { valid: false, entries: lines.length, brokenAt: index + 1, reason: 'entry hash does not match its content' };
+      }
+      prevHash = entry.hash;
+    }
+    return { valid: true, entries: lines.length };
+  }
+
+  private readLines(): string[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+  }
+
+  private readAll(): AuditEntry[] {
+    if (!this.filePath) return [...this.entries];
+    const entries: AuditEntry[] = [];
+    for (const line of this.readLines()) {
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        logger.error(`Skipping unparseable audit entry in ${this.filePath}: ${line.slice(0, 80)}`);
+      }
+    }
+    return entries;
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditEventType, AuditSink, auditLog } from './audit-log';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('audit.log');
+
+// Serves recorded tool outputs in place of the real tools during a replay
+export interface ToolReplay {
+  next(tool: string, args: unknown): Promise<unknown>;
+}
+
+interface CycleContext {
+  correlationId: string;
+  trail: AuditTrail;
+}
+
+// Carries the current cycle through awaits, so tools, the risk check and order tracking
+// can record into it without the correlation ID being passed around
+const cycles = new AsyncLocalStorage<CycleContext>();
+
+export function newCorrelationId(label: string): string {
+  return `${label.replace(/[^A-Za-z0-9]+/g, '-')}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+// Records each agent cycle into an audit sink
+export class AuditTrail {
+  constructor(private sink: AuditSink = auditLog, readonly replay?: ToolReplay) {}
+
+  // Run fn as one cycle; everything recorded inside shares a new correlation ID
+  runCycle<T>(label: string, fn: (correlationId: string) => Promise<T>): Promise<T> {
+    const correlationId = newCorrelationId(label);
+    return cycles.run({ correlationId, trail: this }, () => fn(correlationId));
+  }
+
+  // An unwritable audit log is reported, not allowed to stop trading
+  record(correlationId: string, type: AuditEventType, data: unknown): void {
+    try {
+      this.sink.append(correlationId, type, data);
+    } catch (error) {
+      logger.error(`Error writing ${type} audit entry for ${correlationId}:`, error);
+    }
+  }
+}
+
+export const auditTrail = new AuditTrail();
+
+// Record an event in the current cycle; outside a cycle this does nothing
+export function audit(type: AuditEventType, data: unknown): void {
+  const context = cycles.getStore();
+  context?.trail.record(context.correlationId, type, data);
+}
+
+// Wrap a tool's execute so calls inside a cycle are recorded with their arguments and result,
+// or answered from the recording when the cycle is a replay
+export function audited<A, R>(tool: string, execute: (args: A) => Promise<R>): (args: A) => Promise<R> {
+  return async (args: A) => {
+    const context = cycles.getStore();
+    if (!context) return execute(args);
+
+    const startedAt = Date.now();
+    try {
+      const result = context.trail.replay ? ((await context.trail.replay.next(tool, args)) as R) : await execute(args);
+      context.trail.record(context.correlationId, 'tool_call', { tool, args, result, durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      context.trail.record(context.correlationId, 'tool_call', { tool, args, error: message, durationMs: Date.now() - startedAt });
+      throw error;
+    }
+  };
+}
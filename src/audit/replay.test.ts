@@ -0,0 +1,138 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import { SlothfulTrader } from '../agent';
+import { EventBus } from '../events/event-bus';
+import { OrderManager } from '../execution/order-manager';
+import { TradeExecutor } from '../execution/trade-executor';
+import { CheckpointStore } from '../lifecycle/checkpoint';
+import { ScriptedModel } from '../llm/providers';
+import { candleStore } from '../market/candles';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { PositionLedger } from '../portfolio/position-ledger';
+import { PositionMonitor } from '../portfolio/position-monitor';
+import { PriceOracle } from '../pricing/price-oracle';
+import { FakePriceSource } from '../pricing/testing';
+import { RiskManager } from '../risk/risk-manager';
+import { FakeClock } from '../scheduler/clock';
+import { SimulatedExchange } from '../services/simulated-exchange';
+import { tokenRegistry } from '../tokens/token-registry';
+import { RecallNetworkTools } from '../tools/recall-tools';
+import { AuditEntry, AuditLog } from './audit-log';
+import { AuditTrail } from './audit-trail';
+import { listCycles, replayCycle } from './replay';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+const PRICES: Record<string, number> = {
+  [USDC.address.toLowerCase()]: 1,
+  [WETH.address.toLowerCase()]: 3000,
+};
+
+const HOLD = JSON.stringify({ action: 'hold', confidence: 0.3, size: 0, stopLoss: null, takeProfit: null, rationale: 'no edge' });
+const BUY = JSON.stringify({ action: 'buy', confidence: 0.9, size: 0.01, stopLoss: 2900, takeProfit: 3300, rationale: 'breakout' });
+
+describe('replayCycle', () => {
+  let log: AuditLog;
+
+  beforeEach(() => {
+    log = new AuditLog('');
+    // Keep live ticks out of the shared candle file
+    jest.spyOn(candleStore, 'recordTick').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Run one real cycle on a paper venue with scripted model answers, recording into log
+  async function record(responses: string[]): Promise<string> {
+    const exchange = new SimulatedExchange({
+      priceSource: async token => PRICES[token.toLowerCase()],
+      initialBalances: { [USDC.address]: 100_000 },
+    });
+    const recall = new RecallNetworkTools(exchange);
+    const memory = new TradingMemory(new LocalMemoryStore());
+    const risk = new RiskManager(memory, false, '');
+    const events = new EventBus();
+    const ledger = new PositionLedger('fifo', '');
+    const oracle = new PriceOracle([new FakePriceSource().set('WETH', 3000).set('USDC', 1)], {
+      maxAgeMs: 60_000,
+      maxDeviationPercent: 1,
+      minSources: 1,
+      cacheTtlMs: 0,
+    });
+    const executor = new TradeExecutor(recall, memory, risk, ledger, new OrderManager(), async () => undefined, oracle, null, events);
+    const trader = new SlothfulTrader(
+      new CheckpointStore(''),
+      new ScriptedModel(responses),
+      executor,
+      memory,
+      new AuditTrail(log),
+      events,
+      oracle,
+      ledger,
+      recall,
+      new PositionMonitor(ledger, recall, executor, undefined, events, risk, new FakeClock(0))
+    );
+
+    await trader.analyzePair('ETH/USDC', '1h');
+    return listCycles(log).pop()!.correlationId;
+  }
+
+  // The recording with each model response replaced
+  function withResponses(text: string): { read: (correlationId?: string) => AuditEntry[] } {
+    return {
+      read: correlationId =>
+        log.read(correlationId).map(entry => (entry.type === 'model_response' ? { ...entry, data: { ...entry.data, text } } : entry)),
+    };
+  }
+
+  it('reproduces a recorded hold', async () => {
+    const correlationId = await record([HOLD]);
+
+    const result = await replayCycle(correlationId, { log });
+
+    expect(result).toMatchObject({ correlationId, symbol: 'ETH/USDC', timeframe: '1h', liveModel: false, matches: true, differences: [] });
+    expect(result.recorded.decisions).toEqual([expect.objectContaining({ action: 'hold' })]);
+    expect(result.replayed.decisions).toEqual(result.recorded.decisions);
+  });
+
+  it('reproduces a recorded trade from the recorded tool outputs', async () => {
+    const correlationId = await record([BUY, BUY]);
+
+    const result = await replayCycle(correlationId, { log });
+
+    expect(result.differences).toEqual([]);
+    expect(result.recorded.executions).toEqual([expect.objectContaining({ executed: true, action: 'buy', orderState: 'confirmed' })]);
+    expect(result.replayed.executions).toEqual(result.recorded.executions);
+    expect(log.verify().valid).toBe(true);
+  });
+
+  it('reports where a replay diverges from the recording', async () => {
+    const correlationId = await record([BUY, BUY]);
+
+    const result = await replayCycle(correlationId, { log: withResponses(HOLD) });
+
+    expect(result.matches).toBe(false);
+    expect(result.differences).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^decision 1 differs: recorded .*"action":"buy".*, replayed .*"action":"hold"/),
+        expect.stringMatching(/^decision 2 was not replayed/),
+        expect.stringMatching(/^execution 1 was not replayed/),
+        'getTradeQuote was called 1 time(s) fewer than recorded',
+        'executeTrade was called 1 time(s) fewer than recorded',
+      ])
+    );
+  });
+
+  it('refuses an unknown correlation ID', async () => {
+    await expect(replayCycle('missing', { log })).rejects.toThrow('No recorded cycle with correlation ID missing');
+  });
+});
@@ -0,0 +1,252 @@
+import { AuditEntry, AuditEventType, AuditLog, AuditSink, auditLog, normalizeAuditData } from './audit-log';
+import { AuditTrail, ToolReplay } from './audit-trail';
+import { SlothfulTrader } from '../agent';
+import { Timeframe } from '../market/candles';
+import { CheckpointStore } from '../lifecycle/checkpoint';
+import { ExecutionResult, TradeExecutor } from '../execution/trade-executor';
+import { OrderManager } from '../execution/order-manager';
+import { PositionLedger } from '../portfolio/position-ledger';
+import { PositionMonitor } from '../portfolio/position-monitor';
+import { RiskManager } from '../risk/risk-manager';
+import { TradingMemory } from '../memory/trading-memory';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { PriceOracle } from '../pricing/price-oracle';
+import { PriceReading, PriceSource } from '../pricing/price-sources';
+import { ModelError } from '../llm/model-provider';
+import { ScriptedModel } from '../llm/providers';
+import { createModelProvider } from '../llm/fallback-model';
+import { TokenInfo, tokenRegistry } from '../tokens/token-registry';
+import { recallTools } from '../tools/recall-tools';
+import { config } from '../config';
+import { EventBus } from '../events/event-bus';
+
+export interface ReplayOptions {
+  log?: Pick<AuditLog, 'read'>;
+  liveModel?: boolean; // Ask the configured models again instead of playing back the recorded responses
+}
+
+export interface ReplayResult {
+  correlationId: string; // The recorded cycle
+  symbol: string;
+  timeframe: Timeframe;
+  liveModel: boolean;
+  recorded: { decisions: unknown[]; executions: unknown[] };
+  replayed: { decisions: unknown[]; executions: unknown[]; error?: string };
+  differences: string[]; // Decisions, executions and tool calls that did not come out the same
+  promptDifferences: string[]; // Prompts that changed; memory and candle context can differ between runs
+  matches: boolean;
+}
+
+interface RecordedCall {
+  args: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+// Tool outputs store dates as ISO strings; the agent expects Date timestamps back
+function reviveDates(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(reviveDates);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      key === 'timestamp' && typeof item === 'string' ? new Date(item) : reviveDates(item),
+    ])
+  );
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeAuditData(a)) === JSON.stringify(normalizeAuditData(b));
+}
+
+// Answers each tool with its recorded outputs in the order they were recorded
+class RecordedTools implements ToolReplay {
+  private calls = new Map<string, RecordedCall[]>();
+  readonly differences: string[] = [];
+
+  constructor(entries: AuditEntry[]) {
+    for (const entry of entries.filter(item => item.type === 'tool_call')) {
+      const { tool, args, result, error } = entry.data;
+      if (!this.calls.has(tool)) this.calls.set(tool, []);
+      this.calls.get(tool)!.push({ args, result, error });
+    }
+  }
+
+  async next(tool: string, args: unknown): Promise<unknown> {
+    const call = this.calls.get(tool)?.shift();
+    if (!call) {
+      this.differences.push(`${tool} was called more often than recorded`);
+      throw new Error(`No recorded output left for ${tool}`);
+    }
+    if (!same(args, call.args)) {
+      this.differences.push(`${tool} called with ${JSON.stringify(normalizeAuditData(args))}, recorded ${JSON.stringify(call.args)}`);
+    }
+    if (call.error !== undefined) throw new Error(call.error);
+    return reviveDates(call.result);
+  }
+
+  // Recorded calls the replay never made
+  unused(): string[] {
+    return [...this.calls]
+      .filter(([, calls]) => calls.length > 0)
+      .map(([tool, calls]) => `${tool} was called ${calls.length} time(s) fewer than recorded`);
+  }
+}
+
+// Collects the replayed cycle's entries instead of appending them to the audit log
+class ReplaySink implements AuditSink {
+  readonly entries: Pick<AuditEntry, 'type' | 'data'>[] = [];
+
+  append(_correlationId: string, type: AuditEventType, data: unknown): void {
+    this.entries.push({ type, data: normalizeAuditData(data) });
+  }
+}
+
+// Answers with the prices a cycle recorded, as fresh readings
+class RecordedPriceSource implements PriceSource {
+  readonly name = 'recorded';
+
+  constructor(private prices: Record<string, number>) {}
+
+  async getPrice(token: TokenInfo): Promise<PriceReading | undefined> {
+    const price = this.prices[token.symbol];
+    return price === undefined ? undefined : { price, timestamp: new Date() };
+  }
+}
+
+// Compare two lists entry by entry, reporting each mismatch
+function compare(label: string, recorded: unknown[], replayed: unknown[], differences: string[]): void {
+  for (let i = 0; i < Math.max(recorded.length, replayed.length); i++) {
+    if (i >= recorded.length) {
+      differences.push(`${label} ${i + 1} was not recorded: ${JSON.stringify(replayed[i])}`);
+    } else if (i >= replayed.length) {
+      differences.push(`${label} ${i + 1} was not replayed: ${JSON.stringify(recorded[i])}`);
+    } else if (!same(recorded[i], replayed[i])) {
+      differences.push(`${label} ${i + 1} differs: recorded ${JSON.stringify(recorded[i])}, replayed ${JSON.stringify(replayed[i])}`);
+    }
+  }
+}
+
+// The parts of an execution that should repeat; order IDs and timestamps never do
+function executionOutcome(data: { result?: ExecutionResult }): Partial<ExecutionResult> {
+  const { executed, action, reason, error, amountIn, amountOut, price, orderState } = data.result || ({} as Partial<ExecutionResult>);
+  return { executed, action, reason, error, amountIn, amountOut, price, orderState };
+}
+
+// Re-run a recorded agent cycle with every tool answered from the recording, then compare what
+// the agent decided and executed against what it did the first time. Trades go to an isolated
+// executor (in-memory memory, ledger and orders, the recorded oracle price, no wallet) so a
+// replay never reaches a venue or a notification sink, and orders always go out as single swaps.
+export async function replayCycle(correlationId: string, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const entries = (options.log || auditLog).read(correlationId);
+  const start = entries.find(entry => entry.type === 'cycle_start');
+  if (!start) {
+    throw new Error(`No recorded cycle with correlation ID ${correlationId}`);
+  }
+  const { symbol, timeframe } = start.data as { symbol: string; timeframe: Timeframe };
+  const ofType = (list: Pick<AuditEntry, 'type' | 'data'>[], type: AuditEventType) =>
+    list.filter(entry => entry.type === type).map(entry => entry.data);
+
+  const tools = new RecordedTools(entries);
+  const sink = new ReplaySink();
+  const model = options.liveModel
+    ? createModelProvider()
+    : new ScriptedModel(
+        ofType(entries, 'model_response').map(response =>
+          response.error !== undefined ? new ModelError(response.error, 'server_error', 'scripted') : response.text
+        ),
+        'replay'
+      );
+
+  const recordedPrices: Record<string, number> = {};
+  const recordedPrice = ofType(entries, 'price_check').find(check => check.price !== undefined);
+  if (recordedPrice) {
+    const { base, quote } = tokenRegistry.resolvePair(symbol);
+    recordedPrices[base.symbol] = recordedPrice.price;
+    recordedPrices[quote.symbol] = 1;
+  }
+
+  const memory = new TradingMemory(new LocalMemoryStore());
+  const events = new EventBus(); // No sinks: a replay must not notify anyone
+  const ledger = new PositionLedger(config.ledger.costBasis, '');
+  const oracle = new PriceOracle([new RecordedPriceSource(recordedPrices)]);
+  const risk = new RiskManager(memory, config.risk.killSwitch, '');
+  const executor = new TradeExecutor(
+    recallTools,
+    memory,
+    risk,
+    ledger,
+    new OrderManager(),
+    async () => undefined,
+    oracle,
+    null,
+    events
+  );
+  const monitor = new PositionMonitor(ledger, recallTools, executor, undefined, events, risk);
+  const trader = new SlothfulTrader(
+    new CheckpointStore(''),
+    model,
+    executor,
+    memory,
+    new AuditTrail(sink, tools),
+    events,
+    oracle,
+    ledger,
+    recallTools,
+    monitor
+  );
+
+  let error: string | undefined;
+  try {
+    await trader.analyzePair(symbol, timeframe);
+  } catch (replayError) {
+    error = replayError instanceof Error ? replayError.message : String(replayError);
+  }
+
+  const recorded = { decisions: ofType(entries, 'decision'), executions: ofType(entries, 'execution').map(executionOutcome) };
+  const replayed = { decisions: ofType(sink.entries, 'decision'), executions: ofType(sink.entries, 'execution').map(executionOutcome), error };
+
+  const differences: string[] = [];
+  compare('decision', recorded.decisions, replayed.decisions, differences);
+  compare('execution', recorded.executions, replayed.executions, differences);
+  differences.push(...tools.differences, ...tools.unused());
+  const recordedEnd = ofType(entries, 'cycle_end')[0];
+  if (recordedEnd?.error !== error) {
+    differences.push(`cycle ${recordedEnd?.error ? `failed with "${recordedEnd.error}"` : 'completed'} when recorded, ${error ? `failed with "${error}"` : 'completed'} when replayed`);
+  }
+
+  const promptDifferences: string[] = [];
+  compare(
+    'prompt',
+    ofType(entries, 'prompt').map(request => request.prompt),
+    ofType(sink.entries, 'prompt').map(request => request.prompt),
+    promptDifferences
+  );
+
+  return {
+    correlationId,
+    symbol,
+    timeframe,
+    liveModel: options.liveModel === true,
+    recorded,
+    replayed,
+    differences,
+    promptDifferences,
+    matches: differences.length === 0,
+  };
+}
+
+// Cycles in the log, oldest first
+export function listCycles(log: Pick<AuditLog, 'read'> = auditLog): { correlationId: string; symbol: string; startedAt: string; entries: number; error?: string }[] {
+  const cycles = new Map<string, { correlationId: string; symbol: string; startedAt: string; entries: number; error?: string }>();
+  for (const entry of log.read()) {
+    if (entry.type === 'cycle_start') {
+      cycles.set(entry.correlationId, { correlationId: entry.correlationId, symbol: entry.data.symbol, startedAt: entry.timestamp, entries: 0 });
+    }
+    const cycle = cycles.get(entry.correlationId);
+    if (!cycle) continue;
+    cycle.entries++;
+    if (entry.type === 'cycle_end' && entry.data.error) cycle.error = entry.data.error;
+  }
+  return [...cycles.values()];
+}
@@ -0,0 +1,90 @@
+import { parseTimeframe } from '../market/candles';
+import { loadCandlesFromFile } from './data-loader';
+import { BacktestResult, runBacktest } from './engine';
+
+const USAGE = `Usage: npm run backtest -- --data <file.csv|file.json> [options]
+
+Options:
+  --symbol <pair>       Trading pair label (default: ETH/USDC)
+  --timeframe <tf>      Candle timeframe: 1m, 5m, 15m, 1h, 4h, 1d (default: 1h)
+  --balance <amount>    Initial quote balance (default: 10000)
+  --fee <percent>       Fee per fill in percent (default: 0.3)
+  --slippage <percent>  Slippage per fill in percent (default: MAX_SLIPPAGE)
+  --lookback <bars>     Candles passed to the indicator engine per bar (default: 300)
+  --strategy <name>     Use one strategy throughout (default: select by volatility and RISK_TOLERANCE)
+  --json                Print the full result as JSON`;
+
+// Parse --key value pairs and bare --flags
+export function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const key = arg.slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = value;
+      i++;
+    }
+  }
+  return args;
+}
+
+function optionalNumber(value: string | boolean | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+export function formatSummary(result: BacktestResult): string {
+  return [
+    `Backtest ${result.symbol} (${result.timeframe})`,
+    `  Initial balance: ${result.initialBalance.toFixed(2)}`,
+    `  Final equity:    ${result.finalEquity.toFixed(2)}`,
+    `  Total return:    ${result.totalReturn.toFixed(2)}%`,
+    `  Trades:          ${result.trades.length}`,
+    `  Win rate:        ${result.winRate.toFixed(2)}%`,
+    `  Max drawdown:    ${result.maxDrawdown.toFixed(2)}%`,
+    `  Sharpe ratio:    ${result.sharpeRatio.toFixed(2)}`,
+    `  Sortino ratio:   ${result.sortinoRatio.toFixed(2)}`,
+  ].join('\n');
+}
+
+export function runBacktestCli(argv: string[]): void {
+  const args = parseArgs(argv);
+  if (args.help || typeof args.data !== 'string') {
+    console.log(USAGE);
+    if (!args.help) process.exitCode = 1;
+    return;
+  }
+
+  const timeframe = parseTimeframe(typeof args.timeframe === 'string' ? args.timeframe : '1h');
+  const candles = loadCandlesFromFile(args.data, timeframe);
+  const result = runBacktest(candles, {
+    symbol: typeof args.symbol === 'string' ? args.symbol : 'ETH/USDC',
+    timeframe,
+    initialBalance: optionalNumber(args.balance, 'balance'),
+    feePercent: optionalNumber(args.fee, 'fee'),
+    slippagePercent: optionalNumber(args.slippage, 'slippage'),
+    lookback: optionalNumber(args.lookback, 'lookback'),
+    strategy: typeof args.strategy === 'string' ? args.strategy : undefined,
+  });
+
+  console.log(args.json ? JSON.stringify(result, null, 2) : formatSummary(result));
+}
+
+if (require.main === module) {
+  try {
+    runBacktestCli(process.argv.slice(2));
+  } catch (error) {
+    console.error(`Backtest failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
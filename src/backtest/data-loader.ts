@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { Candle, Timeframe, normalizeCandles } from '../market/candles';
+
+const CSV_COLUMNS = ['timestamp', 'open', 'high', 'low', 'close', 'volume'] as const;
+
+// Accepts epoch seconds, epoch milliseconds or an ISO-8601 date
+function parseTimestamp(value: string | number): number {
+  if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(value.trim())) {
+    const numeric = Number(value);
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+// Parse CSV with a header row naming timestamp, open, high, low, close and volume columns (any order)
+export function parseCandlesCsv(content: string): Candle[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const indexes = CSV_COLUMNS.map(column => {
+    const index = header.indexOf(column);
+    if (index === -1) {
+      throw new Error(`CSV is missing the "${column}" column`);
+    }
+    return index;
+  });
+
+  return lines.slice(1).map((line, row) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const [timestamp, open, high, low, close, volume] = indexes.map(index => cells[index]);
+    if (volume === undefined) {
+      throw new Error(`CSV row ${row + 2} has too few columns`);
+    }
+    return {
+      timestamp: parseTimestamp(timestamp),
+      open: Number(open),
+      high: Number(high),
+      low: Number(low),
+      close: Number(close),
+      volume: Number(volume),
+    };
+  });
+}
+
+// Parse JSON holding either candle objects or [timestamp, open, high, low, close, volume] tuples
+export function parseCandlesJson(content: string): Candle[] {
+  const data = JSON.parse(content);
+  const rows: unknown[] = Array.isArray(data) ? data : data?.candles;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON must be an array of candles or an object with a "candles" array');
+  }
+
+  return rows.map((row: any) => {
+    if (Array.isArray(row)) {
+      const [timestamp, open, high, low, close, volume] = row;
+      return { timestamp: parseTimestamp(timestamp), open: Number(open), high: Number(high), low: Number(low), close: Number(close), volume: Number(volume) };
+    }
+    return {
+      timestamp: parseTimestamp(row.timestamp ?? row.time),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume ?? 0),
+    };
+  });
+}
+
+// Load and normalize a historical OHLCV file (.csv or .json)
+export function loadCandlesFromFile(filePath: string, timeframe: Timeframe): Candle[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let candles: Candle[];
+  if (extension === '.csv') {
+    candles = parseCandlesCsv(content);
+  } else if (extension === '.json') {
+    candles = parseCandlesJson(content);
+  } else {
+    throw new Error(`Unsupported candle file format: ${extension || filePath}`);
+  }
+
+  return normalizeCandles(candles, timeframe);
+}
@@ -0,0 +1,94 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import { Candle } from '../market/candles';
+import { MIN_CANDLES } from '../market/indicators';
+import { TechnicalIndicators, TradingSignal, TradingTools } from '../tools/trading-tools';
+import { runBacktest } from './engine';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Rising hourly candles whose open and close differ, so a fill at the wrong bar shows in the price
+function candles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: START + i * HOUR,
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100.5 + i,
+    volume: 1000,
+  }));
+}
+
+const HOLD: TradingSignal = { action: 'hold', confidence: 0, reason: 'wait' };
+
+describe('runBacktest', () => {
+  let seen: number[];
+
+  beforeEach(() => {
+    seen = [];
+    // Buy on the first bar with enough history and sell five bars later
+    jest.spyOn(TradingTools.prototype, 'generateSignal').mockImplementation((indicators: TechnicalIndicators) => {
+      const bar = indicators.price - 100.5;
+      seen.push(bar);
+      if (bar === MIN_CANDLES - 1) return { action: 'buy', confidence: 0.9, reason: 'scripted buy' };
+      if (bar === MIN_CANDLES + 4) return { action: 'sell', confidence: 0.9, reason: 'scripted sell' };
+      return HOLD;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills signals at the next open after fees and slippage', () => {
+    const series = candles(60);
+
+    const result = runBacktest(series, { symbol: 'ETH/USDC', timeframe: '1h', initialBalance: 10_000, feePercent: 1, slippagePercent: 2 });
+
+    // Each signal only sees candles up to the bar it is computed on
+    expect(seen).toEqual(Array.from({ length: 60 - MIN_CANDLES }, (_, i) => MIN_CANDLES - 1 + i));
+    expect(result.trades).toHaveLength(1);
+
+    const [trade] = result.trades;
+    const entryBar = series[MIN_CANDLES];
+    const exitBar = series[MIN_CANDLES + 5];
+    expect(trade.entryTime).toEqual(new Date(entryBar.timestamp));
+    expect(trade.exitTime).toEqual(new Date(exitBar.timestamp));
+    expect(trade.entryPrice).toBeCloseTo(entryBar.open * 1.02, 10);
+    expect(trade.exitPrice).toBeCloseTo(exitBar.open * 0.98, 10);
+
+    const notional = trade.quantity * trade.entryPrice;
+    const proceeds = trade.quantity * trade.exitPrice;
+    expect(trade.fees).toBeCloseTo(notional * 0.01 + proceeds * 0.01, 10);
+    expect(trade.profit).toBeCloseTo(proceeds * 0.99 - notional * 1.01, 10);
+    expect(result.finalEquity).toBeCloseTo(10_000 + trade.profit, 10);
+    expect(result.totalReturn).toBeCloseTo((trade.profit / 10_000) * 100, 10);
+    expect(result.equityCurve).toHaveLength(60);
+  });
+
+  it('marks an open position to the last close at the end', () => {
+    const series = candles(MIN_CANDLES + 3);
+
+    const result = runBacktest(series, { symbol: 'ETH/USDC', timeframe: '1h', feePercent: 0, slippagePercent: 0 });
+
+    const [trade] = result.trades;
+    const last = series[series.length - 1];
+    expect(trade).toMatchObject({ exitReason: 'End of backtest', exitPrice: last.close, fees: 0 });
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBeCloseTo(result.finalEquity, 10);
+    expect(result.finalEquity).toBeCloseTo(10_000 + trade.profit, 10);
+  });
+
+  it('never signals on the last bar, which has no next open to fill at', () => {
+    runBacktest(candles(MIN_CANDLES), { symbol: 'ETH/USDC', timeframe: '1h' });
+
+    expect(seen).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { config } from '../config';
+import { Candle, Timeframe, periodsPerYear } from '../market/candles';
+import { MIN_CANDLES, computeIndicators } from '../market/indicators';
+import { strategyRegistry } from '../strategies/strategy-registry';
+import { TradingSignal, TradingTools } from '../tools/trading-tools';
+import { decideTrade } from '../workflows/trade-decision';
+import { maxDrawdown, periodReturns, sharpeRatio, sortinoRatio, winRate } from './metrics';
+
+export interface BacktestOptions {
+  symbol: string;
+  timeframe: Timeframe;
+  initialBalance?: number;
+  feePercent?: number; // Fee charged on each fill's notional, in percent
+  slippagePercent?: number; // Adverse price move applied to each fill, in percent
+  lookback?: number; // Candles fed to the indicator engine on each bar
+  strategy?: string; // Pin one strategy instead of selecting by volatility regime on each bar
+}
+
+export interface BacktestTrade {
+  entryTime: Date;
+  exitTime: Date;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  profit: number;
+  returnPercentage: number;
+  entryReason: string;
+  exitReason: string;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  timeframe: Timeframe;
+  initialBalance: number;
+  finalEquity: number;
+  totalReturn: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  winRate: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+}
+
+interface OpenPosition {
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  cost: number; // Cash spent including the entry fee
+  entryFee: number;
+  entryReason: string;
+}
+
+// Replay candles bar by bar through the indicator engine, generateSignal and the workflow's sizing rules.
+// Signals are computed on a bar's close and filled at the next bar's open, so there is no lookahead.
+export function runBacktest(candles: Candle[], options: BacktestOptions): BacktestResult {
+  const initialBalance = options.initialBalance ?? 10000;
+  const feeRate = (options.feePercent ?? 0.3) / 100;
+  const slippageRate = (options.slippagePercent ?? config.trading.maxSlippage) / 100;
+  const lookback = Math.max(options.lookback ?? 300, MIN_CANDLES);
+  const tools = new TradingTools();
+  const strategy = options.strategy ? strategyRegistry.get(options.strategy) : undefined;
+
+  let cash = initialBalance;
+  let position: OpenPosition | null = null;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const closePosition = (open: OpenPosition, candle: Candle, price: number, reason: string) => {
+    const fillPrice = price * (1 - slippageRate);
+    const proceeds = open.quantity * fillPrice;
+    const fee = proceeds * feeRate;
+    const profit = proceeds - fee - open.cost;
+    cash += proceeds - fee;
+    trades.push({
+      entryTime: new Date(open.entryTime),
+      exitTime: new Date(candle.timestamp),
+      entryPrice: open.entryPrice,
+      exitPrice: fillPrice,
+      quantity: open.quantity,
+      fees: open.entryFee + fee,
+      profit,
+      returnPercentage: (profit / open.cost) * 100,
+      entryReason: open.entryReason,
+      exitReason: reason,
+    });
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    const next = candles[i + 1];
+
+    if (next && i + 1 >= MIN_CANDLES) {
+      const window = candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+      const signal: TradingSignal = tools.generateSignal(computeIndicators(window, options.timeframe), strategy);
+      const equity = cash + (position ? position.quantity * candle.close : 0);
+      const decision = decideTrade(options.symbol, signal, equity);
+
+      if (decision.execute && decision.action === 'buy' && !position) {
+        const notional = Math.min(decision.positionSize || 0, cash / (1 + feeRate));
+        if (notional > 0) {
+          const fillPrice = next.open * (1 + slippageRate);
+          const fee = notional * feeRate;
+          cash -= notional + fee;
+          position = {
+            entryTime: next.timestamp,
+            entryPrice: fillPrice,
+            quantity: notional / fillPrice,
+            cost: notional + fee,
+            entryFee: fee,
+            entryReason: decision.reason,
+          };
+        }
+      } else if (decision.execute && decision.action === 'sell' && position) {
+        closePosition(position, next, next.open, decision.reason);
+        position = null;
+      }
+    }
+
+    equityCurve.push({
+      timestamp: new Date(candle.timestamp),
+      equity: cash + (position ? position.quantity * candle.close : 0),
+    });
+  }
+
+  // Mark any open position to market at the final close
+  if (position && candles.length > 0) {
+    const last = candles[candles.length - 1];
+    closePosition(position, last, last.close, 'End of backtest');
+    equityCurve[equityCurve.length - 1].equity = cash;
+  }
+
+  const equityValues = equityCurve.map(point => point.equity);
+  const returns = periodReturns(equityValues);
+  const finalEquity = equityValues[equityValues.length - 1] ?? initialBalance;
+
+  return {
+    symbol: options.symbol,
+    timeframe: options.timeframe,
+    initialBalance,
+    finalEquity,
+    totalReturn: (finalEquity / initialBalance - 1) * 100,
+    trades,
+    equityCurve,
+    winRate: winRate(trades.map(trade => trade.profit)) * 100,
+    maxDrawdown: maxDrawdown(equityValues).maxDrawdown * 100,
+    sharpeRatio: sharpeRatio(returns, periodsPerYear(options.timeframe)),
+    sortinoRatio: sortinoRatio(returns, periodsPerYear(options.timeframe)),
+  };
+}
@@ -0,0 +1,36 @@
+import { maxDrawdown, periodReturns, sharpeRatio, sortinoRatio, winRate } from './metrics';
+
+describe('backtest metrics', () => {
+  it('turns an equity series into period returns', () => {
+    const returns = periodReturns([100, 110, 99]);
+
+    expect(returns[0]).toBeCloseTo(0.1, 12);
+    expect(returns[1]).toBeCloseTo(-0.1, 12);
+    expect(periodReturns([100])).toEqual([]);
+  });
+
+  it('measures the deepest fall from a running peak', () => {
+    expect(maxDrawdown([100, 120, 90, 110, 60, 130])).toEqual({ maxDrawdown: 0.5, peakIndex: 1, troughIndex: 4 });
+    expect(maxDrawdown([100, 110, 120])).toEqual({ maxDrawdown: 0, peakIndex: 0, troughIndex: 0 });
+    expect(maxDrawdown([])).toEqual({ maxDrawdown: 0, peakIndex: 0, troughIndex: 0 });
+  });
+
+  it('annualizes the Sharpe ratio with the sample deviation', () => {
+    // Mean 0.5%, sample deviation sqrt(0.0005 / 3), four periods a year
+    expect(sharpeRatio([0.01, -0.01, 0.02, 0], 4)).toBeCloseTo((0.005 / Math.sqrt(0.0005 / 3)) * 2, 12);
+    expect(sharpeRatio([0.01, 0.01, 0.01], 4)).toBe(0);
+    expect(sharpeRatio([0.01], 4)).toBe(0);
+  });
+
+  it('annualizes the Sortino ratio against losses only', () => {
+    // Downside deviation sqrt(0.01^2 / 4) = 0.005 matches the mean
+    expect(sortinoRatio([0.01, -0.01, 0.02, 0], 4)).toBeCloseTo(2, 12);
+    expect(sortinoRatio([0.01, 0.02], 4)).toBe(0);
+    expect(sortinoRatio([], 4)).toBe(0);
+  });
+
+  it('counts the share of profitable trades', () => {
+    expect(winRate([10, -5, 0, 3])).toBe(0.5);
+    expect(winRate([])).toBe(0);
+  });
+});
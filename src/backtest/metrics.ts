@@ -0,0 +1,60 @@
+export interface DrawdownStats {
+  maxDrawdown: number; // Fraction of the running peak, e.g. 0.2 for -20%
+  peakIndex: number;
+  troughIndex: number;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Period-over-period simple returns of an equity series
+export function periodReturns(equity: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    returns.push(equity[i - 1] !== 0 ? equity[i] / equity[i - 1] - 1 : 0);
+  }
+  return returns;
+}
+
+export function maxDrawdown(equity: number[]): DrawdownStats {
+  let peak = equity[0] ?? 0;
+  let peakIndex = 0;
+  let stats: DrawdownStats = { maxDrawdown: 0, peakIndex: 0, troughIndex: 0 };
+
+  equity.forEach((value, index) => {
+    if (value > peak) {
+      peak = value;
+      peakIndex = index;
+    }
+    const drawdown = peak > 0 ? (peak - value) / peak : 0;
+    if (drawdown > stats.maxDrawdown) {
+      stats = { maxDrawdown: drawdown, peakIndex, troughIndex: index };
+    }
+  });
+
+  return stats;
+}
+
+// Annualized Sharpe ratio with a zero risk-free rate
+export function sharpeRatio(returns: number[], periodsPerYear: number): number {
+  const deviation = sampleStdDev(returns);
+  return deviation > 0 ? (mean(returns) / deviation) * Math.sqrt(periodsPerYear) : 0;
+}
+
+// Annualized Sortino ratio, using downside deviation against a zero target
+export function sortinoRatio(returns: number[], periodsPerYear: number): number {
+  if (returns.length === 0) return 0;
+  const downside = Math.sqrt(returns.reduce((sum, value) => sum + Math.min(value, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? (mean(returns) / downside) * Math.sqrt(periodsPerYear) : 0;
+}
+
+export function winRate(profits: number[]): number {
+  return profits.length > 0 ? profits.filter(profit => profit > 0).length / profits.length : 0;
+}
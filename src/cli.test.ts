@@ -0,0 +1,81 @@
+// The installed @mastra/core predates Tool and Workflow; stand-ins keep each tool's execute callable
+jest.mock('@mastra/core', () => {
+  class Stub {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  }
+  return { Tool: Stub, Step: Stub, Workflow: Stub };
+});
+
+import { auditLog } from './audit/audit-log';
+import { parseCommandLine, runCommand } from './cli';
+import { tradingMemory } from './memory/trading-memory';
+import { tokenRegistry } from './tokens/token-registry';
+import { recallTools } from './tools/recall-tools';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+describe('parseCommandLine', () => {
+  it('separates positionals from options', () => {
+    expect(parseCommandLine(['ETH/USDC', '--limit', '5', '100', '--json'])).toEqual({
+      positionals: ['ETH/USDC', '100'],
+      options: { limit: '5', json: true },
+    });
+  });
+
+  it('never lets a boolean flag take a value', () => {
+    expect(parseCommandLine(['--dry-run', 'ETH/USDC'])).toEqual({ positionals: ['ETH/USDC'], options: { 'dry-run': true } });
+  });
+
+  it('marks an option without a value as set', () => {
+    expect(parseCommandLine(['--side', '--timeframe'])).toEqual({ positionals: [], options: { side: true, timeframe: true } });
+  });
+});
+
+describe('runCommand', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('quotes a buy in the quote asset and a sell in the base asset', async () => {
+    const quote = jest
+      .spyOn(recallTools.getTradeQuote, 'execute')
+      .mockImplementation(async ({ amountIn }: any) => ({ amountIn, amountOut: '1', exchangeRate: 1, priceImpact: 0 }));
+
+    const buy = await runCommand('quote', parseCommandLine(['ETH/USDC', '3000']));
+    const sell = await runCommand('quote', parseCommandLine(['ETH/USDC', '1', '--side', 'sell']));
+
+    expect(quote.mock.calls).toEqual([
+      [{ tokenIn: USDC.address, tokenOut: WETH.address, amountIn: '3000' }],
+      [{ tokenIn: WETH.address, tokenOut: USDC.address, amountIn: '1' }],
+    ]);
+    expect(buy).toMatchObject({ symbol: 'ETH/USDC', side: 'buy', tokenIn: 'USDC', tokenOut: 'WETH', amountIn: '3000' });
+    expect(sell).toMatchObject({ side: 'sell', tokenIn: 'WETH', tokenOut: 'USDC' });
+  });
+
+  it('reads history for the pair with the requested limit', async () => {
+    const history = jest.spyOn(tradingMemory, 'getTradingHistory').mockResolvedValue([]);
+
+    await expect(runCommand('history', parseCommandLine(['ETH/USDC', '--limit', '5']))).resolves.toEqual([]);
+    expect(history).toHaveBeenCalledWith('ETH/USDC', 5);
+  });
+
+  it('fails an audit lookup with no entries', async () => {
+    jest.spyOn(auditLog, 'read').mockReturnValue([]);
+
+    await expect(runCommand('audit', parseCommandLine(['missing-id']))).rejects.toThrow('No audit entries for missing-id');
+  });
+
+  it.each([
+    ['analyze', [], 'Missing <pair>'],
+    ['quote', ['ETH/USDC'], 'Missing <amount>'],
+    ['quote', ['ETH/USDC', '-1'], '<amount> must be a positive number'],
+    ['quote', ['ETH/USDC', '1', '--side', 'short'], '--side must be buy or sell'],
+    ['quote', ['ETH/USDC', '1', '--side'], '--side needs a value'],
+    ['history', ['ETH/USDC', '--limit', '2.5'], '--limit must be a positive integer'],
+    ['stats', ['--window', '90d'], '--window must be 1d, 7d, 30d or all'],
+    ['launch', [], 'Unknown command: launch'],
+  ])('rejects %s %j before doing any work', async (command, args, message) => {
+    await expect(runCommand(command, parseCommandLine(args))).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,281 @@
+import { trailingWindows } from './analytics/performance';
+import { ReportFormat, formatReport } from './analytics/report';
+import { loadCandlesFromFile } from './backtest/data-loader';
+import { runBacktestCli } from './backtest/cli';
+import { candleStore, parseTimeframe } from './market/candles';
+import { tradingMemory } from './memory/trading-memory';
+import { tokenRegistry } from './tokens/token-registry';
+import { recallTools } from './tools/recall-tools';
+import { tradingTools } from './tools/trading-tools';
+import { runTradingWorkflow } from './workflows/trading-workflow';
+import { auditLog } from './audit/audit-log';
+import { listCycles, replayCycle } from './audit/replay';
+import { logToStderr } from './logging/logger';
+
+const USAGE = `Usage: npm run cli -- <command> [arguments] [options]
+
+Commands:
+  analyze <pair>           Run analyzeMarket once and print the signal
+  quote <pair> <amount>    Quote a swap; amount is what you pay (quote asset for --side buy, base asset for --side sell)
+  trade <pair>             Run the trading workflow once
+  history <pair>           Recent trading decisions from memory
+  stats [pair]             Performance report
+  audit [correlationId]    Verify the audit log's hash chain and list recent cycles, or print one cycle's entries
+  replay <correlationId>   Re-run a recorded cycle against its recorded tool outputs and compare the outcome
+  run                      Start the trading agent loop
+  backtest [options]       Run a backtest (npm run cli -- backtest --help)
+
+Options:
+  --json                   Print the result as JSON
+  --timeframe <tf>         Candle timeframe for analyze and trade (default: 1h)
+  --data <file>            Seed the candle history from a CSV or JSON file and save it to CANDLE_FILE (analyze, trade)
+  --strategy <name>        Strategy for analyze (default: selected by volatility and RISK_TOLERANCE)
+  --side <buy|sell>        Swap direction for quote (default: buy)
+  --dry-run                Stop trade after the decision, without executing
+  --limit <n>              Entries for history and cycles for audit (default: 10)
+  --live-model             Ask the configured models again in replay instead of using the recorded responses
+  --window <1d|7d|30d|all> Window for stats (default: all)
+  --format <fmt>           Text format for stats: markdown or csv (default: markdown)`;
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(['json', 'dry-run', 'help', 'live-model']);
+
+export interface CommandLine {
+  positionals: string[];
+  options: Record<string, string | boolean>;
+}
+
+export function parseCommandLine(argv: string[]): CommandLine {
+  const positionals: string[] = [];
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const key = arg.slice(2);
+    const value = argv[i + 1];
+    if (BOOLEAN_FLAGS.has(key) || value === undefined || value.startsWith('--')) {
+      options[key] = true;
+    } else {
+      options[key] = value;
+      i++;
+    }
+  }
+  return { positionals, options };
+}
+
+function stringOption(options: CommandLine['options'], name: string): string | undefined {
+  const value = options[name];
+  if (value === true) throw new Error(`--${name} needs a value`);
+  return value || undefined;
+}
+
+function requirePositional(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (!value) throw new Error(`Missing <${name}>`);
+  return value;
+}
+
+// Load a candle file into the store so the indicator engine has history to work with
+function seedCandles(symbol: string, options: CommandLine['options']): string {
+  const timeframe = stringOption(options, 'timeframe') || '1h';
+  const file = stringOption(options, 'data');
+  if (file) {
+    candleStore.ingest(symbol, parseTimeframe(timeframe), loadCandlesFromFile(file, parseTimeframe(timeframe)));
+  }
+  return timeframe;
+}
+
+// Portfolio value the stats report starts its equity curve from; without it the report
+// falls back to its default starting equity
+async function portfolioEquity(): Promise<number | undefined> {
+  try {
+    const portfolio = await recallTools.getPortfolioBalance.execute({});
+    return portfolio.totalBalance;
+  } catch (error) {
+    process.stderr.write(`Portfolio unavailable, using the default starting equity: ${error instanceof Error ? error.message : error}\n`);
+    return undefined;
+  }
+}
+
+// Run one command and return its result; text output is produced by formatText
+export async function runCommand(command: string, { positionals, options }: CommandLine): Promise<unknown> {
+  switch (command) {
+    case 'analyze': {
+      const symbol = requirePositional(positionals, 0, 'pair');
+      const timeframe = seedCandles(symbol, options);
+      const signal = await tradingTools.analyzeMarket.execute({ symbol, timeframe, strategy: stringOption(options, 'strategy') });
+      return { symbol, timeframe, signal };
+    }
+
+    case 'quote': {
+      const symbol = requirePositional(positionals, 0, 'pair');
+      const amount = requirePositional(positionals, 1, 'amount');
+      if (!(Number(amount) > 0)) throw new Error('<amount> must be a positive number');
+      const side = stringOption(options, 'side') || 'buy';
+      if (side !== 'buy' && side !== 'sell') throw new Error('--side must be buy or sell');
+
+      const { base, quote } = tokenRegistry.resolvePair(symbol);
+      const [tokenIn, tokenOut] = side === 'buy' ? [quote, base] : [base, quote];
+      const result = await recallTools.getTradeQuote.execute({ tokenIn: tokenIn.address, tokenOut: tokenOut.address, amountIn: amount });
+      return { symbol, side, tokenIn: tokenIn.symbol, tokenOut: tokenOut.symbol, ...result };
+    }
+
+    case 'trade': {
+      const symbol = requirePositional(positionals, 0, 'pair');
+      const timeframe = seedCandles(symbol, options);
+      return runTradingWorkflow(symbol, { timeframe, dryRun: options['dry-run'] === true });
+    }
+
+    case 'history': {
+      const symbol = requirePositional(positionals, 0, 'pair');
+      const limit = Number(stringOption(options, 'limit') || 10);
+      if (!Number.isInteger(limit) || limit <= 0) throw new Error('--limit must be a positive integer');
+      return tradingMemory.getTradingHistory(symbol, limit);
+    }
+
+    case 'stats': {
+      const label = stringOption(options, 'window') || 'all';
+      const window = label === 'all' ? undefined : trailingWindows().find(item => item.label === label);
+      if (label !== 'all' && !window) throw new Error('--window must be 1d, 7d, 30d or all');
+      return tradingMemory.getPerformanceAnalytics(positionals[0], { window, currentEquity: await portfolioEquity() });
+    }
+
+    case 'audit': {
+      if (positionals[0]) {
+        const entries = auditLog.read(positionals[0]);
+        if (entries.length === 0) throw new Error(`No audit entries for ${positionals[0]}`);
+        return { correlationId: positionals[0], entries };
+      }
+      const limit = Number(stringOption(options, 'limit') || 10);
+      if (!Number.isInteger(limit) || limit <= 0) throw new Error('--limit must be a positive integer');
+      return { verification: auditLog.verify(), cycles: listCycles().slice(-limit) };
+    }
+
+    case 'replay': {
+      const correlationId = requirePositional(positionals, 0, 'correlationId');
+      return replayCycle(correlationId, { liveModel: options['live-model'] === true });
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+function formatText(command: string, result: any, options: CommandLine['options']): string {
+  switch (command) {
+    case 'analyze':
+      return [
+        `${result.symbol} (${result.timeframe}) via ${result.signal.strategy}: ${result.signal.action.toUpperCase()} confidence ${result.signal.confidence}`,
+        `  ${result.signal.reason}`,
+        ...(result.signal.targetPrice ? [`  Target ${result.signal.targetPrice.toFixed(4)}, stop ${result.signal.stopLoss.toFixed(4)}`] : []),
+      ].join('\n');
+    case 'quote':
+      return `${result.amountIn} ${result.tokenIn} -> ${result.amountOut} ${result.tokenOut} (rate ${result.exchangeRate}, impact ${result.priceImpact}%)`;
+    case 'trade': {
+      const decision = result.decision;
+      const lines = [`${result.symbol}: ${decision.execute ? `${decision.action.toUpperCase()}` : 'no trade'} - ${decision.reason}`];
+      if (result.dryRun) lines.push('  Dry run, nothing executed');
+      if (result.execution) {
+        lines.push(
+          result.execution.executed
+            ? `  Executed at ${result.execution.price} (tx ${result.execution.txHash})`
+            : `  Not executed: ${result.execution.reason || result.execution.error}`
+        );
+      }
+      const algorithm = result.execution?.algorithm;
+      if (algorithm) {
+        lines.push(
+          `  ${algorithm.algorithm}: ${algorithm.fills.length} children, ${algorithm.slippagePercent?.toFixed(3) ?? '-'}% slippage vs arrival ${algorithm.arrivalPrice}` +
+            (algorithm.completed ? '' : `, stopped: ${algorithm.abortReason}`)
+        );
+      }
+      return lines.join('\n');
+    }
+    case 'history':
+      if (result.length === 0) return 'No trading decisions recorded';
+      return result
+        .map((entry: any) => {
+          const outcome = entry.result?.executed ? `executed @ ${entry.result.price}` : 'not executed';
+          const profit = entry.result?.profit !== undefined ? `, profit ${entry.result.profit.toFixed(2)}` : '';
+          return `${entry.timestamp.toISOString()} ${entry.action.toUpperCase()} ${entry.symbol} ${outcome}${profit}`;
+        })
+        .join('\n');
+    case 'audit': {
+      if (result.entries) {
+        return result.entries
+          .map((entry: any) => `${entry.seq} ${entry.timestamp} ${entry.type} ${JSON.stringify(entry.data)}`)
+          .join('\n');
+      }
+      const { verification } = result;
+      const lines = [
+        verification.valid
+          ? `Audit log intact: ${verification.entries} entries`
+          : `Audit log broken at entry ${verification.brokenAt} of ${verification.entries}: ${verification.reason}`,
+      ];
+      for (const cycle of result.cycles) {
+        lines.push(`  ${cycle.startedAt} ${cycle.correlationId} ${cycle.symbol}, ${cycle.entries} entries${cycle.error ? `, failed: ${cycle.error}` : ''}`);
+      }
+      return lines.join('\n');
+    }
+    case 'replay': {
+      const lines = [
+        `${result.correlationId} (${result.symbol} ${result.timeframe}) ${result.matches ? 'replayed identically' : 'replayed with differences'}` +
+          (result.liveModel ? ' using the live model' : ''),
+        ...result.differences.map((difference: string) => `  ${difference}`),
+      ];
+      if (result.promptDifferences.length > 0) {
+        lines.push(`  ${result.promptDifferences.length} prompt(s) differ from the recording (memory or candle context changed)`);
+      }
+      return lines.join('\n');
+    }
+    case 'stats':
+      return formatReport(result, ((stringOption(options, 'format') || 'markdown') as ReportFormat));
+    default:
+      return JSON.stringify(result, null, 2);
+  }
+}
+
+export async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  if (command === 'backtest') {
+    runBacktestCli(rest);
+    return;
+  }
+  if (command === 'run') {
+    const { startSlothfulTrader } = await import('./index');
+    await startSlothfulTrader();
+    return;
+  }
+
+  const commandLine = parseCommandLine(rest);
+  if (!command || command === 'help' || command === '--help' || commandLine.options.help) {
+    process.stdout.write(USAGE + '\n');
+    return;
+  }
+
+  // Keep stdout for the command's result
+  logToStderr();
+
+  try {
+    const result = await runCommand(command, commandLine);
+    const output = commandLine.options.json ? JSON.stringify(result, null, 2) : formatText(command, result, commandLine.options);
+    process.stdout.write(output.endsWith('\n') ? output : output + '\n');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (commandLine.options.json) {
+      process.stdout.write(JSON.stringify({ error: message }) + '\n');
+    } else {
+      process.stderr.write(`${command} failed: ${message}\n`);
+    }
+    process.exitCode = 1;
+  } finally {
+    candleStore.flush();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
@@ -8,47 +8,210 @@ export const config = {
     networkUrl: process.env.RECALL_NETWORK_URL || 'https://api.sandbox.competitions.recall.network',
   },
   wallet: {
+    // Signing key: set one of PRIVATE_KEY, WALLET_KEYSTORE_FILE or WALLET_MNEMONIC
     privateKey: process.env.PRIVATE_KEY || '',
+    keystoreFile: process.env.WALLET_KEYSTORE_FILE || '',
+    keystorePassword: process.env.WALLET_KEYSTORE_PASSWORD || '',
+    mnemonic: process.env.WALLET_MNEMONIC || '',
+    derivationPath: process.env.WALLET_DERIVATION_PATH || "m/44'/60'/0'/0/0",
+    // Startup fails if the key does not belong to this address
     address: process.env.WALLET_ADDRESS || '',
+    // EIP-1559 fee caps for transactions the wallet sends
+    maxFeePerGasGwei: parseFloat(process.env.MAX_FEE_PER_GAS_GWEI || '100'),
+    maxPriorityFeePerGasGwei: parseFloat(process.env.MAX_PRIORITY_FEE_PER_GAS_GWEI || '2'),
   },
   trading: {
     maxSlippage: parseFloat(process.env.MAX_SLIPPAGE || '0.5'),
     gasLimit: parseInt(process.env.GAS_LIMIT || '300000'),
         minProfitThreshold: parseFloat(process.env.MIN_PROFIT_THRESHOLD || '0.02'),
+    // 'live' trades through the Recall API, 'paper' fills against an in-process simulated exchange
+    mode: (process.env.TRADING_MODE === 'paper' ? 'paper' : 'live') as 'live' | 'paper',
+    // Chain used for pairs and tokens that don't name one with an @chain suffix
+    chain: process.env.TRADING_CHAIN || 'ethereum',
+    pairs: (process.env.TRADING_PAIRS || 'ETH/USDC,BTC/USDC,LINK/USDC')
+      .split(',')
+      .map(pair => pair.trim())
+      .filter(pair => pair.length > 0),
   },
-  mastra: {
-    apiKey: process.env.MASTRA_API_KEY || '',
+  orders: {
+    // JSON-RPC endpoint used to follow live trades on chain; empty trusts the venue's fill report
+    rpcUrl: process.env.RPC_URL || '',
+    confirmations: parseInt(process.env.ORDER_CONFIRMATIONS || '1'),
+    pollIntervalMs: parseInt(process.env.ORDER_POLL_INTERVAL_MS || '3000'),
+    // Orders whose transaction is not mined within this time are marked dropped
+    timeoutMs: parseInt(process.env.ORDER_TIMEOUT_MS || '300000'),
+  },
+  execution: {
+    // How large orders are worked: market (one swap), twap, iceberg or split
+    algorithm: process.env.EXECUTION_ALGORITHM || 'market',
+    // Orders below this USD notional always go out as one swap
+    minNotionalUsd: parseFloat(process.env.EXECUTION_MIN_NOTIONAL_USD || '0'),
+    twapSlices: parseInt(process.env.TWAP_SLICES || '6'),
+    twapDurationMs: parseInt(process.env.TWAP_DURATION_MS || '600000'),
+    icebergTargetImpactPercent: parseFloat(process.env.ICEBERG_TARGET_IMPACT_PERCENT || '0.5'),
+    icebergIntervalMs: parseInt(process.env.ICEBERG_INTERVAL_MS || '10000'),
+    icebergMaxChildren: parseInt(process.env.ICEBERG_MAX_CHILDREN || '20'),
+    // Intermediate tokens split routing may go through besides the direct swap
+    splitVia: (process.env.SPLIT_ROUTE_VIA || 'USDT')
+      .split(',')
+      .map(symbol => symbol.trim())
+      .filter(symbol => symbol.length > 0),
+    splitParts: parseInt(process.env.SPLIT_ROUTE_PARTS || '4'),
+  },
+  oracle: {
+    // Price sources combined into one median price: recall, dex and chainlink
+    sources: (process.env.ORACLE_SOURCES || 'recall,dex')
+      .split(',')
+      .map(source => source.trim())
+      .filter(source => source.length > 0),
+    maxAgeMs: parseInt(process.env.ORACLE_MAX_AGE_MS || '120000'),
+    // Trades are refused when fresh sources are further than this from their median
+    maxDeviationPercent: parseFloat(process.env.ORACLE_MAX_DEVIATION_PERCENT || '1'),
+    minSources: parseInt(process.env.ORACLE_MIN_SOURCES || '1'),
+    cacheTtlMs: parseInt(process.env.ORACLE_CACHE_TTL_MS || '5000'),
+    // DEX prices are read from a quote of this many reference tokens
+    referenceToken: process.env.ORACLE_REFERENCE_TOKEN || 'USDC',
+    referenceAmount: parseFloat(process.env.ORACLE_REFERENCE_AMOUNT || '1000'),
+    // Comma-separated SYMBOL:feedAddress pairs of USD AggregatorV3 feeds on RPC_URL's chain
+    chainlinkFeeds: process.env.CHAINLINK_FEEDS || '',
+    // Quotes returning this much less than the oracle price implies are not executed
+    maxQuoteDeviationPercent: parseFloat(process.env.MAX_QUOTE_DEVIATION_PERCENT || '2'),
+  },
+  tokens: {
+    // Optional path to a token registry JSON file replacing the bundled src/tokens/tokens.json
+    registryFile: process.env.TOKEN_REGISTRY_FILE || '',
+  },
+  paper: {
+    // Comma-separated SYMBOL:amount pairs, e.g. "USDC:10000,WETH:1"
+    initialBalances: process.env.PAPER_INITIAL_BALANCES || 'USDC:10000',
+    feePercent: parseFloat(process.env.PAPER_FEE_PERCENT || '0.3'),
+    liquidityUsd: parseFloat(process.env.PAPER_LIQUIDITY_USD || '5000000'),
+    stateFile: process.env.PAPER_STATE_FILE || 'paper-exchange.json',
+  },
+  candles: {
+    // Candle series saved to a file and reloaded on startup, so indicators have history across
+    // restarts; empty keeps candles in memory only
+    file: process.env.CANDLE_FILE || 'candles.json',
+    saveDelayMs: parseInt(process.env.CANDLE_SAVE_DELAY_MS || '30000'), // New ticks are written at most this often
+  },
+  ledger: {
+    // Append-only fill log the position ledger is rebuilt from on startup
+    file: process.env.LEDGER_FILE || 'positions.jsonl',
+    costBasis: (process.env.LEDGER_COST_BASIS === 'average' ? 'average' : 'fifo') as 'fifo' | 'average',
+  },
+  memory: {
+    // 'local' keeps memories in a JSONL file and syncs them to Recall; 'recall' uses the Recall API directly
+    backend: (process.env.MEMORY_BACKEND === 'recall' ? 'recall' : 'local') as 'local' | 'recall',
+    file: process.env.MEMORY_FILE || 'memory.jsonl',
+    outboxFile: process.env.MEMORY_OUTBOX_FILE || 'memory-outbox.jsonl',
+    syncToRecall: process.env.MEMORY_SYNC !== 'false' && !!process.env.RECALL_API_KEY,
+    syncIntervalMs: parseInt(process.env.MEMORY_SYNC_INTERVAL_MS || '60000'),
+  },
+  retrieval: {
+    // Past decisions and insights injected into each prompt, bounded by count and characters
+    maxEntries: parseInt(process.env.MEMORY_CONTEXT_ENTRIES || '5'),
+    maxChars: parseInt(process.env.MEMORY_CONTEXT_CHARS || '1500'),
+    // Age at which a memory's recency weight halves
+    halfLifeHours: parseFloat(process.env.MEMORY_HALF_LIFE_HOURS || '72'),
+  },
+  monitor: {
+    intervalMs: parseInt(process.env.POSITION_MONITOR_INTERVAL_MS || '15000'),
+    // Percent drop from the position's high that closes it; 0 disables
+    trailingStopPercent: parseFloat(process.env.TRAILING_STOP_PERCENT || '0'),
+    // Close positions held longer than this many hours; 0 disables
+    maxHoldingHours: parseFloat(process.env.MAX_HOLDING_HOURS || '0'),
+  },
+  scheduler: {
+    // How often the scheduler looks for pairs that are due
+    tickMs: parseInt(process.env.SCHEDULER_TICK_MS || '1000'),
+    // Pairs analyzed at the same time
+    maxConcurrency: parseInt(process.env.SCHEDULER_CONCURRENCY || '1'),
+    // Defaults for every pair; SCHEDULE_FILE can override them per pair
+    intervalMs: parseInt(process.env.ANALYSIS_INTERVAL_MS || '60000'),
+    cooldownMs: parseInt(process.env.TRADE_COOLDOWN_MS || '300000'),
+    timeframe: process.env.ANALYSIS_TIMEFRAME || '1h',
+    // Cron expression (UTC) limiting when pairs are analyzed, e.g. "* 13-21 * * 1-5"; empty means always
+    cron: process.env.TRADING_SCHEDULE || '',
+    file: process.env.SCHEDULE_FILE || '',
+    // Retry delay after a failed analysis, doubling per consecutive failure
+    backoff: {
+      baseMs: parseInt(process.env.SCHEDULER_BACKOFF_BASE_MS || '10000'),
+      maxMs: parseInt(process.env.SCHEDULER_BACKOFF_MAX_MS || '300000'),
+      jitter: 0.5,
+    },
+  },
+  lifecycle: {
+    // Cooldowns, positions and unfinished orders saved on shutdown and restored on start; empty disables
+    checkpointFile: process.env.CHECKPOINT_FILE || 'agent-state.json',
+    // How long shutdown waits for analyses and trades in progress
+    shutdownTimeoutMs: parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000'),
+  },
+  strategies: {
+    // Optional path to a strategy JSON file replacing the bundled src/strategies/strategies.json
+    file: process.env.STRATEGY_FILE || '',
+    // conservative, moderate or aggressive; picks among strategies by volatility regime
+    riskTolerance: process.env.RISK_TOLERANCE || 'moderate',
+  },
+  risk: {
+    // Name of the TradingStrategy whose risk limits apply when an order doesn't name one
+    strategy: process.env.RISK_STRATEGY || 'balanced',
+    // Halts all order flow from startup when set to "true"
+    killSwitch: process.env.KILL_SWITCH === 'true',
+    // Daily and weekly equity peaks for the drawdown breakers, kept across restarts; empty disables
+    stateFile: process.env.RISK_STATE_FILE || 'risk-state.json',
+  },
+  api: {
+    // Port for the control API; 0 leaves it off
+    port: parseInt(process.env.CONTROL_API_PORT || '0'),
+    host: process.env.CONTROL_API_HOST || '127.0.0.1',
+    // Bearer token every request must carry; required when the port is set
+    token: process.env.CONTROL_API_TOKEN || '',
+    readOnly: process.env.CONTROL_API_READ_ONLY === 'true',
+  },
+  llm: {
+    // Ordered provider:model list, each tried when the one before fails or times out.
+    // Providers: openai, anthropic, local (any OpenAI-compatible server) and scripted (canned replies, no network)
+    providers: (process.env.LLM_PROVIDERS || 'openai:gpt-4')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter(provider => provider.length > 0),
+    openaiApiKey: process.env.OPENAI_API_KEY || process.env.MASTRA_API_KEY || '',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || '',
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
+    localBaseUrl: process.env.LOCAL_LLM_URL || 'http://127.0.0.1:11434/v1',
+    localApiKey: process.env.LOCAL_LLM_API_KEY || '',
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000'),
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '1024'),
+    temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.2'),
+    // JSON array of replies the scripted provider plays back in order
+    scriptFile: process.env.LLM_SCRIPT_FILE || '',
+    // Prices in USD per million tokens added to the built-in table, e.g. "gpt-4o=2.5/10,llama3=0/0"
+    pricing: process.env.LLM_PRICING || '',
+  },
+  audit: {
+    // Hash-chained JSONL record of every agent cycle; empty keeps it in memory only
+    file: process.env.AUDIT_LOG_FILE || 'audit.jsonl',
+  },
+  events: {
+    // Notification sinks for agent events: any of stdout, jsonl and webhook
+    sinks: (process.env.EVENT_SINKS || '')
+      .split(',')
+      .map(sink => sink.trim())
+      .filter(sink => sink.length > 0),
+    logFile: process.env.EVENT_LOG_FILE || 'events.jsonl',
+    webhookUrl: process.env.EVENT_WEBHOOK_URL || '',
+    // json, slack, discord or telegram
+    webhookFormat: process.env.EVENT_WEBHOOK_FORMAT || 'json',
+    telegramChatId: process.env.EVENT_TELEGRAM_CHAT_ID || '',
+    // Filter for the EVENT_SINKS sinks: event types (empty means all) and info, warning or error
+    types: (process.env.EVENT_TYPES || '')
+      .split(',')
+      .map(type => type.trim())
+      .filter(type => type.length > 0),
+    minSeverity: process.env.EVENT_MIN_SEVERITY || 'info',
+    // "<events>/<ms>" per sink, e.g. "20/60000"; empty means unlimited
+    rateLimit: process.env.EVENT_RATE_LIMIT || '20/60000',
+    // JSON array of sink definitions, each with its own filter and rate limit
+    file: process.env.EVENT_SINKS_FILE || '',
   },
 };
-
-export interface TradingStrategy {
-  name: string;
-  riskLevel: 'low' | 'medium' | 'high';
-  maxPositionSize: number;
-  stopLoss: number;
-  takeProfit: number;
-}
-
-export const tradingStrategies: TradingStrategy[] = [
-  {
-    name: 'conservative',
-    riskLevel: 'low',
-    maxPositionSize: 0.1,
-    stopLoss: 0.05,
-    takeProfit: 0.1,
-  },
-  {
-    name: 'balanced',
-    riskLevel: 'medium',
-    maxPositionSize: 0.25,
-    stopLoss: 0.1,
-    takeProfit: 0.2,
-  },
-  {
-    name: 'aggressive',
-    riskLevel: 'high',
-    maxPositionSize: 0.5,
-    stopLoss: 0.15,
-    takeProfit: 0.3,
-  },
-];
@@ -0,0 +1,132 @@
+import { TradingSignal } from '../tools/trading-tools';
+
+// Validated trading decision returned by the LLM
+export interface AgentDecision {
+  action: 'buy' | 'sell' | 'hold';
+  confidence: number; // 0 to 1
+  size: number; // Buy: fraction of portfolio value to commit. Sell: fraction of the held position to close.
+  stopLoss: number | null; // Price level
+  takeProfit: number | null; // Price level
+  rationale: string;
+}
+
+export class DecisionValidationError extends Error {
+  constructor(public readonly issues: string[], public readonly response: string) {
+    super(`Invalid trading decision: ${issues.join('; ')}`);
+    this.name = 'DecisionValidationError';
+  }
+}
+
+export const DECISION_FORMAT_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these fields:
+{
+  "action": "buy" | "sell" | "hold",
+  "confidence": number between 0 and 1,
+  "size": number between 0 and 1 (buy: fraction of portfolio value to commit; sell: fraction of the held position to close; 0 for hold),
+  "stopLoss": price as a number, or null,
+  "takeProfit": price as a number, or null,
+  "rationale": short explanation
+}`;
+
+// Pull the JSON object out of a response that may wrap it in prose or a code fence
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new DecisionValidationError(['response does not contain a JSON object'], text);
+  }
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch (error) {
+    throw new DecisionValidationError([`response is not valid JSON (${error})`], text);
+  }
+}
+
+function isPriceOrNull(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+// Parse and validate a model response; throws DecisionValidationError listing every problem found
+export function parseAgentDecision(text: string): AgentDecision {
+  const data = extractJson(text) as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new DecisionValidationError(['response must be a JSON object'], text);
+  }
+
+  const { action, confidence, size, rationale } = data;
+  const stopLoss = data.stopLoss ?? null;
+  const takeProfit = data.takeProfit ?? null;
+
+  if (action !== 'buy' && action !== 'sell' && action !== 'hold') {
+    issues.push('"action" must be "buy", "sell" or "hold"');
+  }
+  if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) {
+    issues.push('"confidence" must be a number between 0 and 1');
+  }
+  if (typeof size !== 'number' || !(size >= 0 && size <= 1)) {
+    issues.push('"size" must be a number between 0 and 1');
+  } else if (action !== 'hold' && size === 0) {
+    issues.push('"size" must be greater than 0 for a buy or sell');
+  }
+  if (!isPriceOrNull(stopLoss)) {
+    issues.push('"stopLoss" must be a positive number or null');
+  }
+  if (!isPriceOrNull(takeProfit)) {
+    issues.push('"takeProfit" must be a positive number or null');
+  }
+  if (action === 'buy' && typeof stopLoss === 'number' && typeof takeProfit === 'number' && stopLoss >= takeProfit) {
+    issues.push('"stopLoss" must be below "takeProfit" for a buy');
+  }
+  if (typeof rationale !== 'string' || rationale.trim().length === 0) {
+    issues.push('"rationale" must be a non-empty string');
+  }
+
+  if (issues.length > 0) {
+    throw new DecisionValidationError(issues, text);
+  }
+
+  return {
+    action: action as AgentDecision['action'],
+    confidence: confidence as number,
+    size: size as number,
+    stopLoss: stopLoss as number | null,
+    takeProfit: takeProfit as number | null,
+    rationale: (rationale as string).trim(),
+  };
+}
+
+// Ask the model for a decision, feeding validation errors back until it answers correctly
+export async function requestAgentDecision(
+  generate: (prompt: string) => Promise<string>,
+  prompt: string,
+  maxAttempts: number = 3
+): Promise<AgentDecision> {
+  let attemptPrompt = `${prompt}\n\n${DECISION_FORMAT_INSTRUCTIONS}`;
+  let lastError: DecisionValidationError | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await generate(attemptPrompt);
+    try {
+      return parseAgentDecision(response);
+    } catch (error) {
+      if (!(error instanceof DecisionValidationError)) throw error;
+      lastError = error;
+      attemptPrompt = `${prompt}\n\nYour previous response was rejected: ${error.issues.join('; ')}.\n\n${DECISION_FORMAT_INSTRUCTIONS}`;
+    }
+  }
+
+  throw lastError!;
+}
+
+export function toTradingSignal(decision: AgentDecision): TradingSignal {
+  return {
+    action: decision.action,
+    confidence: decision.confidence,
+    reason: decision.rationale,
+    targetPrice: decision.takeProfit ?? undefined,
+    stopLoss: decision.stopLoss ?? undefined,
+  };
+}
@@ -0,0 +1,167 @@
+import { FakeClock } from '../scheduler/clock';
+import { EventBus, RateLimiter, SinkDefinition, matchesFilter, parseRateLimit, validateSinkDefinition } from './event-bus';
+import { AnyTradingEvent, TradingEventType } from './events';
+import { EventSink } from './sinks';
+
+const STARTED: AnyTradingEvent = { type: 'agent_started', severity: 'info', timestamp: new Date(0), data: { pairs: ['ETH/USDC'] } };
+const SKIPPED: AnyTradingEvent = { type: 'trade_skipped', severity: 'info', timestamp: new Date(0), data: { symbol: 'ETH/USDC', reason: 'cooldown' } };
+const FAILED: AnyTradingEvent = { type: 'order_failed', severity: 'error', timestamp: new Date(0), data: { symbol: 'BTC/USDC', reason: 'reverted' } };
+
+// Keeps every event it is sent; send resolves once release is called when held
+class RecordingSink implements EventSink {
+  events: AnyTradingEvent[] = [];
+  private held?: Promise<void>;
+  release: () => void = () => undefined;
+
+  constructor(readonly name: string = 'recording') {}
+
+  hold(): void {
+    this.held = new Promise(resolve => (this.release = resolve));
+  }
+
+  async send(event: AnyTradingEvent): Promise<void> {
+    await this.held;
+    this.events.push(event);
+  }
+}
+
+describe('matchesFilter', () => {
+  it('matches everything without a filter', () => {
+    expect([STARTED, SKIPPED, FAILED].map(event => matchesFilter(event))).toEqual([true, true, true]);
+  });
+
+  it('filters by type, minimum severity and symbol', () => {
+    expect([STARTED, SKIPPED, FAILED].map(event => matchesFilter(event, { types: ['trade_skipped', 'order_failed'] }))).toEqual([false, true, true]);
+    expect([STARTED, SKIPPED, FAILED].map(event => matchesFilter(event, { minSeverity: 'warning' }))).toEqual([false, false, true]);
+    // Events without a symbol pass a symbol filter
+    expect([STARTED, SKIPPED, FAILED].map(event => matchesFilter(event, { symbols: ['ETH/USDC'] }))).toEqual([true, true, false]);
+    expect(matchesFilter(FAILED, { types: ['order_failed'], minSeverity: 'error', symbols: ['ETH/USDC'] })).toBe(false);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows maxEvents per sliding window', async () => {
+    const clock = new FakeClock(0);
+    const limiter = new RateLimiter({ maxEvents: 2, windowMs: 1000 }, clock);
+
+    expect([limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()]).toEqual([true, true, false]);
+    await clock.advance(999);
+    expect(limiter.tryAcquire()).toBe(false);
+    await clock.advance(1);
+    expect([limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()]).toEqual([true, true, false]);
+  });
+});
+
+describe('EventBus', () => {
+  let clock: FakeClock;
+  let bus: EventBus;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1));
+    bus = new EventBus(clock);
+  });
+
+  it('calls handlers for their own type and catch-all handlers for every type', () => {
+    const seen: string[] = [];
+    const failing = jest.fn(() => {
+      throw new Error('handler failed');
+    });
+    bus.on('trade_skipped', failing);
+    const offSkipped = bus.on('trade_skipped', event => seen.push(`skipped ${event.data.reason}`));
+    bus.onAny(event => seen.push(`any ${event.type}`));
+
+    bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason: 'cooldown' });
+    const event = bus.emit('agent_started', { pairs: [] });
+    offSkipped();
+    bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason: 'paused' });
+
+    expect(seen).toEqual(['skipped cooldown', 'any trade_skipped', 'any agent_started', 'any trade_skipped']);
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect(event).toEqual({ type: 'agent_started', severity: 'info', timestamp: new Date(Date.UTC(2024, 0, 1)), data: { pairs: [] } });
+  });
+
+  it('sends each sink the events its filter matches', async () => {
+    const errors = new RecordingSink('errors');
+    const all = new RecordingSink('all');
+    bus.addSink(errors, { filter: { minSeverity: 'error' } });
+    bus.addSink(all);
+
+    bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason: 'cooldown' });
+    bus.emit('order_failed', { symbol: 'ETH/USDC', reason: 'reverted' });
+    await bus.flush();
+
+    expect(errors.events.map(event => event.type)).toEqual(['order_failed']);
+    expect(all.events.map(event => event.type)).toEqual(['trade_skipped', 'order_failed']);
+    expect(bus.getStats()).toEqual({
+      errors: { delivered: 1, filtered: 1, suppressed: 0, failed: 0 },
+      all: { delivered: 2, filtered: 0, suppressed: 0, failed: 0 },
+    });
+  });
+
+  it('drops events over the rate limit and reports the count with the next delivered one', async () => {
+    const sink = new RecordingSink();
+    bus.addSink(sink, { rateLimit: { maxEvents: 1, windowMs: 60_000 } });
+
+    for (const reason of ['first', 'second', 'third']) bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason });
+    await clock.advance(60_000);
+    bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason: 'fourth' });
+    bus.emit('trade_skipped', { symbol: 'ETH/USDC', reason: 'fifth' });
+    await bus.flush();
+
+    expect(sink.events.map(event => [event.data, event.suppressed])).toEqual([
+      [{ symbol: 'ETH/USDC', reason: 'first' }, undefined],
+      [{ symbol: 'ETH/USDC', reason: 'fourth' }, 2],
+    ]);
+    expect(bus.getStats().recording).toEqual({ delivered: 2, filtered: 0, suppressed: 3, failed: 0 });
+  });
+
+  it('waits for slow sinks on flush and counts failed sends', async () => {
+    const slow = new RecordingSink();
+    const broken: EventSink = { name: 'recording', send: async () => Promise.reject(new Error('HTTP 500')) };
+    bus.addSink(slow);
+    bus.addSink(broken);
+    slow.hold();
+
+    bus.emit('agent_stopped', { pairs: [] });
+    let flushed = false;
+    const flushing = bus.flush().then(() => (flushed = true));
+    await clock.advance(0);
+    expect(flushed).toBe(false);
+
+    slow.release();
+    await flushing;
+    expect(slow.events).toHaveLength(1);
+    expect(bus.getStats()).toEqual({
+      recording: { delivered: 1, filtered: 0, suppressed: 0, failed: 0 },
+      'recording-2': { delivered: 0, filtered: 0, suppressed: 0, failed: 1 },
+    });
+  });
+});
+
+describe('sink configuration', () => {
+  it('parses rate limits', () => {
+    expect(parseRateLimit('')).toBeUndefined();
+    expect(parseRateLimit('20/60000')).toEqual({ maxEvents: 20, windowMs: 60_000 });
+    expect(parseRateLimit('0/1000')).toEqual({ maxEvents: 0, windowMs: 1000 });
+  });
+
+  it.each(['20', '20/0', '-1/1000', '1.5/1000', 'x/1000'])('refuses the rate limit %s', value => {
+    expect(() => parseRateLimit(value)).toThrow(`Invalid event rate limit: ${value}`);
+  });
+
+  it('accepts valid sink definitions', () => {
+    expect(() => validateSinkDefinition({ type: 'stdout' })).not.toThrow();
+    expect(() =>
+      validateSinkDefinition({ type: 'webhook', url: 'https://example.com', format: 'slack', filter: { types: ['order_failed'], minSeverity: 'warning' } })
+    ).not.toThrow();
+  });
+
+  it.each<[SinkDefinition, string]>([
+    [{ type: 'email' as SinkDefinition['type'] }, 'Invalid event sink type: email'],
+    [{ type: 'webhook', format: 'teams' as SinkDefinition['format'] }, 'Invalid webhook format: teams'],
+    [{ type: 'jsonl', filter: { types: ['order_filled', 'order_lost' as TradingEventType] } }, 'Unknown event types in jsonl sink filter: order_lost'],
+    [{ type: 'stdout', filter: { minSeverity: 'fatal' as 'error' } }, 'Invalid minimum severity in stdout sink filter: fatal'],
+  ])('refuses %j', (definition, message) => {
+    expect(() => validateSinkDefinition(definition)).toThrow(message);
+  });
+});
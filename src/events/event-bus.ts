@@ -0,0 +1,262 @@
+import fs from 'fs';
+import { config } from '../config';
+import { Clock, systemClock } from '../scheduler/clock';
+import {
+  AnyTradingEvent,
+  EVENT_SEVERITY,
+  EVENT_TYPES,
+  EventSeverity,
+  TradingEvent,
+  TradingEventMap,
+  TradingEventType,
+  atLeast,
+  isEventType,
+  isSeverity,
+} from './events';
+import { EventSink, JsonlSink, StdoutSink, WebhookFormat, WebhookSink, isWebhookFormat } from './sinks';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('events.log');
+
+// Which events a sink receives; every field left out matches everything
+export interface EventFilter {
+  types?: TradingEventType[];
+  minSeverity?: EventSeverity;
+  symbols?: string[]; // Events without a symbol, like agent_started, always pass
+}
+
+// At most maxEvents per windowMs; events over the limit are dropped and counted
+export interface RateLimit {
+  maxEvents: number;
+  windowMs: number;
+}
+
+export interface SinkOptions {
+  filter?: EventFilter;
+  rateLimit?: RateLimit;
+}
+
+export interface SinkStats {
+  delivered: number;
+  filtered: number;
+  suppressed: number;
+  failed: number;
+}
+
+export function matchesFilter(event: AnyTradingEvent, filter: EventFilter = {}): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.minSeverity && !atLeast(event.severity, filter.minSeverity)) return false;
+  const symbol = (event.data as { symbol?: string }).symbol;
+  if (filter.symbols && symbol !== undefined && !filter.symbols.includes(symbol)) return false;
+  return true;
+}
+
+// Sliding-window limiter
+export class RateLimiter {
+  private sent: number[] = [];
+
+  constructor(private limit: RateLimit, private clock: Clock = systemClock) {}
+
+  tryAcquire(): boolean {
+    const now = this.clock.now();
+    this.sent = this.sent.filter(at => now - at < this.limit.windowMs);
+    if (this.sent.length >= this.limit.maxEvents) return false;
+    this.sent.push(now);
+    return true;
+  }
+}
+
+interface Subscription {
+  sink: EventSink;
+  filter?: EventFilter;
+  limiter?: RateLimiter;
+  suppressed: number; // Dropped since the last delivery, reported on the next one
+  stats: SinkStats;
+}
+
+type EventHandler<K extends TradingEventType> = (event: TradingEvent<K>) => void;
+
+// Handlers registered with on(), one set per event type
+type HandlerSets = { [K in TradingEventType]: Set<EventHandler<K>> };
+
+// Typed publish/subscribe for agent events. Handlers run synchronously when an event is
+// emitted; sinks are sent to in the background so a slow webhook never holds up trading.
+export class EventBus {
+  private handlers = Object.fromEntries(EVENT_TYPES.map(type => [type, new Set()])) as HandlerSets;
+  private anyHandlers = new Set<(event: AnyTradingEvent) => void>();
+  private subscriptions: Subscription[] = [];
+  private deliveries = new Set<Promise<void>>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  // Returns a function that removes the handler
+  on<K extends TradingEventType>(type: K, handler: EventHandler<K>): () => void {
+    const handlers: Set<EventHandler<K>> = this.handlers[type];
+    handlers.add(handler);
+    return () => handlers.delete(handler);
+  }
+
+  onAny(handler: (event: AnyTradingEvent) => void): () => void {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  addSink(sink: EventSink, options: SinkOptions = {}): void {
+    this.subscriptions.push({
+      sink,
+      filter: options.filter,
+      limiter: options.rateLimit && options.rateLimit.maxEvents > 0 ? new RateLimiter(options.rateLimit, this.clock) : undefined,
+      suppressed: 0,
+      stats: { delivered: 0, filtered: 0, suppressed: 0, failed: 0 },
+    });
+  }
+
+  emit<K extends TradingEventType>(type: K, data: TradingEventMap[K]): TradingEvent<K> {
+    const event: TradingEvent<K> = { type, severity: EVENT_SEVERITY[type], timestamp: new Date(this.clock.now()), data };
+
+    const anyEvent = event as unknown as AnyTradingEvent;
+    const handlers: Set<EventHandler<K>> = this.handlers[type];
+    for (const handler of [...handlers]) this.runHandler(type, () => handler(event));
+    for (const handler of [...this.anyHandlers]) this.runHandler(type, () => handler(anyEvent));
+    for (const subscription of this.subscriptions) {
+      this.deliver(subscription, anyEvent);
+    }
+    return event;
+  }
+
+  // Wait for deliveries in progress, e.g. before the process exits
+  async flush(): Promise<void> {
+    while (this.deliveries.size > 0) {
+      await Promise.allSettled([...this.deliveries]);
+    }
+  }
+
+  // Per-sink counters keyed by sink name, numbered when several sinks share one
+  getStats(): Record<string, SinkStats> {
+    const stats: Record<string, SinkStats> = {};
+    for (const { sink, stats: counters } of this.subscriptions) {
+      let key = sink.name;
+      for (let n = 2; key in stats; n++) key = `${sink.name}-${n}`;
+      stats[key] = { ...counters };
+    }
+    return stats;
+  }
+
+  private runHandler(type: TradingEventType, handler: () => void): void {
+    try {
+      handler();
+    } catch (error) {
+      logger.error(`Error in ${type} event handler:`, error);
+    }
+  }
+
+  private deliver(subscription: Subscription, event: AnyTradingEvent): void {
+    if (!matchesFilter(event, subscription.filter)) {
+      subscription.stats.filtered++;
+      return;
+    }
+    if (subscription.limiter && !subscription.limiter.tryAcquire()) {
+      subscription.suppressed++;
+      subscription.stats.suppressed++;
+      return;
+    }
+
+    const suppressed = subscription.suppressed;
+    subscription.suppressed = 0;
+    const delivery = subscription.sink
+      .send(suppressed > 0 ? { ...event, suppressed } : event)
+      .then(() => {
+        subscription.stats.delivered++;
+      })
+      .catch(error => {
+        subscription.stats.failed++;
+        // HTTP errors carry the whole request; the message is enough
+        logger.error(`Error sending ${event.type} event to ${subscription.sink.name}: ${error instanceof Error ? error.message : error}`);
+      })
+      .finally(() => {
+        this.deliveries.delete(delivery);
+      });
+    this.deliveries.add(delivery);
+  }
+}
+
+// One entry of EVENT_SINKS_FILE
+export interface SinkDefinition extends SinkOptions {
+  type: 'stdout' | 'jsonl' | 'webhook';
+  file?: string; // jsonl
+  url?: string; // webhook
+  format?: WebhookFormat; // webhook, default json
+  chatId?: string; // telegram webhooks
+}
+
+// Parse "20/60000" into at most 20 events per minute; empty means unlimited
+export function parseRateLimit(value: string): RateLimit | undefined {
+  if (!value) return undefined;
+  const [maxEvents, windowMs] = value.split('/').map(Number);
+  if (!Number.isInteger(maxEvents) || maxEvents < 0 || !(windowMs > 0)) {
+    throw new Error(`Invalid event rate limit: ${value} (expected <events>/<ms>)`);
+  }
+  return { maxEvents, windowMs };
+}
+
+export function validateSinkDefinition(definition: SinkDefinition): void {
+  if (!['stdout', 'jsonl', 'webhook'].includes(definition.type)) {
+    throw new Error(`Invalid event sink type: ${definition.type}`);
+  }
+  if (definition.format && !isWebhookFormat(definition.format)) {
+    throw new Error(`Invalid webhook format: ${definition.format}`);
+  }
+  const { types, minSeverity } = definition.filter || {};
+  const unknown = (types || []).filter(type => !isEventType(type));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown event types in ${definition.type} sink filter: ${unknown.join(', ')}`);
+  }
+  if (minSeverity && !isSeverity(minSeverity)) {
+    throw new Error(`Invalid minimum severity in ${definition.type} sink filter: ${minSeverity}`);
+  }
+}
+
+// Sinks named in EVENT_SINKS share the EVENT_TYPES/EVENT_MIN_SEVERITY filter and EVENT_RATE_LIMIT;
+// EVENT_SINKS_FILE adds sinks with their own
+export function loadSinkDefinitions(filePath: string = config.events.file): SinkDefinition[] {
+  const filter: EventFilter = {
+    types: config.events.types.length > 0 ? (config.events.types as TradingEventType[]) : undefined,
+    minSeverity: config.events.minSeverity as EventSeverity,
+  };
+  const rateLimit = parseRateLimit(config.events.rateLimit);
+  const definitions: SinkDefinition[] = config.events.sinks.map(type => ({
+    type: type as SinkDefinition['type'],
+    file: config.events.logFile,
+    url: config.events.webhookUrl,
+    format: config.events.webhookFormat as WebhookFormat,
+    chatId: config.events.telegramChatId || undefined,
+    filter,
+    rateLimit,
+  }));
+  if (filePath) {
+    definitions.push(...(JSON.parse(fs.readFileSync(filePath, 'utf8')) as SinkDefinition[]));
+  }
+  definitions.forEach(validateSinkDefinition);
+  return definitions;
+}
+
+export function createSink(definition: SinkDefinition): EventSink {
+  switch (definition.type) {
+    case 'stdout':
+      return new StdoutSink();
+    case 'jsonl':
+      return new JsonlSink(definition.file || config.events.logFile);
+    case 'webhook':
+      return new WebhookSink(definition.url || '', definition.format, { chatId: definition.chatId });
+  }
+}
+
+export function createEventBus(definitions: SinkDefinition[] = loadSinkDefinitions()): EventBus {
+  const bus = new EventBus();
+  for (const definition of definitions) {
+    bus.addSink(createSink(definition), { filter: definition.filter, rateLimit: definition.rateLimit });
+  }
+  return bus;
+}
+
+export const eventBus = createEventBus();
@@ -0,0 +1,129 @@
+// Payload of each event the agent publishes, keyed by event type
+export interface TradingEventMap {
+  agent_started: { pairs: string[] };
+  agent_stopped: { pairs: string[] };
+  signal_generated: {
+    symbol: string;
+    source: string; // "agent" for model decisions, "strategy" for indicator signals
+    action: 'buy' | 'sell' | 'hold';
+    confidence: number;
+    reason: string;
+    strategy?: string;
+  };
+  trade_skipped: { symbol: string; source?: string; reason: string };
+  order_submitted: { symbol: string; action: 'buy' | 'sell'; orderId: string; amountIn: string; txHash: string; source?: string };
+  order_filled: {
+    symbol: string;
+    action: 'buy' | 'sell';
+    amountIn?: string;
+    amountOut?: number;
+    price?: number;
+    txHash?: string;
+    realizedPnl?: number;
+    source?: string;
+  };
+  order_failed: { symbol: string; action?: 'buy' | 'sell'; reason: string; orderId?: string; source?: string };
+  stop_triggered: { symbol: string; reason: string; price: number; message: string; source: string };
+  loop_error: { source: string; symbol?: string; error: string };
+  memory_write_failed: { symbol: string; orderId?: string; error: string };
+}
+
+export type TradingEventType = keyof TradingEventMap;
+
+export type EventSeverity = 'info' | 'warning' | 'error';
+
+export const EVENT_TYPES: TradingEventType[] = [
+  'agent_started',
+  'agent_stopped',
+  'signal_generated',
+  'trade_skipped',
+  'order_submitted',
+  'order_filled',
+  'order_failed',
+  'stop_triggered',
+  'loop_error',
+  'memory_write_failed',
+];
+
+export const EVENT_SEVERITY: Record<TradingEventType, EventSeverity> = {
+  agent_started: 'info',
+  agent_stopped: 'info',
+  signal_generated: 'info',
+  trade_skipped: 'info',
+  order_submitted: 'info',
+  order_filled: 'info',
+  order_failed: 'error',
+  stop_triggered: 'warning',
+  loop_error: 'error',
+  memory_write_failed: 'warning',
+};
+
+const SEVERITY_RANK: Record<EventSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+export function isEventType(value: string): value is TradingEventType {
+  return (EVENT_TYPES as string[]).includes(value);
+}
+
+export function isSeverity(value: string): value is EventSeverity {
+  return value in SEVERITY_RANK;
+}
+
+export function atLeast(severity: EventSeverity, minimum: EventSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minimum];
+}
+
+export interface TradingEvent<K extends TradingEventType = TradingEventType> {
+  type: K;
+  severity: EventSeverity;
+  timestamp: Date;
+  data: TradingEventMap[K];
+  suppressed?: number; // Events a sink's rate limit dropped since it last delivered one
+}
+
+// Any single event, narrowed by its type
+export type AnyTradingEvent = { [K in TradingEventType]: TradingEvent<K> }[TradingEventType];
+
+function side(action?: string): string {
+  return action ? `${action.toUpperCase()} ` : '';
+}
+
+// One-line human-readable summary, used by chat webhooks and stdout
+export function describeEvent(event: AnyTradingEvent): string {
+  let text: string;
+  switch (event.type) {
+    case 'agent_started':
+      text = `SlothfulTrader started, trading ${event.data.pairs.join(', ')}`;
+      break;
+    case 'agent_stopped':
+      text = 'SlothfulTrader stopped';
+      break;
+    case 'signal_generated':
+      text = `${event.data.symbol} ${event.data.action.toUpperCase()} signal from ${event.data.strategy || event.data.source} (confidence ${event.data.confidence.toFixed(2)}): ${event.data.reason}`;
+      break;
+    case 'trade_skipped':
+      text = `${event.data.symbol} trade skipped: ${event.data.reason}`;
+      break;
+    case 'order_submitted':
+      text = `${event.data.symbol} ${side(event.data.action)}order ${event.data.orderId} submitted for ${event.data.amountIn} (tx ${event.data.txHash})`;
+      break;
+    case 'order_filled':
+      text =
+        `${event.data.symbol} ${side(event.data.action)}filled: ${event.data.amountIn} in, ${event.data.amountOut} out at ${event.data.price}` +
+        (event.data.realizedPnl !== undefined ? `, realized PnL ${event.data.realizedPnl.toFixed(2)}` : '') +
+        (event.data.txHash ? ` (tx ${event.data.txHash})` : '');
+      break;
+    case 'order_failed':
+      text = `${event.data.symbol} ${side(event.data.action)}order failed: ${event.data.reason}`;
+      break;
+    case 'stop_triggered':
+      text = `${event.data.symbol} ${event.data.reason} triggered at ${event.data.price}: ${event.data.message}`;
+      break;
+    case 'loop_error':
+      text = `Error in ${event.data.source}${event.data.symbol ? ` for ${event.data.symbol}` : ''}: ${event.data.error}`;
+      break;
+    case 'memory_write_failed':
+      text = `${event.data.symbol} trade not saved to memory${event.data.orderId ? ` (order ${event.data.orderId})` : ''}: ${event.data.error}`;
+      break;
+  }
+  return event.suppressed ? `${text} (${event.suppressed} earlier events suppressed)` : text;
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import axios from 'axios';
+import { writeConsoleLine } from '../logging/logger';
+import { AnyTradingEvent, describeEvent } from './events';
+
+// Where events are delivered; failures are reported by the bus, not retried
+export interface EventSink {
+  readonly name: string;
+  send(event: AnyTradingEvent): Promise<void>;
+}
+
+export type WebhookFormat = 'json' | 'slack' | 'discord' | 'telegram';
+
+export function isWebhookFormat(value: string): value is WebhookFormat {
+  return ['json', 'slack', 'discord', 'telegram'].includes(value);
+}
+
+// Discord rejects messages longer than this
+const DISCORD_MAX_CONTENT = 2000;
+
+// Request body for each webhook format; json posts the event itself
+export function formatWebhookPayload(format: WebhookFormat, event: AnyTradingEvent, chatId?: string): unknown {
+  const text = `[${event.severity}] ${describeEvent(event)}`;
+  switch (format) {
+    case 'slack':
+      return { text };
+    case 'discord':
+      return { content: text.slice(0, DISCORD_MAX_CONTENT) };
+    case 'telegram':
+      return { chat_id: chatId, text };
+    case 'json':
+      return event;
+  }
+}
+
+// POSTs each event to a URL: a Slack or Discord incoming webhook, the Telegram Bot API's
+// sendMessage (https://api.telegram.org/bot<token>/sendMessage with a chat ID) or any JSON endpoint
+export class WebhookSink implements EventSink {
+  readonly name: string;
+
+  constructor(
+    private url: string,
+    private format: WebhookFormat = 'json',
+    private options: { chatId?: string; timeoutMs?: number } = {}
+  ) {
+    if (!url) throw new Error('A webhook sink needs a URL');
+    if (format === 'telegram' && !options.chatId) throw new Error('A telegram webhook sink needs a chat ID');
+    this.name = `${format}-webhook`;
+  }
+
+  async send(event: AnyTradingEvent): Promise<void> {
+    await axios.post(this.url, formatWebhookPayload(this.format, event, this.options.chatId), {
+      timeout: this.options.timeoutMs ?? 10000,
+    });
+  }
+}
+
+// Appends each event as a JSON line
+export class JsonlSink implements EventSink {
+  readonly name = 'jsonl';
+
+  constructor(private filePath: string) {
+    if (!filePath) throw new Error('A jsonl sink needs a file');
+  }
+
+  async send(event: AnyTradingEvent): Promise<void> {
+    fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+  }
+}
+
+// Writes a one-line summary of each event to the console stream, which the CLI moves to stderr
+export class StdoutSink implements EventSink {
+  readonly name = 'stdout';
+
+  constructor(private write: (line: string) => void = writeConsoleLine) {}
+
+  async send(event: AnyTradingEvent): Promise<void> {
+    this.write(`${event.timestamp.toISOString()} ${event.severity.toUpperCase()} ${describeEvent(event)}`);
+  }
+}
@@ -0,0 +1,206 @@
+import { FakeClock } from '../scheduler/clock';
+import { SimulatedExchange } from '../services/simulated-exchange';
+import { tokenRegistry } from '../tokens/token-registry';
+import {
+  AlgorithmLimits,
+  ChildFill,
+  ExecutionContext,
+  IcebergAlgorithm,
+  ParentOrder,
+  SliceVenue,
+  SplitRouteAlgorithm,
+  TwapAlgorithm,
+} from './algorithms';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const USDT = tokenRegistry.resolve('USDT', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+const PRICES: Record<string, number> = {
+  [USDC.address.toLowerCase()]: 1,
+  [USDT.address.toLowerCase()]: 1,
+  [WETH.address.toLowerCase()]: 3000,
+};
+
+const LIMITS: AlgorithmLimits = { maxPriceImpact: 1.5, maxDriftPercent: 5 };
+
+// Slice venue over a paper exchange with $1M of depth, so a $10k child moves the price about 1%
+function simulatedVenue(): SliceVenue & { swaps: number } {
+  const exchange = new SimulatedExchange({
+    priceSource: async token => PRICES[token.toLowerCase()],
+    initialBalances: { [USDC.address]: 100_000 },
+    liquidityUsd: 1_000_000,
+  });
+  const venue = {
+    swaps: 0,
+    async quote(tokenIn: typeof USDC, tokenOut: typeof USDC, amountIn: string) {
+      const quote = await exchange.getQuote(tokenIn.address, tokenOut.address, amountIn);
+      return {
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountIn: quote.fromAmount,
+        amountOut: quote.toAmount,
+        exchangeRate: quote.exchangeRate,
+        priceImpact: quote.slippage,
+      };
+    },
+    async swap(tokenIn: typeof USDC, tokenOut: typeof USDC, amountIn: string) {
+      venue.swaps++;
+      const trade = await exchange.executeTrade({ fromToken: tokenIn.address, toToken: tokenOut.address, amount: amountIn, reason: 'test' });
+      return { txHash: trade.id, amountIn: trade.fromAmount, amountOut: trade.toAmount, timestamp: new Date(trade.timestamp) };
+    },
+  };
+  return venue;
+}
+
+function buyOrder(amountIn: number): ParentOrder {
+  return { symbol: 'ETH/USDC', action: 'buy', tokenIn: USDC, tokenOut: WETH, amountIn, arrivalPrice: 3000 };
+}
+
+describe('execution algorithms', () => {
+  let clock: FakeClock;
+  let fills: ChildFill[];
+  let context: ExecutionContext;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1));
+    fills = [];
+    context = { venue: simulatedVenue(), clock, limits: LIMITS, onFill: fill => fills.push(fill) };
+  });
+
+  // Run an algorithm to completion, advancing the clock through its pauses
+  async function runToEnd(promise: Promise<any>, stepMs: number) {
+    let done = false;
+    const result = promise.finally(() => (done = true));
+    await clock.advance(0);
+    while (!done) await clock.advance(stepMs);
+    return result;
+  }
+
+  it('sends equal TWAP slices spread over the window', async () => {
+    const twap = new TwapAlgorithm({ slices: 3, durationMs: 30 * 60_000 });
+
+    const running = twap.run(buyOrder(30_000), context);
+    await clock.advance(0);
+    expect(fills).toHaveLength(1);
+    await clock.advance(10 * 60_000);
+    expect(fills).toHaveLength(2);
+    await clock.advance(10 * 60_000);
+    const result = await running;
+
+    expect(result.completed).toBe(true);
+    expect(result.fills.map(fill => fill.amountIn)).toEqual([10_000, 10_000, 10_000]);
+    expect(result.remainingIn).toBe(0);
+    expect(result.averagePrice).toBeGreaterThan(3000);
+    expect(result.slippagePercent).toBeCloseTo(((result.averagePrice! - 3000) / 3000) * 100, 10);
+    expect(fills).toEqual(result.fills);
+  });
+
+  it('stops a TWAP before its next slice when aborted', async () => {
+    const abort = new AbortController();
+    const twap = new TwapAlgorithm({ slices: 3, durationMs: 30 * 60_000 });
+
+    const running = twap.run(buyOrder(30_000), { ...context, signal: abort.signal });
+    await clock.advance(0);
+    abort.abort(new Error('shutting down'));
+    const result = await running;
+
+    expect(result.completed).toBe(false);
+    expect(result.abortReason).toBe('aborted: shutting down');
+    expect(result.fills).toHaveLength(1);
+    expect(result.remainingIn).toBe(20_000);
+    expect(clock.pendingSleepers()).toBe(0);
+  });
+
+  it('sends nothing when a child would move the price too far', async () => {
+    const twap = new TwapAlgorithm({ slices: 1, durationMs: 0 });
+
+    const result = await twap.run(buyOrder(30_000), context);
+
+    expect(result.completed).toBe(false);
+    expect(result.abortReason).toMatch(/^price impact 2\.9\d% reached the 1\.5% limit$/);
+    expect(result.fills).toEqual([]);
+    expect(fills).toEqual([]);
+  });
+
+  it('stops when quotes drift from the arrival price', async () => {
+    const twap = new TwapAlgorithm({ slices: 3, durationMs: 0 });
+
+    const result = await twap.run({ ...buyOrder(3000), arrivalPrice: 2800 }, context);
+
+    expect(result.completed).toBe(false);
+    expect(result.abortReason).toMatch(/against the arrival price$/);
+  });
+
+  it('sizes iceberg children to the impact target', async () => {
+    const iceberg = new IcebergAlgorithm({ targetImpactPercent: 0.5, intervalMs: 60_000, maxChildren: 20 });
+
+    const result = await runToEnd(iceberg.run(buyOrder(30_000), context), 60_000);
+
+    expect(result.completed).toBe(true);
+    expect(result.fills.length).toBeGreaterThan(5);
+    expect(result.amountIn).toBeCloseTo(30_000, 4);
+    // Impact at the paper exchange is size / (size + depth)
+    result.fills.forEach((fill: ChildFill) => expect(fill.amountIn / (fill.amountIn + 1_000_000)).toBeLessThanOrEqual(0.005));
+    expect(fills).toHaveLength(result.fills.length);
+  });
+
+  it('gives up an iceberg at its child limit', async () => {
+    const iceberg = new IcebergAlgorithm({ targetImpactPercent: 0.5, intervalMs: 60_000, maxChildren: 2 });
+
+    const result = await runToEnd(iceberg.run(buyOrder(30_000), context), 60_000);
+
+    expect(result.completed).toBe(false);
+    expect(result.abortReason).toBe('reached the limit of 2 child orders');
+    expect(result.fills).toHaveLength(2);
+  });
+
+  it('splits an order across direct and two-hop routes', async () => {
+    const split = new SplitRouteAlgorithm({ via: ['USDT'], parts: 10 });
+
+    const result = await split.run(buyOrder(30_000), { ...context, limits: { ...LIMITS, maxPriceImpact: 3 } });
+
+    // The two-hop route pays the fee twice, so it only takes chunks once the direct route's impact outweighs that
+    expect(result.completed).toBe(true);
+    expect(result.fills.map(fill => [fill.route, fill.amountIn])).toEqual([
+      ['USDC>WETH', 21_000],
+      ['USDC>USDT>WETH', 9000],
+    ]);
+    expect((context.venue as ReturnType<typeof simulatedVenue>).swaps).toBe(3);
+    expect(fills).toEqual(result.fills);
+  });
+
+  it('swaps the intermediate token back when the second hop of a route fails', async () => {
+    const venue = simulatedVenue();
+    const swap = venue.swap;
+    const swaps: string[] = [];
+    venue.swap = async (tokenIn, tokenOut, amountIn) => {
+      swaps.push(`${tokenIn.symbol}>${tokenOut.symbol}`);
+      if (tokenIn.symbol === 'USDT' && tokenOut.symbol === 'WETH') throw new Error('pool paused');
+      return swap(tokenIn, tokenOut, amountIn);
+    };
+    const split = new SplitRouteAlgorithm({ via: ['USDT'], parts: 10 });
+
+    const result = await split.run(buyOrder(30_000), { ...context, venue, limits: { ...LIMITS, maxPriceImpact: 3 } });
+
+    expect(swaps).toEqual(['USDC>WETH', 'USDC>USDT', 'USDT>WETH', 'USDT>USDC']);
+    expect(result.completed).toBe(false);
+    expect(result.abortReason).toMatch(/^child order failed: pool paused; unwound 8\d{3}\.\d+ USDT to 8\d{3}\.\d+ USDC$/);
+    expect(result.fills.map(fill => fill.route)).toEqual(['USDC>WETH']);
+    expect(result.remainingIn).toBe(9000);
+  });
+
+  it('reports the intermediate token still held when swapping it back fails', async () => {
+    const venue = simulatedVenue();
+    const swap = venue.swap;
+    venue.swap = async (tokenIn, tokenOut, amountIn) => {
+      if (tokenIn.symbol === 'USDT') throw new Error('venue down');
+      return swap(tokenIn, tokenOut, amountIn);
+    };
+    const split = new SplitRouteAlgorithm({ via: ['USDT'], parts: 10 });
+
+    const result = await split.run(buyOrder(30_000), { ...context, venue, limits: { ...LIMITS, maxPriceImpact: 3 } });
+
+    expect(result.abortReason).toMatch(/; holding 8\d{3}\.\d+ USDT from route USDC>USDT>WETH, unwinding failed: venue down$/);
+  });
+});
@@ -0,0 +1,427 @@
+import { config } from '../config';
+import { Clock } from '../scheduler/clock';
+import { TokenInfo, formatTokenAmount, sameAddress, tokenRegistry } from '../tokens/token-registry';
+import { RecallNetworkTools, TradeQuote } from '../tools/recall-tools';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('execution-algorithms.log');
+
+export type AlgorithmName = 'twap' | 'iceberg' | 'split';
+
+// A large order to be worked as several child swaps
+export interface ParentOrder {
+  symbol: string;
+  action: 'buy' | 'sell';
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: number; // Total tokenIn to swap
+  arrivalPrice: number; // Quote asset per base asset when the order arrived
+}
+
+export interface ChildFill {
+  txHash: string;
+  amountIn: number;
+  amountOut: number;
+  route: string; // Token symbols the child went through, e.g. "USDC>USDT>WETH"
+  timestamp: Date;
+}
+
+export interface AlgorithmLimits {
+  maxPriceImpact: number; // Children quoted at or above this impact (percent) are not sent
+  maxDriftPercent: number; // The order stops when a quote is this much worse than the arrival price
+}
+
+export interface AlgorithmResult {
+  algorithm: AlgorithmName;
+  fills: ChildFill[];
+  amountIn: number; // tokenIn actually swapped
+  amountOut: number;
+  remainingIn: number; // tokenIn left unswapped when the order stopped early
+  averagePrice?: number; // Quote asset per base asset over all fills
+  arrivalPrice: number;
+  slippagePercent?: number; // Cost of the average price against the arrival price; positive is worse
+  completed: boolean;
+  abortReason?: string;
+}
+
+// Quotes and swaps a single child order. TradeExecutor's venue also follows each child to a
+// final state, and throws if it does not confirm.
+export interface SliceVenue {
+  quote(tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: string): Promise<TradeQuote>;
+  swap(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string
+  ): Promise<{ txHash: string; amountIn: number; amountOut: number; timestamp: Date }>;
+}
+
+export interface ExecutionContext {
+  venue: SliceVenue;
+  clock: Clock;
+  limits: AlgorithmLimits;
+  signal?: AbortSignal; // Stops the order before its next child, e.g. on shutdown
+  onFill?: (fill: ChildFill) => void; // Called as each child settles, before the next is sent
+}
+
+export interface ExecutionAlgorithm {
+  readonly name: AlgorithmName;
+  run(order: ParentOrder, context: ExecutionContext): Promise<AlgorithmResult>;
+}
+
+export interface TwapOptions {
+  slices: number;
+  durationMs: number; // Window the slices are spread evenly over
+}
+
+export interface IcebergOptions {
+  targetImpactPercent: number; // Children are shrunk until their quoted impact is at most this
+  intervalMs: number; // Pause between children so the pool can recover
+  maxChildren: number;
+}
+
+export interface SplitOptions {
+  via: string[]; // Symbols of intermediate tokens; each adds a two-hop route beside the direct swap
+  parts: number; // Chunks the order is divided into when allocating it to routes
+}
+
+// Children smaller than this share of the parent are treated as dust and not sent
+const DUST_FRACTION = 1e-6;
+
+// Quotes that miss the impact target are shrunk this many times before the iceberg gives up
+const MAX_RESIZES = 5;
+
+// Unwinds an algorithm when it has to stop early; the message becomes the abort reason
+class StopExecution extends Error {}
+
+// Quote asset per base asset, whichever direction the swap went
+function pairPrice(action: 'buy' | 'sell', amountIn: number, amountOut: number): number {
+  return action === 'buy' ? amountIn / amountOut : amountOut / amountIn;
+}
+
+// How much worse than the arrival price a price is, in percent
+function adverseDrift(action: 'buy' | 'sell', price: number, arrivalPrice: number): number {
+  const drift = ((price - arrivalPrice) / arrivalPrice) * 100;
+  return action === 'buy' ? drift : -drift;
+}
+
+function routeName(path: TokenInfo[]): string {
+  return path.map(token => token.symbol).join('>');
+}
+
+// Collects child fills and checks conditions before each child is sent
+class OrderWork {
+  readonly fills: ChildFill[] = [];
+
+  constructor(
+    private name: AlgorithmName,
+    readonly order: ParentOrder,
+    private context: ExecutionContext
+  ) {}
+
+  get filledIn(): number {
+    return this.fills.reduce((sum, fill) => sum + fill.amountIn, 0);
+  }
+
+  get remainingIn(): number {
+    return Math.max(this.order.amountIn - this.filledIn, 0);
+  }
+
+  get done(): boolean {
+    return this.remainingIn <= this.order.amountIn * DUST_FRACTION;
+  }
+
+  // Amount string for a child, never more than what is left
+  format(amount: number): string {
+    return formatTokenAmount(Math.min(amount, this.remainingIn), this.order.tokenIn.decimals);
+  }
+
+  checkAborted(): void {
+    const signal = this.context.signal;
+    if (signal?.aborted) {
+      throw new StopExecution(`aborted: ${signal.reason instanceof Error ? signal.reason.message : signal.reason}`);
+    }
+  }
+
+  // Refuse a child whose quote is too costly or has moved too far from the arrival price
+  checkQuote(amountIn: number, amountOut: number, priceImpact: number): void {
+    const { maxPriceImpact, maxDriftPercent } = this.context.limits;
+    if (priceImpact >= maxPriceImpact) {
+      throw new StopExecution(`price impact ${priceImpact.toFixed(2)}% reached the ${maxPriceImpact}% limit`);
+    }
+    const drift = adverseDrift(this.order.action, pairPrice(this.order.action, amountIn, amountOut), this.order.arrivalPrice);
+    if (drift > maxDriftPercent) {
+      throw new StopExecution(`price moved ${drift.toFixed(2)}% against the arrival price`);
+    }
+  }
+
+  // Send one swap; a failed or unconfirmed child stops the order
+  async send(tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: string): ReturnType<SliceVenue['swap']> {
+    this.checkAborted();
+    try {
+      return await this.context.venue.swap(tokenIn, tokenOut, amountIn);
+    } catch (error) {
+      throw new StopExecution(`child order failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Quote and swap one child directly from tokenIn to tokenOut
+  async child(amountIn: string, quote?: TradeQuote): Promise<void> {
+    const { tokenIn, tokenOut } = this.order;
+    this.checkAborted();
+    quote ??= await this.context.venue.quote(tokenIn, tokenOut, amountIn);
+    this.checkQuote(Number(amountIn), quote.amountOut, quote.priceImpact);
+    const trade = await this.send(tokenIn, tokenOut, amountIn);
+    this.record({
+      txHash: trade.txHash,
+      amountIn: trade.amountIn,
+      amountOut: trade.amountOut,
+      route: routeName([tokenIn, tokenOut]),
+      timestamp: trade.timestamp,
+    });
+  }
+
+  record(fill: ChildFill): void {
+    this.fills.push(fill);
+    logger.info(
+      `${this.name} ${this.order.symbol} child ${this.fills.length}: ${fill.amountIn} ${this.order.tokenIn.symbol} -> ${fill.amountOut} ${this.order.tokenOut.symbol} via ${fill.route}`
+    );
+    this.context.onFill?.(fill);
+  }
+
+  // Wait between children, waking early if the order is aborted
+  sleep(ms: number): Promise<void> {
+    return this.context.clock.sleep(ms, this.context.signal);
+  }
+
+  result(abortReason?: string): AlgorithmResult {
+    const { action, arrivalPrice } = this.order;
+    const amountIn = this.filledIn;
+    const amountOut = this.fills.reduce((sum, fill) => sum + fill.amountOut, 0);
+    const averagePrice = this.fills.length > 0 ? pairPrice(action, amountIn, amountOut) : undefined;
+    if (abortReason) {
+      logger.warn(`${this.name} ${this.order.symbol} stopped after ${this.fills.length} children: ${abortReason}`);
+    }
+    return {
+      algorithm: this.name,
+      fills: this.fills,
+      amountIn,
+      amountOut,
+      remainingIn: this.remainingIn,
+      averagePrice,
+      arrivalPrice,
+      slippagePercent: averagePrice === undefined ? undefined : adverseDrift(action, averagePrice, arrivalPrice),
+      completed: !abortReason,
+      abortReason,
+    };
+  }
+}
+
+// Run an algorithm body, turning an early stop into a partial result
+async function work(
+  name: AlgorithmName,
+  order: ParentOrder,
+  context: ExecutionContext,
+  body: (work: OrderWork) => Promise<void>
+): Promise<AlgorithmResult> {
+  const state = new OrderWork(name, order, context);
+  try {
+    await body(state);
+    return state.result();
+  } catch (error) {
+    if (!(error instanceof StopExecution)) throw error;
+    return state.result(error.message);
+  }
+}
+
+// Equal slices sent at even intervals across a time window
+export class TwapAlgorithm implements ExecutionAlgorithm {
+  readonly name = 'twap';
+
+  constructor(private options: TwapOptions) {}
+
+  run(order: ParentOrder, context: ExecutionContext): Promise<AlgorithmResult> {
+    const slices = Math.max(Math.floor(this.options.slices), 1);
+    const interval = this.options.durationMs / slices;
+    return work(this.name, order, context, async state => {
+      for (let slice = 0; slice < slices && !state.done; slice++) {
+        if (slice > 0) await state.sleep(interval);
+        // The last slice takes whatever rounding left over
+        const size = slice === slices - 1 ? state.remainingIn : order.amountIn / slices;
+        await state.child(state.format(size));
+      }
+    });
+  }
+}
+
+// Children sized so each one's quoted price impact stays under a target
+export class IcebergAlgorithm implements ExecutionAlgorithm {
+  readonly name = 'iceberg';
+
+  constructor(private options: IcebergOptions) {}
+
+  run(order: ParentOrder, context: ExecutionContext): Promise<AlgorithmResult> {
+    const { targetImpactPercent, intervalMs, maxChildren } = this.options;
+    return work(this.name, order, context, async state => {
+      let size = state.remainingIn;
+      while (!state.done) {
+        if (state.fills.length >= maxChildren) {
+          throw new StopExecution(`reached the limit of ${maxChildren} child orders`);
+        }
+        if (state.fills.length > 0) await state.sleep(intervalMs);
+        state.checkAborted();
+
+        // Impact grows roughly in proportion to size, so scale the child down to the target
+        let amountIn = state.format(size);
+        let quote = await context.venue.quote(order.tokenIn, order.tokenOut, amountIn);
+        for (let resize = 0; quote.priceImpact > targetImpactPercent; resize++) {
+          if (resize === MAX_RESIZES) {
+            throw new StopExecution(`no child size keeps price impact under ${targetImpactPercent}%`);
+          }
+          size = Number(amountIn) * (targetImpactPercent / quote.priceImpact) * 0.9;
+          amountIn = state.format(size);
+          if (Number(amountIn) <= 0) {
+            throw new StopExecution(`no child size keeps price impact under ${targetImpactPercent}%`);
+          }
+          quote = await context.venue.quote(order.tokenIn, order.tokenOut, amountIn);
+        }
+        await state.child(amountIn, quote);
+      }
+    });
+  }
+}
+
+// Spreads the order across routes through intermediate tokens. Chunks go one at a time to the
+// route whose next chunk adds the most output; each route's share is then sent as one swap per hop.
+export class SplitRouteAlgorithm implements ExecutionAlgorithm {
+  readonly name = 'split';
+
+  constructor(private options: SplitOptions) {}
+
+  run(order: ParentOrder, context: ExecutionContext): Promise<AlgorithmResult> {
+    // Intermediate tokens missing on the order's chain, or that are one of its own tokens, are skipped
+    const intermediates = this.options.via
+      .map(symbol => tokenRegistry.list(order.tokenIn.chain).find(token => token.symbol === symbol || token.aliases?.includes(symbol)))
+      .filter((token): token is TokenInfo => !!token)
+      .filter(token => !sameAddress(token.address, order.tokenIn.address) && !sameAddress(token.address, order.tokenOut.address));
+    const paths = [[order.tokenIn, order.tokenOut], ...intermediates.map(token => [order.tokenIn, token, order.tokenOut])];
+    const parts = Math.max(Math.floor(this.options.parts), 1);
+
+    return work(this.name, order, context, async state => {
+      // Allocate chunks by marginal output
+      const allocated = paths.map(() => 0);
+      const output = paths.map(() => 0);
+      for (let part = 0; part < parts; part++) {
+        state.checkAborted();
+        const chunk = part === parts - 1 ? order.amountIn - allocated.reduce((sum, amount) => sum + amount, 0) : order.amountIn / parts;
+        const outputs = await Promise.all(
+          paths.map((path, index) => this.quotePath(context.venue, path, state.format(allocated[index] + chunk)).then(quote => quote.amountOut))
+        );
+        const best = outputs.reduce((bestIndex, out, index) => (out - output[index] > outputs[bestIndex] - output[bestIndex] ? index : bestIndex), 0);
+        allocated[best] += chunk;
+        output[best] = outputs[best];
+      }
+      logger.info(
+        `split ${order.symbol}: ${paths.map((path, index) => `${allocated[index]} via ${routeName(path)}`).join(', ')}`
+      );
+
+      for (const [index, path] of paths.entries()) {
+        if (allocated[index] <= 0) continue;
+        state.checkAborted();
+        const amountIn = state.format(allocated[index]);
+        const quote = await this.quotePath(context.venue, path, amountIn);
+        state.checkQuote(Number(amountIn), quote.amountOut, quote.priceImpact);
+
+        // Each hop spends what the previous one received
+        let hopIn = amountIn;
+        let txHash = '';
+        for (let hop = 0; hop < path.length - 1; hop++) {
+          try {
+            const received = await state.send(path[hop], path[hop + 1], hopIn);
+            txHash = received.txHash;
+            hopIn = formatTokenAmount(received.amountOut, path[hop + 1].decimals);
+          } catch (error) {
+            if (hop === 0) throw error;
+            // Earlier hops went through, so the route's intermediate token is held at the venue
+            throw new StopExecution(`${(error as Error).message}; ${await this.unwind(context.venue, path, hop, hopIn)}`);
+          }
+        }
+        state.record({ txHash, amountIn: Number(amountIn), amountOut: Number(hopIn), route: routeName(path), timestamp: new Date(context.clock.now()) });
+      }
+    });
+  }
+
+  // Swap what a route left in its intermediate token back to the order's tokenIn. This runs even
+  // when the order was aborted; if the swap back fails too, the holding is reported instead.
+  private async unwind(venue: SliceVenue, path: TokenInfo[], hop: number, held: string): Promise<string> {
+    const token = path[hop];
+    try {
+      const back = await venue.swap(token, path[0], held);
+      logger.info(`split unwound ${held} ${token.symbol} to ${back.amountOut} ${path[0].symbol} (tx ${back.txHash})`);
+      return `unwound ${held} ${token.symbol} to ${back.amountOut} ${path[0].symbol}`;
+    } catch (error) {
+      logger.error(`split could not unwind ${held} ${token.symbol} from route ${routeName(path)}:`, error);
+      return `holding ${held} ${token.symbol} from route ${routeName(path)}, unwinding failed: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  // Chain quotes hop by hop; price impact adds up along the route
+  private async quotePath(venue: SliceVenue, path: TokenInfo[], amountIn: string): Promise<TradeQuote> {
+    let amount = amountIn;
+    let priceImpact = 0;
+    let amountOut = 0;
+    for (let hop = 0; hop < path.length - 1; hop++) {
+      const quote = await venue.quote(path[hop], path[hop + 1], amount);
+      priceImpact += quote.priceImpact;
+      amountOut = quote.amountOut;
+      amount = formatTokenAmount(quote.amountOut, path[hop + 1].decimals);
+    }
+    return {
+      tokenIn: path[0].address,
+      tokenOut: path[path.length - 1].address,
+      amountIn: Number(amountIn),
+      amountOut,
+      exchangeRate: amountOut / Number(amountIn),
+      priceImpact,
+    };
+  }
+}
+
+// Slice venue that quotes and swaps straight through the Recall tools, e.g. against a
+// SimulatedExchange in tests; children are not followed on chain
+export function toolsVenue(
+  tools: Pick<RecallNetworkTools, 'getTradeQuote' | 'executeTrade'>,
+  reason: string = 'SlothfulTrader child order'
+): SliceVenue {
+  return {
+    quote: (tokenIn, tokenOut, amountIn) =>
+      tools.getTradeQuote.execute({ tokenIn: tokenIn.address, tokenOut: tokenOut.address, amountIn }),
+    swap: (tokenIn, tokenOut, amountIn) =>
+      tools.executeTrade.execute({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountIn,
+        slippageTolerance: config.trading.maxSlippage,
+        reason,
+      }),
+  };
+}
+
+// The algorithm named by EXECUTION_ALGORITHM, or null to send every order as one swap
+export function createExecutionAlgorithm(name: string = config.execution.algorithm): ExecutionAlgorithm | null {
+  switch (name) {
+    case 'market':
+      return null;
+    case 'twap':
+      return new TwapAlgorithm({ slices: config.execution.twapSlices, durationMs: config.execution.twapDurationMs });
+    case 'iceberg':
+      return new IcebergAlgorithm({
+        targetImpactPercent: config.execution.icebergTargetImpactPercent,
+        intervalMs: config.execution.icebergIntervalMs,
+        maxChildren: config.execution.icebergMaxChildren,
+      });
+    case 'split':
+      return new SplitRouteAlgorithm({ via: config.execution.splitVia, parts: config.execution.splitParts });
+    default:
+      throw new Error(`Unknown execution algorithm in EXECUTION_ALGORITHM: ${name}`);
+  }
+}
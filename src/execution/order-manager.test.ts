@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { FakeClock } from '../scheduler/clock';
+import { TokenInfo } from '../tokens/token-registry';
+import { ConfirmationProvider, InvalidOrderTransitionError, Order, OrderManager, parseReceiptAmounts } from './order-manager';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const POOL = '0x2222222222222222222222222222222222222222';
+const TX_HASH = ethers.id('swap');
+
+const USDC: TokenInfo = { symbol: 'USDC', chain: 'ethereum', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, name: 'USD Coin' };
+const WETH: TokenInfo = { symbol: 'WETH', chain: 'ethereum', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, name: 'Wrapped Ether' };
+
+const OPTIONS = { confirmations: 2, pollIntervalMs: 1000, timeoutMs: 5000 };
+
+function transfer(token: TokenInfo, from: string, to: string, amount: string) {
+  return {
+    address: token.address,
+    topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(from, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.toBeHex(ethers.parseUnits(amount, token.decimals), 32),
+  };
+}
+
+// Chain state the test changes between polls
+class FakeProvider {
+  blockNumber = 100;
+  receipt: any = null;
+  transaction: any = null;
+  transactionCount = 0;
+  calls = 0;
+
+  asProvider(): ConfirmationProvider {
+    return {
+      getTransactionReceipt: async () => (this.calls++, this.receipt),
+      getBlockNumber: async () => this.blockNumber,
+      getTransaction: async () => this.transaction,
+      getTransactionCount: async () => this.transactionCount,
+    } as unknown as ConfirmationProvider;
+  }
+}
+
+describe('OrderManager', () => {
+  let clock: FakeClock;
+  let chain: FakeProvider;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1));
+    chain = new FakeProvider();
+  });
+
+  function submitted(manager: OrderManager, txHash: string = TX_HASH): Order {
+    const order = manager.create({ symbol: 'ETH/USDC', action: 'buy', tokenIn: USDC, tokenOut: WETH, amountIn: '3000' });
+    return manager.submit(order, { txHash, amountIn: 3000, amountOut: 1, from: WALLET, nonce: 7 });
+  }
+
+  // Poll until the order settles, advancing the clock one poll interval at a time
+  async function settle(manager: OrderManager, order: Order): Promise<Order> {
+    let done = false;
+    const result = manager.waitForFinal(order).finally(() => (done = true));
+    await clock.advance(0);
+    while (!done) await clock.advance(OPTIONS.pollIntervalMs);
+    return result;
+  }
+
+  it('settles from the venue report without a provider', async () => {
+    const manager = new OrderManager(undefined, OPTIONS, clock);
+
+    const order = await manager.waitForFinal(submitted(manager));
+
+    expect(order.state).toBe('confirmed');
+    expect(order.fill).toEqual({ amountIn: 3000, amountOut: 1, source: 'venue' });
+  });
+
+  it('settles a venue trade ID from the report instead of looking it up on chain', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+
+    const order = await manager.waitForFinal(submitted(manager, 'c6a1f2e0-5b0e-4d8e-9a51-3f0b7e1d2c44'));
+
+    expect(order.state).toBe('confirmed');
+    expect(order.fill?.source).toBe('venue');
+    expect(chain.calls).toBe(0);
+  });
+
+  it('waits for the required confirmations and reads the fill from the receipt', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+    chain.receipt = {
+      status: 1,
+      blockNumber: 100,
+      from: WALLET,
+      gasUsed: 120_000n,
+      logs: [transfer(USDC, WALLET, POOL, '2999.5'), transfer(WETH, POOL, WALLET, '0.98')],
+    };
+
+    const order = submitted(manager);
+    const result = manager.waitForFinal(order);
+    await clock.advance(0);
+    expect(order.state).toBe('pending');
+
+    chain.blockNumber = 101;
+    await clock.advance(OPTIONS.pollIntervalMs);
+    await result;
+
+    expect(order.state).toBe('confirmed');
+    expect(order.fill).toEqual({ amountIn: 2999.5, amountOut: 0.98, source: 'receipt', blockNumber: 100, gasUsed: 120_000n });
+  });
+
+  it('fails an order whose transaction reverted', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+    chain.receipt = { status: 0, blockNumber: 100, from: WALLET, logs: [] };
+
+    const order = await settle(manager, submitted(manager));
+
+    expect(order.state).toBe('failed');
+    expect(order.error).toBe('reverted in block 100');
+  });
+
+  it('drops an order that is not mined in time', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+    chain.transaction = { from: WALLET, nonce: 7 };
+
+    const order = await settle(manager, submitted(manager));
+
+    expect(order.history.map(transition => transition.state)).toEqual(['created', 'submitted', 'pending', 'dropped']);
+    expect(order.error).toBe('not mined within 5000ms');
+  });
+
+  it('drops an order whose nonce was used by another transaction', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+    chain.transactionCount = 8;
+
+    const order = await settle(manager, submitted(manager));
+
+    expect(order.state).toBe('dropped');
+    expect(order.error).toContain('replaced: nonce 7');
+  });
+
+  it('goes back to pending when a reorg removes the receipt', async () => {
+    const manager = new OrderManager(chain.asProvider(), OPTIONS, clock);
+    chain.receipt = { status: 1, blockNumber: 100, from: WALLET, logs: [] };
+
+    const order = submitted(manager);
+    const result = manager.waitForFinal(order);
+    await clock.advance(0);
+    expect(order.blockNumber).toBe(100);
+
+    chain.receipt = null;
+    chain.transaction = { from: WALLET, nonce: 7 };
+    await clock.advance(OPTIONS.pollIntervalMs);
+    expect(order.state).toBe('pending');
+    expect(order.blockNumber).toBeUndefined();
+
+    chain.receipt = { status: 1, blockNumber: 102, from: WALLET, logs: [] };
+    chain.blockNumber = 103;
+    await clock.advance(OPTIONS.pollIntervalMs);
+    await result;
+
+    expect(order.state).toBe('confirmed');
+    expect(order.fill).toMatchObject({ amountIn: 3000, amountOut: 1, source: 'venue', blockNumber: 102 });
+  });
+
+  it('refuses to leave a final state', async () => {
+    const manager = new OrderManager(undefined, OPTIONS, clock);
+    const order = await manager.waitForFinal(submitted(manager));
+
+    expect(() => manager.fail(order, 'late error')).toThrow(InvalidOrderTransitionError);
+    expect(manager.getOpenOrders()).toEqual([]);
+  });
+});
+
+describe('parseReceiptAmounts', () => {
+  it('only counts transfers of the order tokens to and from the wallet', () => {
+    const logs = [
+      transfer(USDC, WALLET, POOL, '100'),
+      transfer(USDC, WALLET, POOL, '50'),
+      transfer(USDC, POOL, WALLET, '1'), // Refund into the wallet, not spent
+      transfer(WETH, POOL, POOL, '5'), // Between other accounts
+      transfer(WETH, POOL, WALLET, '0.05'),
+    ];
+
+    expect(parseReceiptAmounts(logs, WALLET, USDC, WETH)).toEqual({ amountIn: 150, amountOut: 0.05 });
+    expect(parseReceiptAmounts([], WALLET, USDC, WETH)).toEqual({ amountIn: undefined, amountOut: undefined });
+  });
+});
@@ -0,0 +1,302 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { Clock, systemClock } from '../scheduler/clock';
+import { TokenInfo, sameAddress } from '../tokens/token-registry';
+import { audit } from '../audit/audit-trail';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('orders.log');
+
+export type OrderState = 'created' | 'submitted' | 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+// States an order may move to from each state; confirmed, failed and dropped are final
+export const ORDER_TRANSITIONS: Record<OrderState, OrderState[]> = {
+  created: ['submitted', 'failed'],
+  submitted: ['pending', 'confirmed', 'failed', 'dropped'],
+  pending: ['confirmed', 'failed', 'dropped'],
+  confirmed: [],
+  failed: [],
+  dropped: [],
+};
+
+// Finished orders kept for lookups before the oldest are forgotten
+const MAX_FINISHED_ORDERS = 500;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// The parts of an ethers provider used to follow a transaction; a JsonRpcProvider pointed
+// at a node (or a local Anvil/Hardhat fork) satisfies it
+export type ConfirmationProvider = Pick<
+  ethers.Provider,
+  'getTransaction' | 'getTransactionReceipt' | 'getBlockNumber' | 'getTransactionCount'
+>;
+
+export interface OrderManagerOptions {
+  confirmations: number; // Blocks on top of the receipt's block before an order counts as confirmed
+  pollIntervalMs: number;
+  timeoutMs: number; // Orders not mined within this time are dropped
+}
+
+export interface OrderRequest {
+  symbol: string;
+  action: 'buy' | 'sell';
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: string;
+}
+
+// Amounts actually swapped, from the receipt's transfer logs or as reported by the venue
+export interface OrderFill {
+  amountIn: number;
+  amountOut: number;
+  source: 'receipt' | 'venue';
+  blockNumber?: number;
+  gasUsed?: bigint;
+}
+
+export interface OrderTransition {
+  state: OrderState;
+  at: Date;
+  reason?: string;
+}
+
+export interface Order extends OrderRequest {
+  id: string;
+  state: OrderState;
+  txHash?: string;
+  from?: string;
+  nonce?: number;
+  blockNumber?: number; // Block of the last receipt seen, cleared if a reorg drops it
+  reported?: { amountIn: number; amountOut: number }; // What the venue said it filled
+  fill?: OrderFill;
+  error?: string;
+  history: OrderTransition[];
+}
+
+export class InvalidOrderTransitionError extends Error {
+  constructor(public readonly order: string, public readonly from: OrderState, public readonly to: OrderState) {
+    super(`Order ${order} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export function isFinalState(state: OrderState): boolean {
+  return ORDER_TRANSITIONS[state].length === 0;
+}
+
+// Sum the ERC-20 transfers of tokenIn out of the wallet and of tokenOut into it
+export function parseReceiptAmounts(
+  logs: readonly { address: string; topics: readonly string[]; data: string }[],
+  wallet: string,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo
+): { amountIn?: number; amountOut?: number } {
+  let sent: bigint | undefined;
+  let received: bigint | undefined;
+  for (const log of logs) {
+    if (log.topics.length !== 3 || log.topics[0] !== TRANSFER_TOPIC) continue;
+    const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+    const value = BigInt(log.data);
+    if (sameAddress(log.address, tokenIn.address) && sameAddress(from, wallet)) {
+      sent = (sent || 0n) + value;
+    }
+    if (sameAddress(log.address, tokenOut.address) && sameAddress(to, wallet)) {
+      received = (received || 0n) + value;
+    }
+  }
+  return {
+    amountIn: sent === undefined ? undefined : Number(ethers.formatUnits(sent, tokenIn.decimals)),
+    amountOut: received === undefined ? undefined : Number(ethers.formatUnits(received, tokenOut.decimals)),
+  };
+}
+
+// Tracks each order from creation to a final state. With a provider, submitted transactions
+// are followed on chain until they have enough confirmations, revert, or are replaced or
+// dropped; without one, the venue's own fill report is final (Recall API and paper trading).
+export class OrderManager {
+  private orders = new Map<string, Order>();
+  private nextId = 1;
+
+  constructor(
+    private provider?: ConfirmationProvider,
+    private options: OrderManagerOptions = {
+      confirmations: config.orders.confirmations,
+      pollIntervalMs: config.orders.pollIntervalMs,
+      timeoutMs: config.orders.timeoutMs,
+    },
+    private clock: Clock = systemClock
+  ) {}
+
+  create(request: OrderRequest): Order {
+    const order: Order = {
+      ...request,
+      id: `order-${this.clock.now()}-${this.nextId++}`,
+      state: 'created',
+      history: [{ state: 'created', at: new Date(this.clock.now()) }],
+    };
+    this.orders.set(order.id, order);
+    this.prune();
+    audit('order', {
+      id: order.id,
+      symbol: order.symbol,
+      action: order.action,
+      amountIn: order.amountIn,
+      tokenIn: order.tokenIn.symbol,
+      tokenOut: order.tokenOut.symbol,
+      state: order.state,
+    });
+    return order;
+  }
+
+  // Record the venue's answer to the order; txHash is the venue's trade ID or an on-chain transaction hash
+  submit(
+    order: Order,
+    submission: { txHash: string; amountIn: number; amountOut: number; from?: string; nonce?: number }
+  ): Order {
+    order.txHash = submission.txHash;
+    order.from = submission.from;
+    order.nonce = submission.nonce;
+    order.reported = { amountIn: submission.amountIn, amountOut: submission.amountOut };
+    return this.transition(order, 'submitted');
+  }
+
+  fail(order: Order, error: string): Order {
+    order.error = error;
+    return this.transition(order, 'failed', error);
+  }
+
+  get(id: string): Order | undefined {
+    return this.orders.get(id);
+  }
+
+  // Orders that have not reached a final state
+  getOpenOrders(): Order[] {
+    return [...this.orders.values()].filter(order => !isFinalState(order.state));
+  }
+
+  // Follow a submitted order until it is confirmed, failed or dropped. Venues that settle
+  // off chain, like the Recall competition API, answer with their own trade ID instead of a
+  // transaction hash; those orders are settled from the venue's report.
+  async waitForFinal(order: Order): Promise<Order> {
+    if (!this.provider || !ethers.isHexString(order.txHash, 32)) {
+      order.fill = { ...order.reported!, source: 'venue' };
+      return this.transition(order, 'confirmed', 'reported filled by venue');
+    }
+
+    const startedAt = this.clock.now();
+    while (!isFinalState(order.state)) {
+      try {
+        await this.poll(order);
+      } catch (error) {
+        logger.warn(`Error polling order ${order.id} (${order.txHash}):`, error);
+      }
+      if (isFinalState(order.state)) break;
+      if (this.clock.now() - startedAt >= this.options.timeoutMs) {
+        order.error = `not mined within ${this.options.timeoutMs}ms`;
+        this.transition(order, 'dropped', order.error);
+        break;
+      }
+      await this.clock.sleep(this.options.pollIntervalMs);
+    }
+    return order;
+  }
+
+  // Check the order's transaction once and move it along. A receipt that disappears means
+  // its block was reorganized away and the transaction is pending again; reorgs deeper than
+  // the required confirmations are not detected.
+  private async poll(order: Order): Promise<void> {
+    const provider = this.provider!;
+    const receipt = await provider.getTransactionReceipt(order.txHash!);
+
+    if (receipt) {
+      if (receipt.status === 0) {
+        order.error = `reverted in block ${receipt.blockNumber}`;
+        this.transition(order, 'failed', order.error);
+        return;
+      }
+      order.blockNumber = receipt.blockNumber;
+      const confirmations = (await provider.getBlockNumber()) - receipt.blockNumber + 1;
+      if (confirmations < this.options.confirmations) {
+        this.transition(order, 'pending', `${confirmations}/${this.options.confirmations} confirmations`);
+        return;
+      }
+
+      const parsed = parseReceiptAmounts(receipt.logs, order.from || receipt.from, order.tokenIn, order.tokenOut);
+      order.fill = {
+        amountIn: parsed.amountIn ?? order.reported!.amountIn,
+        amountOut: parsed.amountOut ?? order.reported!.amountOut,
+        source: parsed.amountIn !== undefined && parsed.amountOut !== undefined ? 'receipt' : 'venue',
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+      };
+      this.transition(order, 'confirmed', `${confirmations} confirmations in block ${receipt.blockNumber}`);
+      return;
+    }
+
+    if (order.blockNumber !== undefined) {
+      logger.warn(`Receipt for ${order.txHash} in block ${order.blockNumber} disappeared, block was reorganized`);
+      order.blockNumber = undefined;
+    }
+
+    const transaction = await provider.getTransaction(order.txHash!);
+    if (transaction) {
+      order.from ??= transaction.from;
+      order.nonce ??= transaction.nonce;
+      this.transition(order, 'pending', 'in mempool');
+      return;
+    }
+
+    // Gone from the mempool: if its nonce has been used, another transaction replaced it
+    if (order.from && order.nonce !== undefined) {
+      const mined = await provider.getTransactionCount(order.from, 'latest');
+      if (mined > order.nonce) {
+        order.error = `replaced: nonce ${order.nonce} was used by another transaction`;
+        this.transition(order, 'dropped', order.error);
+      }
+    }
+  }
+
+  private prune(): void {
+    const finished = [...this.orders.values()].filter(order => isFinalState(order.state));
+    for (const order of finished.slice(0, Math.max(finished.length - MAX_FINISHED_ORDERS, 0))) {
+      this.orders.delete(order.id);
+    }
+  }
+
+  private transition(order: Order, state: OrderState, reason?: string): Order {
+    if (order.state === state) return order;
+    if (!ORDER_TRANSITIONS[order.state].includes(state)) {
+      throw new InvalidOrderTransitionError(order.id, order.state, state);
+    }
+
+    order.state = state;
+    order.history.push({ state, at: new Date(this.clock.now()), reason });
+    audit('order', {
+      id: order.id,
+      symbol: order.symbol,
+      action: order.action,
+      amountIn: order.amountIn,
+      state,
+      reason,
+      txHash: order.txHash,
+      fill: order.fill,
+    });
+    const message = `Order ${order.id} ${order.action} ${order.symbol} -> ${state}${reason ? ` (${reason})` : ''}`;
+    if (state === 'failed' || state === 'dropped') {
+      logger.warn(message, { txHash: order.txHash });
+    } else {
+      logger.info(message, { txHash: order.txHash });
+    }
+    return order;
+  }
+}
+
+// On-chain confirmation tracking needs live trading and an RPC_URL; otherwise venue reports are final
+export function createOrderManager(): OrderManager {
+  const provider =
+    config.trading.mode === 'live' && config.orders.rpcUrl ? new ethers.JsonRpcProvider(config.orders.rpcUrl) : undefined;
+  return new OrderManager(provider);
+}
+
+export const orderManager = createOrderManager();
@@ -0,0 +1,183 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import { AnyTradingEvent } from '../events/events';
+import { EventBus } from '../events/event-bus';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { PositionLedger } from '../portfolio/position-ledger';
+import { PriceOracle } from '../pricing/price-oracle';
+import { FakePriceSource } from '../pricing/testing';
+import { RiskManager } from '../risk/risk-manager';
+import { SimulatedExchange } from '../services/simulated-exchange';
+import { tokenRegistry } from '../tokens/token-registry';
+import { RecallNetworkTools } from '../tools/recall-tools';
+import { WalletSigner } from '../wallet/wallet-signer';
+import { TradeDecision } from '../workflows/trade-decision';
+import { ExecutionAlgorithm, TwapAlgorithm } from './algorithms';
+import { OrderManager } from './order-manager';
+import { TradeExecutor } from './trade-executor';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+const PRICES: Record<string, number> = {
+  [USDC.address.toLowerCase()]: 1,
+  [WETH.address.toLowerCase()]: 3000,
+};
+
+const BUY: TradeDecision = { execute: true, symbol: 'ETH/USDC', action: 'buy', positionSize: 900, reason: 'test buy', source: 'test' };
+
+describe('TradeExecutor', () => {
+  let exchange: SimulatedExchange;
+  let memory: TradingMemory;
+  let ledger: PositionLedger;
+  let events: AnyTradingEvent[];
+
+  beforeEach(() => {
+    exchange = new SimulatedExchange({
+      priceSource: async token => PRICES[token.toLowerCase()],
+      initialBalances: { [USDC.address]: 100_000 },
+    });
+    memory = new TradingMemory(new LocalMemoryStore());
+    ledger = new PositionLedger('fifo', '');
+    events = [];
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  function executor(
+    algorithm: ExecutionAlgorithm | null,
+    prices = new FakePriceSource().set('WETH', 3000).set('USDC', 1),
+    signer: () => Promise<WalletSigner | undefined> = async () => undefined
+  ): TradeExecutor {
+    const bus = new EventBus();
+    bus.onAny(event => events.push(event));
+    return new TradeExecutor(
+      new RecallNetworkTools(exchange),
+      memory,
+      new RiskManager(memory, false, ''),
+      ledger,
+      new OrderManager(),
+      signer,
+      new PriceOracle([prices], { maxAgeMs: 60_000, maxDeviationPercent: 1, minSources: 1, cacheTtlMs: 0 }),
+      algorithm,
+      bus
+    );
+  }
+
+  it('books each child fill in the ledger before the next child is sent', async () => {
+    const booked: number[] = [];
+    const executeTrade = exchange.executeTrade.bind(exchange);
+    jest.spyOn(exchange, 'executeTrade').mockImplementation(request => {
+      booked.push(ledger.getFills('ETH/USDC').length);
+      return executeTrade(request);
+    });
+
+    const result = await executor(new TwapAlgorithm({ slices: 3, durationMs: 0 })).execute(BUY);
+
+    expect(result.executed).toBe(true);
+    expect(booked).toEqual([0, 1, 2]);
+    const fills = ledger.getFills('ETH/USDC');
+    expect(fills.map(fill => fill.id)).toEqual(result.algorithm!.fills.map(fill => fill.txHash));
+    expect(fills.reduce((sum, fill) => sum + fill.quantity, 0)).toBeCloseTo(result.amountOut!, 12);
+    expect(ledger.getPosition('ETH/USDC')!.quantity).toBeCloseTo(result.amountOut!, 12);
+    expect(events.filter(event => event.type === 'order_submitted')).toHaveLength(3);
+    expect(events.filter(event => event.type === 'order_filled')).toHaveLength(1);
+
+    const [decision] = await memory.getRecentDecisions();
+    expect(decision.result).toMatchObject({ executed: true, algorithm: 'twap', amount: result.amountOut });
+  });
+
+  it('keeps the children that filled when a later child fails', async () => {
+    const executeTrade = exchange.executeTrade.bind(exchange);
+    let calls = 0;
+    jest.spyOn(exchange, 'executeTrade').mockImplementation(request => {
+      if (++calls === 3) return Promise.reject(new Error('venue unavailable'));
+      return executeTrade(request);
+    });
+
+    const result = await executor(new TwapAlgorithm({ slices: 3, durationMs: 0 })).execute(BUY);
+
+    expect(result.algorithm!.completed).toBe(false);
+    expect(result.algorithm!.abortReason).toContain('venue unavailable');
+    expect(ledger.getFills('ETH/USDC')).toHaveLength(2);
+    expect(ledger.getPosition('ETH/USDC')!.quantity).toBeCloseTo(result.algorithm!.amountOut, 12);
+  });
+
+  it('books a fill in the ledger before recording it in memory', async () => {
+    let bookedFirst: boolean | undefined;
+    const update = memory.updateTradingDecision.bind(memory);
+    jest.spyOn(memory, 'updateTradingDecision').mockImplementation((key, outcome) => {
+      bookedFirst = ledger.getFills('ETH/USDC').length === 1;
+      return update(key, outcome);
+    });
+
+    const result = await executor(null).execute(BUY);
+
+    expect(result.executed).toBe(true);
+    expect(bookedFirst).toBe(true);
+  });
+
+  it('still reports a trade the venue filled when memory cannot be written', async () => {
+    jest.spyOn(memory, 'storeTradingDecision').mockRejectedValue(new Error('disk full'));
+
+    const result = await executor(null).execute(BUY);
+
+    expect(result).toMatchObject({ executed: true, orderState: 'confirmed' });
+    expect(ledger.getFills('ETH/USDC')).toHaveLength(1);
+    const failures = events.filter(event => event.type === 'memory_write_failed');
+    expect(failures).toHaveLength(2);
+    expect(failures[0].data).toEqual({ symbol: 'ETH/USDC', orderId: result.orderId, error: 'disk full' });
+    expect(events.filter(event => event.type === 'order_filled')).toHaveLength(1);
+  });
+
+  it('vetoes a buy the oracle cannot value before quoting it', async () => {
+    const quote = jest.spyOn(exchange, 'getQuote');
+
+    const result = await executor(null, new FakePriceSource().set('WETH', 3000)).execute(BUY);
+
+    expect(result).toMatchObject({ executed: false, reason: 'Risk veto: NO_PRICE' });
+    expect(quote).not.toHaveBeenCalled();
+  });
+
+  it('sells the ledger position, never more than the venue holds', async () => {
+    exchange = new SimulatedExchange({
+      priceSource: async token => PRICES[token.toLowerCase()],
+      initialBalances: { [USDC.address]: 100_000, [WETH.address]: 3 },
+    });
+    ledger.recordFill({ id: 'earlier', timestamp: new Date(), symbol: 'WETH/USDC', side: 'buy', quantity: 0.25, price: 3000 });
+    const sell: TradeDecision = { execute: true, symbol: 'ETH/USDC', action: 'sell', closeFraction: 0.5, reason: 'test sell', source: 'test' };
+
+    const half = await executor(null).execute(sell);
+    expect(half).toMatchObject({ executed: true, amountIn: '0.125' });
+
+    ledger.recordFill({ id: 'untracked', timestamp: new Date(), symbol: 'ETH/USDC', side: 'buy', quantity: 5, price: 3000 });
+    const all = await executor(null).execute({ ...sell, closeFraction: 1 });
+    expect(all).toMatchObject({ executed: true, amountIn: '2.875' });
+  });
+
+  it('approves nothing for a swap the venue sends', async () => {
+    const wallet = { address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266', ensureAllowance: jest.fn(), sendSwap: jest.fn() };
+    const orders = jest.spyOn(OrderManager.prototype, 'submit');
+
+    const result = await executor(null, undefined, async () => wallet as unknown as WalletSigner).execute(BUY);
+
+    expect(result.executed).toBe(true);
+    expect(wallet.ensureAllowance).not.toHaveBeenCalled();
+    expect(wallet.sendSwap).not.toHaveBeenCalled();
+    expect(orders).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ from: wallet.address }));
+  });
+
+  it('refuses to sell without an open ledger position', async () => {
+    const result = await executor(null).execute({ execute: true, symbol: 'ETH/USDC', action: 'sell', reason: 'test sell' });
+
+    expect(result).toMatchObject({ executed: false, reason: 'No open ETH/USDC position to sell' });
+  });
+});
@@ -0,0 +1,552 @@
+import { config } from '../config';
+import { PortfolioBalance, RecallNetworkTools, TokenBalance, TradeExecutionResult, recallTools } from '../tools/recall-tools';
+import { TradingMemory, TradingMemoryEntry, tradingMemory } from '../memory/trading-memory';
+import { RiskManager, RiskVeto, riskManager } from '../risk/risk-manager';
+import { PositionLedger, positionLedger } from '../portfolio/position-ledger';
+import { TokenInfo, formatTokenAmount, sameAddress, tokenRegistry } from '../tokens/token-registry';
+import { TradeDecision } from '../workflows/trade-decision';
+import { Order, OrderManager, OrderState, orderManager } from './order-manager';
+import { AlgorithmResult, ChildFill, ExecutionAlgorithm, SliceVenue, createExecutionAlgorithm } from './algorithms';
+import { WalletSigner, createWalletSigner } from '../wallet/wallet-signer';
+import { PriceOracle, PriceOracleError, createPriceOracle } from '../pricing/price-oracle';
+import { systemClock } from '../scheduler/clock';
+import { audit } from '../audit/audit-trail';
+import { EventBus, eventBus } from '../events/event-bus';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('trade-executor.log');
+
+// Quotes with a higher price impact (in percent) are not executed
+export const MAX_PRICE_IMPACT = 1.5;
+
+export interface ExecutionResult {
+  executed: boolean;
+  action?: 'buy' | 'sell';
+  reason?: string;
+  error?: string;
+  txHash?: string;
+  amountIn?: string;
+  amountOut?: number;
+  estimatedAmountOut?: number;
+  priceImpact?: number;
+  price?: number; // Fill price in quote asset per base asset
+  referencePrice?: number; // Oracle price the quote was checked against
+  realizedPnl?: number;
+  vetoes?: RiskVeto[];
+  orderId?: string;
+  orderState?: OrderState;
+  algorithm?: AlgorithmResult; // Child fills and slippage when the order was worked by an algorithm
+}
+
+// An execution that has started and not yet returned
+export interface PendingOrder {
+  id: number;
+  symbol: string;
+  action?: 'buy' | 'sell';
+  source?: string;
+  startedAt: Date;
+}
+
+function findHolding(portfolio: PortfolioBalance, token: TokenInfo): TokenBalance | undefined {
+  return portfolio.tokens.find(balance => sameAddress(balance.token, token.address));
+}
+
+export class TradeExecutor {
+  private pending = new Map<number, { order: PendingOrder; done: Promise<unknown> }>();
+  private nextOrderId = 1;
+  private draining = false;
+  private runs = new Set<AbortController>();
+
+  constructor(
+    private recall: RecallNetworkTools = recallTools,
+    private memory: TradingMemory = tradingMemory,
+    private risk: RiskManager = riskManager,
+    private ledger: PositionLedger = positionLedger,
+    private orders: OrderManager = orderManager,
+    private signer: () => Promise<WalletSigner | undefined> = createWalletSigner,
+    private oracle: PriceOracle = createPriceOracle(),
+    private algorithm: ExecutionAlgorithm | null = createExecutionAlgorithm(),
+    private events: EventBus = eventBus
+  ) {}
+
+  // Execute a buy or sell decision for a BASE/QUOTE pair
+  async execute(decision: TradeDecision): Promise<ExecutionResult> {
+    if (!decision.execute || this.draining) {
+      const result: ExecutionResult = decision.execute
+        ? { executed: false, action: decision.action, reason: 'Shutting down, not accepting new orders' }
+        : { executed: false, reason: decision.reason };
+      this.publishResult(decision, result);
+      return result;
+    }
+
+    const order: PendingOrder = {
+      id: this.nextOrderId++,
+      symbol: decision.symbol,
+      action: decision.action,
+      source: decision.source,
+      startedAt: new Date(),
+    };
+    const done = this.executeDecision(decision);
+    this.pending.set(order.id, { order, done });
+    try {
+      const result = await done;
+      audit('execution', { decision, result });
+      this.publishResult(decision, result);
+      return result;
+    } finally {
+      this.pending.delete(order.id);
+    }
+  }
+
+  getPendingOrders(): PendingOrder[] {
+    return [...this.pending.values()].map(({ order }) => ({ ...order }));
+  }
+
+  // Stop accepting orders and wait for executions in progress to finish; algorithms stop
+  // before their next child. Returns false if some were still running after timeoutMs.
+  async drain(timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+    this.runs.forEach(run => run.abort(new Error('shutting down')));
+    if (this.pending.size === 0) return true;
+    logger.info(`Waiting for ${this.pending.size} executions in progress`);
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const settled = Promise.allSettled([...this.pending.values()].map(({ done }) => done)).then(() => true);
+    const drained = await Promise.race([settled, timedOut]);
+    clearTimeout(timer);
+    return drained;
+  }
+
+  // Fills and orders that failed after reaching the venue are order events; anything refused
+  // before an order was placed is a skipped trade
+  private publishResult(decision: TradeDecision, result: ExecutionResult): void {
+    const { symbol, source } = decision;
+    if (result.executed) {
+      this.events.emit('order_filled', {
+        symbol,
+        action: result.action!,
+        amountIn: result.amountIn,
+        amountOut: result.amountOut,
+        price: result.price,
+        txHash: result.txHash,
+        realizedPnl: result.realizedPnl,
+        source,
+      });
+    } else if (result.orderId || result.error) {
+      this.events.emit('order_failed', {
+        symbol,
+        action: result.action,
+        reason: result.error || result.reason || `order ${result.orderState}`,
+        orderId: result.orderId,
+        source,
+      });
+    } else {
+      this.events.emit('trade_skipped', { symbol, source, reason: result.reason || 'not executed' });
+    }
+  }
+
+  private async executeDecision(decision: TradeDecision): Promise<ExecutionResult> {
+    try {
+      const { base, quote } = tokenRegistry.resolvePair(decision.symbol);
+      const portfolio: PortfolioBalance = await this.recall.getPortfolioBalance.execute({});
+
+      let tokenIn: TokenInfo;
+      let tokenOut: TokenInfo;
+      let amountIn: string;
+      if (decision.action === 'buy') {
+        // 99% of position size to account for fees
+        amountIn = formatTokenAmount((decision.positionSize || 0) * 0.99, quote.decimals);
+        [tokenIn, tokenOut] = [quote, base];
+      } else if (decision.action === 'sell') {
+        // Exits sell from the ledger's position in the pair, never more than the venue holds
+        const open = this.ledger.getPosition(decision.symbol)?.quantity || 0;
+        const held = Math.min(open, findHolding(portfolio, base)?.amount || 0);
+        const fraction = Math.min(Math.max(decision.closeFraction ?? 1, 0), 1);
+        amountIn = formatTokenAmount(held * fraction, base.decimals);
+        if (Number(amountIn) <= 0) {
+          const reason = open > 0 ? `No ${base.symbol} balance to sell` : `No open ${decision.symbol} position to sell`;
+          return { executed: false, action: 'sell', reason };
+        }
+        [tokenIn, tokenOut] = [base, quote];
+      } else {
+        return { executed: false, reason: `Unsupported action: ${decision.action}` };
+      }
+
+      // Every order passes the risk manager before it is quoted, valued at the oracle price
+      const notional = await this.valueInUsd(decision.symbol, tokenIn, Number(amountIn));
+      const risk = await this.risk.checkOrder(
+        {
+          symbol: decision.symbol,
+          action: decision.action,
+          token: base,
+          notional,
+          strategy: decision.strategy,
+          source: decision.source,
+        },
+        portfolio
+      );
+      audit('risk_check', { symbol: decision.symbol, action: decision.action, notional, approved: risk.approved, vetoes: risk.vetoes });
+      if (!risk.approved) {
+        return {
+          executed: false,
+          action: decision.action,
+          reason: `Risk veto: ${risk.vetoes.map(veto => veto.code).join(', ')}`,
+          vetoes: risk.vetoes,
+        };
+      }
+
+      if (this.algorithm && notional !== undefined && notional >= config.execution.minNotionalUsd) {
+        return await this.workOrder(this.algorithm, decision, tokenIn, tokenOut, amountIn);
+      }
+      return await this.swap(decision, tokenIn, tokenOut, amountIn);
+    } catch (error) {
+      logger.error('Error executing trade:', error);
+      return {
+        executed: false,
+        action: decision.action,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // USD value of an amount of a token, or undefined when the oracle has no agreed price for it
+  private async valueInUsd(symbol: string, token: TokenInfo, amount: number): Promise<number | undefined> {
+    try {
+      return amount * (await this.oracle.getPrice(token)).price;
+    } catch (error) {
+      if (!(error instanceof PriceOracleError)) throw error;
+      audit('price_check', { symbol, error: error.message, code: error.code });
+      return undefined;
+    }
+  }
+
+  private async swap(
+    decision: TradeDecision,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string
+  ): Promise<ExecutionResult> {
+    const action = decision.action as 'buy' | 'sell';
+
+    const quote = await this.recall.getTradeQuote.execute({
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountIn,
+    });
+
+    // Execute trade only if price impact is reasonable
+    if (quote.priceImpact >= MAX_PRICE_IMPACT) {
+      return {
+        executed: false,
+        action,
+        reason: `Price impact too high: ${quote.priceImpact}%`,
+      };
+    }
+
+    // Cross-check the quote against the oracle; no trade without an agreed reference price
+    let referencePrice: number;
+    try {
+      referencePrice = await this.oracle.getPairPrice(decision.symbol);
+      audit('price_check', { symbol: decision.symbol, price: referencePrice });
+    } catch (error) {
+      if (!(error instanceof PriceOracleError)) throw error;
+      audit('price_check', { symbol: decision.symbol, error: error.message, code: error.code });
+      return { executed: false, action, reason: `Price check failed: ${error.message}` };
+    }
+    const expectedOut = action === 'buy' ? Number(amountIn) / referencePrice : Number(amountIn) * referencePrice;
+    const shortfall = ((expectedOut - quote.amountOut) / expectedOut) * 100;
+    if (shortfall > config.oracle.maxQuoteDeviationPercent) {
+      return {
+        executed: false,
+        action,
+        referencePrice,
+        reason: `Quote of ${quote.amountOut} ${tokenOut.symbol} is ${shortfall.toFixed(2)}% below the oracle price`,
+      };
+    }
+
+    const { order, trade } = await this.placeOrder(decision, tokenIn, tokenOut, amountIn);
+
+    // Record the order as submitted, then fill in the outcome once it is final
+    const entry: TradingMemoryEntry = {
+      timestamp: new Date(),
+      symbol: decision.symbol,
+      action,
+      signal: decision.signal,
+      decision: decision.agentDecision,
+      strategy: decision.strategy || config.risk.strategy,
+      result: {
+        executed: false,
+        orderId: order.id,
+        orderState: order.state,
+        txHash: trade.txHash,
+        quotedAmountOut: quote.amountOut,
+      },
+      notes: decision.reason,
+    };
+    const memoryKey = await this.remember(order.symbol, order.id, () => this.memory.storeTradingDecision(entry));
+
+    await this.orders.waitForFinal(order);
+    if (order.state !== 'confirmed') {
+      await this.rememberOutcome(order, entry, memoryKey, { executed: false, orderState: order.state, error: order.error });
+      return {
+        executed: false,
+        action,
+        txHash: trade.txHash,
+        orderId: order.id,
+        orderState: order.state,
+        error: `Order ${order.state}: ${order.error}`,
+      };
+    }
+
+    // Quote asset per base asset, whichever direction the swap went
+    const fill = order.fill!;
+    const price = action === 'buy' ? fill.amountIn / fill.amountOut : fill.amountOut / fill.amountIn;
+    const baseAmount = action === 'buy' ? fill.amountOut : fill.amountIn;
+    const openedAt = this.ledger.getPosition(decision.symbol)?.openedAt;
+
+    // The ledger is the record of what we hold, so the fill goes there before anything else
+    const { realizedPnl } = this.ledger.recordFill({
+      id: trade.txHash,
+      timestamp: trade.timestamp,
+      symbol: decision.symbol,
+      side: action,
+      quantity: baseAmount,
+      price,
+      stopLoss: decision.signal?.stopLoss,
+      takeProfit: decision.signal?.targetPrice,
+    });
+
+    await this.rememberOutcome(order, entry, memoryKey, {
+      executed: true,
+      orderState: order.state,
+      price,
+      amount: baseAmount,
+      notional: action === 'buy' ? fill.amountIn : fill.amountOut,
+      profit: action === 'sell' ? realizedPnl : undefined,
+      amountOut: fill.amountOut,
+      holdingTimeMs: action === 'sell' && openedAt ? trade.timestamp.getTime() - openedAt.getTime() : undefined,
+    });
+
+    logger.info(`Executed ${action} ${decision.symbol}: ${fill.amountIn} ${tokenIn.symbol} -> ${fill.amountOut} ${tokenOut.symbol}`);
+
+    return {
+      executed: true,
+      action,
+      txHash: trade.txHash,
+      amountIn,
+      amountOut: fill.amountOut,
+      estimatedAmountOut: quote.amountOut,
+      priceImpact: quote.priceImpact,
+      price,
+      referencePrice,
+      realizedPnl: action === 'sell' ? realizedPnl : undefined,
+      orderId: order.id,
+      orderState: order.state,
+    };
+  }
+
+  // Create an order and hand its swap to the venue; the order fails if the venue refuses it
+  private async placeOrder(
+    decision: TradeDecision,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string
+  ): Promise<{ order: Order; trade: TradeExecutionResult }> {
+    const order = this.orders.create({ symbol: decision.symbol, action: decision.action!, tokenIn, tokenOut, amountIn });
+    let trade: TradeExecutionResult;
+    let wallet: WalletSigner | undefined;
+    try {
+      // The venue sends the swap, so the wallet approves nothing here; its address lets the
+      // order manager read the fill from a receipt. Paper trading has no wallet.
+      wallet = await this.signer();
+      trade = await this.recall.executeTrade.execute({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountIn,
+        slippageTolerance: config.trading.maxSlippage,
+        reason: decision.reason,
+      });
+    } catch (error) {
+      this.orders.fail(order, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+    this.orders.submit(order, {
+      txHash: trade.txHash,
+      amountIn: trade.amountIn,
+      amountOut: trade.amountOut,
+      from: wallet?.address,
+    });
+    this.events.emit('order_submitted', {
+      symbol: order.symbol,
+      action: order.action,
+      orderId: order.id,
+      amountIn,
+      txHash: trade.txHash,
+      source: decision.source,
+    });
+    return { order, trade };
+  }
+
+  // Memory holds the trade history the agent learns from, but the order has already reached the
+  // venue: a failed write is logged and published instead of failing the execution
+  private async remember<T>(symbol: string, orderId: string | undefined, write: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await write();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error saving ${orderId ? `order ${orderId}` : 'trade'} for ${symbol} to memory: ${message}`);
+      this.events.emit('memory_write_failed', { symbol, orderId, error: message });
+      return undefined;
+    }
+  }
+
+  // Merge a final outcome into the stored decision, or store it whole if the first write failed
+  private async rememberOutcome(
+    order: Order,
+    entry: TradingMemoryEntry,
+    memoryKey: string | undefined,
+    outcome: TradingMemoryEntry['result']
+  ): Promise<void> {
+    await this.remember<unknown>(order.symbol, order.id, () =>
+      memoryKey
+        ? this.memory.updateTradingDecision(memoryKey, { result: outcome })
+        : this.memory.storeTradingDecision({ ...entry, result: { ...entry.result!, ...outcome } })
+    );
+  }
+
+  // Work an order as child swaps through an execution algorithm. Each child is tracked to a
+  // final state like a single swap and booked in the ledger once it confirms; the combined
+  // fill is reported once the algorithm stops.
+  private async workOrder(
+    algorithm: ExecutionAlgorithm,
+    decision: TradeDecision,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: string
+  ): Promise<ExecutionResult> {
+    const action = decision.action as 'buy' | 'sell';
+
+    // The oracle price on arrival is what slippage is measured against
+    let arrivalPrice: number;
+    try {
+      arrivalPrice = await this.oracle.getPairPrice(decision.symbol);
+      audit('price_check', { symbol: decision.symbol, price: arrivalPrice });
+    } catch (error) {
+      if (!(error instanceof PriceOracleError)) throw error;
+      audit('price_check', { symbol: decision.symbol, error: error.message, code: error.code });
+      return { executed: false, action, reason: `Price check failed: ${error.message}` };
+    }
+
+    const venue: SliceVenue = {
+      quote: (childIn, childOut, childAmount) =>
+        this.recall.getTradeQuote.execute({ tokenIn: childIn.address, tokenOut: childOut.address, amountIn: childAmount }),
+      swap: async (childIn, childOut, childAmount) => {
+        if (this.risk.isKillSwitchEngaged()) {
+          throw new Error('kill switch engaged');
+        }
+        const { order, trade } = await this.placeOrder(decision, childIn, childOut, childAmount);
+        await this.orders.waitForFinal(order);
+        if (order.state !== 'confirmed') {
+          throw new Error(`order ${order.id} ${order.state}: ${order.error}`);
+        }
+        return { txHash: trade.txHash, amountIn: order.fill!.amountIn, amountOut: order.fill!.amountOut, timestamp: trade.timestamp };
+      },
+    };
+
+    // Each child goes to the ledger as soon as it settles, so an order cut short by a crash
+    // leaves the ledger matching what the venue filled
+    const openedAt = this.ledger.getPosition(decision.symbol)?.openedAt;
+    let realizedPnl = 0;
+    const onFill = (fill: ChildFill) => {
+      const booked = this.ledger.recordFill({
+        id: fill.txHash,
+        timestamp: fill.timestamp,
+        symbol: decision.symbol,
+        side: action,
+        quantity: action === 'buy' ? fill.amountOut : fill.amountIn,
+        price: action === 'buy' ? fill.amountIn / fill.amountOut : fill.amountOut / fill.amountIn,
+        stopLoss: decision.signal?.stopLoss,
+        takeProfit: decision.signal?.targetPrice,
+      });
+      realizedPnl += booked.realizedPnl;
+    };
+
+    const run = new AbortController();
+    this.runs.add(run);
+    let result: AlgorithmResult;
+    try {
+      result = await algorithm.run(
+        { symbol: decision.symbol, action, tokenIn, tokenOut, amountIn: Number(amountIn), arrivalPrice },
+        {
+          venue,
+          clock: systemClock,
+          limits: { maxPriceImpact: MAX_PRICE_IMPACT, maxDriftPercent: config.oracle.maxQuoteDeviationPercent },
+          signal: run.signal,
+          onFill,
+        }
+      );
+    } finally {
+      this.runs.delete(run);
+    }
+
+    if (result.fills.length === 0) {
+      return {
+        executed: false,
+        action,
+        referencePrice: arrivalPrice,
+        algorithm: result,
+        reason: `${algorithm.name} stopped before any fill: ${result.abortReason}`,
+      };
+    }
+
+    const price = result.averagePrice!;
+    const baseAmount = action === 'buy' ? result.amountOut : result.amountIn;
+    const lastFill = result.fills[result.fills.length - 1];
+
+    // Memory gets the combined fill as one trade
+    await this.remember(decision.symbol, undefined, () => this.memory.storeTradingDecision({
+      timestamp: new Date(),
+      symbol: decision.symbol,
+      action,
+      signal: decision.signal,
+      decision: decision.agentDecision,
+      strategy: decision.strategy || config.risk.strategy,
+      result: {
+        executed: true,
+        price,
+        amount: baseAmount,
+        notional: action === 'buy' ? result.amountIn : result.amountOut,
+        profit: action === 'sell' ? realizedPnl : undefined,
+        amountOut: result.amountOut,
+        holdingTimeMs: action === 'sell' && openedAt ? lastFill.timestamp.getTime() - openedAt.getTime() : undefined,
+        txHash: lastFill.txHash,
+        algorithm: algorithm.name,
+        slippagePercent: result.slippagePercent,
+        error: result.abortReason,
+      },
+      notes: decision.reason,
+    }));
+
+    logger.info(
+      `Worked ${action} ${decision.symbol} with ${algorithm.name}: ${result.fills.length} children, ` +
+        `average ${price} vs arrival ${arrivalPrice} (${result.slippagePercent!.toFixed(3)}% slippage)` +
+        (result.completed ? '' : `, stopped early: ${result.abortReason}`)
+    );
+
+    return {
+      executed: true,
+      action,
+      txHash: lastFill.txHash,
+      amountIn: formatTokenAmount(result.amountIn, tokenIn.decimals),
+      amountOut: result.amountOut,
+      price,
+      referencePrice: arrivalPrice,
+      realizedPnl: action === 'sell' ? realizedPnl : undefined,
+      algorithm: result,
+    };
+  }
+}
+
+export const tradeExecutor = new TradeExecutor();
@@ -1,41 +1,41 @@
 import { SlothfulTrader } from './agent';
+import { ControlServer } from './api/control-server';
 import { config } from './config';
-import winston from 'winston';
+import { createModuleLogger } from './logging/logger';
 
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.json()
-  ),
-  transports: [
-    new winston.transports.File({ filename: 'slothfultrader.log' }),
-    new winston.transports.Console({
-      format: winston.format.simple(),
-    }),
-  ],
-});
+const logger = createModuleLogger('slothfultrader.log', { timestamps: true });
 
 // Create and start the SlothfulTrader agent
-async function startSlothfulTrader() {
+export async function startSlothfulTrader() {
   logger.info('Starting SlothfulTrader...');
   
   try {
     const trader = new SlothfulTrader();
+    // Optional HTTP control API; created first so a missing token stops startup before any trading
+    const controlServer = config.api.port > 0 ? new ControlServer(trader) : undefined;
     await trader.start();
+    await controlServer?.start();
     
-    // Handle process termination
-    process.on('SIGINT', async () => {
-      logger.info('Received SIGINT, shutting down...');
-      await trader.stop();
-      process.exit(0);
-    });
-    
-    process.on('SIGTERM', async () => {
-      logger.info('Received SIGTERM, shutting down...');
-      await trader.stop();
-      process.exit(0);
-    });
+    // Drain trades and checkpoint state before exiting; a second signal exits immediately
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) {
+        logger.warn(`Received ${signal} again, exiting without waiting`);
+        process.exit(1);
+      }
+      shuttingDown = true;
+      logger.info(`Received ${signal}, shutting down...`);
+      try {
+        await controlServer?.stop();
+        await trader.stop();
+        process.exit(0);
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      }
+    };
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
     
     logger.info('SlothfulTrader is running');
   } catch (error) {
@@ -45,4 +45,6 @@ async function startSlothfulTrader() {
 }
 
 // Start the agent
-startSlothfulTrader();
+if (require.main === module) {
+  startSlothfulTrader();
+}
@@ -0,0 +1,21 @@
+import { PositionLedger } from '../portfolio/position-ledger';
+import { comparePositions } from './checkpoint';
+
+describe('comparePositions', () => {
+  it('matches checkpoint and ledger positions by their tokens', () => {
+    const ledger = new PositionLedger('fifo', '');
+    ledger.recordFill({ id: '1', timestamp: new Date(), symbol: 'WETH/USDC', side: 'buy', quantity: 1, price: 3000 });
+    ledger.recordFill({ id: '2', timestamp: new Date(), symbol: 'WBTC/USDC', side: 'buy', quantity: 0.5, price: 60_000 });
+
+    const checkpoint = [
+      { symbol: 'ETH/USDC', quantity: 1, averageCost: 3000 },
+      { symbol: 'WBTC/USDC', quantity: 0.2, averageCost: 60_000 },
+      { symbol: 'LINK/USDC', quantity: 10, averageCost: 15 },
+    ];
+
+    expect(comparePositions(checkpoint, ledger.getOpenPositions())).toEqual([
+      { symbol: 'WBTC/USDC', checkpointQuantity: 0.2, ledgerQuantity: 0.5 },
+      { symbol: 'LINK/USDC', checkpointQuantity: 10, ledgerQuantity: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import { config } from '../config';
+import { PendingOrder } from '../execution/trade-executor';
+import { Position, positionKey } from '../portfolio/position-ledger';
+import { PairCheckpoint } from '../scheduler/scheduler';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('lifecycle.log');
+
+export const CHECKPOINT_VERSION = 1;
+
+export interface CheckpointPosition {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+}
+
+// Agent state written on shutdown and restored on the next start
+export interface AgentCheckpoint {
+  version: number;
+  savedAt: Date;
+  paused: boolean;
+  schedule: PairCheckpoint[];
+  positions: CheckpointPosition[];
+  pendingOrders: PendingOrder[]; // Executions still running when shutdown gave up waiting
+}
+
+export interface PositionDrift {
+  symbol: string;
+  checkpointQuantity: number;
+  ledgerQuantity: number;
+}
+
+export function toCheckpointPositions(positions: Position[]): CheckpointPosition[] {
+  return positions.map(({ symbol, quantity, averageCost }) => ({ symbol, quantity, averageCost }));
+}
+
+// Positions whose quantity changed between the checkpoint and the ledger replayed on startup,
+// matched by token addresses like the ledger's own positions
+export function comparePositions(
+  checkpoint: CheckpointPosition[],
+  ledger: Position[],
+  tolerance: number = 1e-9
+): PositionDrift[] {
+  const symbols = new Map<string, string>();
+  [...checkpoint, ...ledger].forEach(position => symbols.set(positionKey(position.symbol), position.symbol));
+  const quantity = (positions: CheckpointPosition[], key: string) =>
+    positions.find(position => positionKey(position.symbol) === key)?.quantity || 0;
+  return [...symbols]
+    .map(([key, symbol]) => ({
+      symbol,
+      checkpointQuantity: quantity(checkpoint, key),
+      ledgerQuantity: quantity(ledger, key),
+    }))
+    .filter(drift => Math.abs(drift.checkpointQuantity - drift.ledgerQuantity) > tolerance);
+}
+
+// Single JSON file holding the latest checkpoint, replaced atomically on save
+export class CheckpointStore {
+  constructor(private filePath: string = config.lifecycle.checkpointFile) {} // Empty string disables checkpoints
+
+  save(checkpoint: AgentCheckpoint): void {
+    if (!this.filePath) return;
+    try {
+      const tempFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(checkpoint, null, 2));
+      fs.renameSync(tempFile, this.filePath);
+      logger.info(`Saved checkpoint to ${this.filePath}`, {
+        pairs: checkpoint.schedule.length,
+        positions: checkpoint.positions.length,
+        pendingOrders: checkpoint.pendingOrders.length,
+      });
+    } catch (error) {
+      logger.error('Error saving checkpoint:', error);
+      throw new Error(`Failed to save checkpoint: ${error}`);
+    }
+  }
+
+  // The last saved checkpoint, or undefined when there is none
+  load(): AgentCheckpoint | undefined {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return undefined;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (raw.version !== CHECKPOINT_VERSION) {
+        throw new Error(`unsupported checkpoint version ${raw.version}`);
+      }
+      return {
+        version: raw.version,
+        savedAt: new Date(raw.savedAt),
+        paused: raw.paused === true,
+        schedule: raw.schedule || [],
+        positions: raw.positions || [],
+        pendingOrders: (raw.pendingOrders || []).map((order: any) => ({ ...order, startedAt: new Date(order.startedAt) })),
+      };
+    } catch (error) {
+      logger.error(`Error loading checkpoint ${this.filePath}:`, error);
+      throw new Error(`Failed to load checkpoint: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { FallbackModel } from './fallback-model';
+import { AllProvidersFailedError, ModelError, ModelUsageTracker, parsePricing, pricingFor } from './model-provider';
+import { ScriptedModel } from './providers';
+
+const PRICING = { 'scripted-pro': { input: 10, output: 20 } };
+
+describe('ScriptedModel', () => {
+  it('replays its replies in order and then runs out', async () => {
+    const model = new ScriptedModel(['first', request => `echo: ${request.prompt}`]);
+
+    await expect(model.generate({ prompt: 'a' })).resolves.toMatchObject({ text: 'first', provider: 'scripted' });
+    await expect(model.generate({ prompt: 'b' })).resolves.toMatchObject({ text: 'echo: b' });
+    await expect(model.generate({ prompt: 'c' })).rejects.toMatchObject({ code: 'exhausted' });
+    expect(model.requests.map(request => request.prompt)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('starts over when looping', async () => {
+    const model = new ScriptedModel(['one', 'two'], 'scripted', true);
+    const texts: string[] = [];
+
+    for (let i = 0; i < 3; i++) texts.push((await model.generate({ prompt: 'p' })).text);
+
+    expect(texts).toEqual(['one', 'two', 'one']);
+  });
+
+  it('estimates tokens at four characters each', async () => {
+    const model = new ScriptedModel(['12345678']);
+
+    const response = await model.generate({ system: 'abcd', prompt: 'efghi' });
+
+    expect(response.usage).toEqual({ inputTokens: 3, outputTokens: 2 });
+  });
+});
+
+describe('FallbackModel', () => {
+  let usage: ModelUsageTracker;
+
+  beforeEach(() => {
+    usage = new ModelUsageTracker();
+  });
+
+  it('answers from the first provider that succeeds and prices its tokens', async () => {
+    const primary = new ScriptedModel(['x'.repeat(400)], 'scripted-pro');
+    const backup = new ScriptedModel(['unused']);
+    const model = new FallbackModel([primary, backup], { timeoutMs: 1000, pricing: PRICING }, usage);
+
+    const response = await model.generate({ prompt: 'y'.repeat(4000) });
+
+    expect(response.text).toBe('x'.repeat(400));
+    // 1000 input tokens at $10/M and 100 output tokens at $20/M
+    expect(response.costUsd).toBeCloseTo(0.012, 10);
+    expect(backup.requests).toHaveLength(0);
+    expect(usage.getSummary().total).toMatchObject({ calls: 1, failures: 0, inputTokens: 1000, outputTokens: 100 });
+  });
+
+  it('falls back in order when a provider fails', async () => {
+    const failing = new ScriptedModel([new ModelError('rate limited', 'rate_limited', 'openai', 429)]);
+    const backup = new ScriptedModel(['from backup'], 'backup');
+    const model = new FallbackModel([failing, backup], { timeoutMs: 1000, pricing: PRICING }, usage);
+
+    const response = await model.generate({ prompt: 'hello' });
+
+    expect(response).toMatchObject({ text: 'from backup', model: 'backup' });
+    const summary = usage.getSummary();
+    expect(summary.total).toMatchObject({ calls: 2, failures: 1 });
+    expect(summary.recent.map(call => [call.model, call.ok, call.error])).toEqual([
+      ['scripted', false, 'rate limited'],
+      ['backup', true, undefined],
+    ]);
+  });
+
+  it('moves on from a provider that does not answer in time', async () => {
+    const slow = new ScriptedModel([{ text: 'too late', delayMs: 10_000 }], 'slow');
+    const backup = new ScriptedModel(['in time']);
+    const model = new FallbackModel([slow, backup], { timeoutMs: 20, pricing: PRICING }, usage);
+
+    const response = await model.generate({ prompt: 'hello' });
+
+    expect(response.text).toBe('in time');
+    expect(usage.getSummary().recent[0]).toMatchObject({ model: 'slow', ok: false, error: 'no answer within 20ms' });
+  });
+
+  it('lists every failure when no provider answers', async () => {
+    const model = new FallbackModel(
+      [new ScriptedModel([new Error('boom')], 'first'), new ScriptedModel([], 'second')],
+      { timeoutMs: 1000, pricing: PRICING },
+      usage
+    );
+
+    const error = await model.generate({ prompt: 'hello' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+    expect(error.errors.map((failure: ModelError) => failure.code)).toEqual(['network_error', 'exhausted']);
+    expect(error.message).toContain('scripted: scripted request failed: Error: boom');
+  });
+
+  it('needs at least one provider', () => {
+    expect(() => new FallbackModel([], { timeoutMs: 1000, pricing: PRICING }, usage)).toThrow('At least one model provider is required');
+  });
+});
+
+describe('model pricing', () => {
+  it('parses LLM_PRICING and matches the longest model prefix', () => {
+    const pricing = parsePricing('gpt-4o=2.5/10, gpt-4o-mini=0.15/0.6');
+
+    expect(pricingFor('gpt-4o-mini-2024-07-18', pricing)).toEqual({ input: 0.15, output: 0.6 });
+    expect(pricingFor('gpt-4o-2024-08-06', pricing)).toEqual({ input: 2.5, output: 10 });
+    expect(pricingFor('llama3.1', pricing)).toEqual({ input: 0, output: 0 });
+    expect(() => parsePricing('gpt-4o=cheap')).toThrow('Invalid model pricing in LLM_PRICING: gpt-4o=cheap');
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import { config } from '../config';
+import {
+  AllProvidersFailedError,
+  DEFAULT_MODEL_PRICING,
+  ModelError,
+  ModelPricing,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelUsageTracker,
+  costOf,
+  modelUsage,
+  parsePricing,
+  pricingFor,
+} from './model-provider';
+import { AnthropicProvider, OpenAICompatibleProvider, ScriptedModel, isProviderKind, toModelError } from './providers';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('llm.log');
+
+export interface FallbackOptions {
+  timeoutMs: number; // Per provider; a slower answer counts as a failure and the next provider is tried
+  pricing: Record<string, ModelPricing>;
+}
+
+// A response with what it cost
+export interface AccountedResponse extends ModelResponse {
+  costUsd: number;
+  latencyMs: number;
+}
+
+// Tries providers in order until one answers within the timeout, recording tokens and cost for every attempt
+export class FallbackModel {
+  constructor(
+    private providers: ModelProvider[],
+    private options: FallbackOptions = {
+      timeoutMs: config.llm.timeoutMs,
+      pricing: { ...DEFAULT_MODEL_PRICING, ...parsePricing(config.llm.pricing) },
+    },
+    private usage: ModelUsageTracker = modelUsage
+  ) {
+    if (providers.length === 0) {
+      throw new Error('At least one model provider is required');
+    }
+  }
+
+  getProviders(): string[] {
+    return this.providers.map(provider => `${provider.kind}:${provider.model}`);
+  }
+
+  async generate(request: ModelRequest): Promise<AccountedResponse> {
+    const errors: ModelError[] = [];
+    for (const provider of this.providers) {
+      const startedAt = Date.now();
+      try {
+        const response = await this.withTimeout(provider, request);
+        const latencyMs = Date.now() - startedAt;
+        const costUsd = costOf(response.usage, pricingFor(response.model, this.options.pricing));
+        this.usage.record({
+          timestamp: new Date(),
+          provider: provider.kind,
+          model: response.model,
+          ok: true,
+          latencyMs,
+          ...response.usage,
+          costUsd,
+        });
+        logger.info(
+          `${provider.kind}:${response.model} answered in ${latencyMs}ms ` +
+            `(${response.usage.inputTokens} in, ${response.usage.outputTokens} out, $${costUsd.toFixed(5)})`
+        );
+        return { ...response, costUsd, latencyMs };
+      } catch (error) {
+        const modelError = toModelError(error, provider.kind);
+        errors.push(modelError);
+        this.usage.record({
+          timestamp: new Date(),
+          provider: provider.kind,
+          model: provider.model,
+          ok: false,
+          latencyMs: Date.now() - startedAt,
+          inputTokens: 0,
+          outputTokens: 0,
+          costUsd: 0,
+          error: modelError.message,
+        });
+        logger.warn(`Model provider ${provider.kind}:${provider.model} failed (${modelError.code}): ${modelError.message}`);
+      }
+    }
+    throw new AllProvidersFailedError(errors);
+  }
+
+  private async withTimeout(provider: ModelProvider, request: ModelRequest): Promise<ModelResponse> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new ModelError(`no answer within ${this.options.timeoutMs}ms`, 'timeout', provider.kind));
+      }, this.options.timeoutMs);
+    });
+    try {
+      return await Promise.race([provider.generate(request, controller.signal), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Parse one LLM_PROVIDERS entry, e.g. "anthropic:claude-3-5-sonnet-latest" or "local:llama3.1:8b"
+export function createProvider(entry: string): ModelProvider {
+  const separator = entry.indexOf(':');
+  const kind = separator === -1 ? entry : entry.slice(0, separator);
+  const model = separator === -1 ? '' : entry.slice(separator + 1);
+  if (!isProviderKind(kind)) {
+    throw new Error(`Unknown model provider in LLM_PROVIDERS: ${kind}`);
+  }
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider('openai', {
+        model: model || 'gpt-4',
+        apiKey: config.llm.openaiApiKey,
+        baseUrl: config.llm.openaiBaseUrl,
+      });
+    case 'local':
+      return new OpenAICompatibleProvider('local', {
+        model: model || 'llama3.1',
+        apiKey: config.llm.localApiKey,
+        baseUrl: config.llm.localBaseUrl,
+      });
+    case 'anthropic':
+      return new AnthropicProvider({ model: model || 'claude-3-5-sonnet-latest', apiKey: config.llm.anthropicApiKey });
+    case 'scripted': {
+      if (!config.llm.scriptFile) {
+        throw new Error('The scripted model provider needs LLM_SCRIPT_FILE');
+      }
+      const replies = JSON.parse(fs.readFileSync(config.llm.scriptFile, 'utf8'));
+      if (!Array.isArray(replies) || !replies.every(reply => typeof reply === 'string')) {
+        throw new Error(`LLM_SCRIPT_FILE must contain a JSON array of strings: ${config.llm.scriptFile}`);
+      }
+      // Loop so a long-running agent keeps getting answers
+      return new ScriptedModel(replies, model || 'scripted', true);
+    }
+  }
+}
+
+// Model chain from LLM_PROVIDERS
+export function createModelProvider(): FallbackModel {
+  return new FallbackModel(config.llm.providers.map(createProvider));
+}
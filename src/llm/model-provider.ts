@@ -0,0 +1,163 @@
+export type ProviderKind = 'openai' | 'anthropic' | 'local' | 'scripted';
+
+export interface ModelRequest {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  provider: ProviderKind;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface ModelProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  // The signal is aborted when the caller stops waiting, e.g. on a timeout
+  generate(request: ModelRequest, signal?: AbortSignal): Promise<ModelResponse>;
+}
+
+export type ModelErrorCode = 'timeout' | 'unauthorized' | 'rate_limited' | 'invalid_response' | 'server_error' | 'network_error' | 'exhausted';
+
+export class ModelError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ModelErrorCode,
+    public readonly provider?: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+// Thrown when every provider in the fallback chain failed; lists each failure in order
+export class AllProvidersFailedError extends Error {
+  constructor(public readonly errors: ModelError[]) {
+    super(`All model providers failed: ${errors.map(error => `${error.provider}: ${error.message}`).join('; ')}`);
+    this.name = 'AllProvidersFailedError';
+  }
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// List prices for common models, matched by model name prefix; unknown models cost 0
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+};
+
+// Parse "gpt-4o=2.5/10,my-model=1/2" into model -> pricing
+export function parsePricing(value: string): Record<string, ModelPricing> {
+  const pricing: Record<string, ModelPricing> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [model, prices] = entry.split('=').map(part => part.trim());
+    const [input, output] = (prices || '').split('/').map(Number);
+    if (!model || !Number.isFinite(input) || !Number.isFinite(output)) {
+      throw new Error(`Invalid model pricing in LLM_PRICING: ${entry}`);
+    }
+    pricing[model] = { input, output };
+  }
+  return pricing;
+}
+
+// Price for a model from the longest matching name prefix
+export function pricingFor(model: string, pricing: Record<string, ModelPricing>): ModelPricing {
+  const match = Object.keys(pricing)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : { input: 0, output: 0 };
+}
+
+export function costOf(usage: TokenUsage, pricing: ModelPricing): number {
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+// One attempt against one provider, successful or not
+export interface ModelCall {
+  timestamp: Date;
+  provider: ProviderKind;
+  model: string;
+  ok: boolean;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  error?: string;
+}
+
+export interface ModelUsageTotals {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ModelUsageSummary {
+  total: ModelUsageTotals;
+  byModel: Record<string, ModelUsageTotals>; // Keyed by "provider:model"
+  recent: ModelCall[];
+}
+
+// Calls kept for the recent list
+const MAX_RECENT_CALLS = 100;
+
+function emptyTotals(): ModelUsageTotals {
+  return { calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addCall(totals: ModelUsageTotals, call: ModelCall): void {
+  totals.calls += 1;
+  if (!call.ok) totals.failures += 1;
+  totals.inputTokens += call.inputTokens;
+  totals.outputTokens += call.outputTokens;
+  totals.costUsd += call.costUsd;
+}
+
+// Token and cost accounting across every model call
+export class ModelUsageTracker {
+  private total = emptyTotals();
+  private byModel = new Map<string, ModelUsageTotals>();
+  private recent: ModelCall[] = [];
+
+  record(call: ModelCall): void {
+    const key = `${call.provider}:${call.model}`;
+    if (!this.byModel.has(key)) this.byModel.set(key, emptyTotals());
+    addCall(this.total, call);
+    addCall(this.byModel.get(key)!, call);
+    this.recent.push(call);
+    if (this.recent.length > MAX_RECENT_CALLS) this.recent.shift();
+  }
+
+  getSummary(limit: number = 20): ModelUsageSummary {
+    return {
+      total: { ...this.total },
+      byModel: Object.fromEntries([...this.byModel].map(([key, totals]) => [key, { ...totals }])),
+      recent: limit > 0 ? this.recent.slice(-limit) : [],
+    };
+  }
+}
+
+export const modelUsage = new ModelUsageTracker();
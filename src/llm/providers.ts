@@ -0,0 +1,204 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { ModelError, ModelErrorCode, ModelProvider, ModelRequest, ModelResponse, ProviderKind } from './model-provider';
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+export interface HttpProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Translate an axios failure into a ModelError with a stable code
+export function toModelError(error: unknown, provider: string): ModelError {
+  if (error instanceof ModelError) return error;
+  if (axios.isCancel(error)) {
+    return new ModelError(`${provider} request cancelled`, 'timeout', provider);
+  }
+
+  const axiosError = error as AxiosError<{ error?: { message?: string } | string }>;
+  if (!axiosError?.isAxiosError) {
+    return new ModelError(`${provider} request failed: ${error}`, 'network_error', provider);
+  }
+
+  const status = axiosError.response?.status;
+  const body = axiosError.response?.data?.error;
+  const detail = (typeof body === 'string' ? body : body?.message) || axiosError.message;
+  if (status === undefined) {
+    return new ModelError(`${provider} request failed: ${detail}`, 'network_error', provider);
+  }
+
+  let code: ModelErrorCode = 'server_error';
+  if (status === 401 || status === 403) code = 'unauthorized';
+  else if (status === 429) code = 'rate_limited';
+  else if (status >= 400 && status < 500) code = 'invalid_response';
+  return new ModelError(`${provider} request failed (${status}): ${detail}`, code, provider, status);
+}
+
+// OpenAI chat completions, or any server speaking the same API (Ollama, vLLM, LM Studio, llama.cpp)
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly model: string;
+  private apiClient: AxiosInstance;
+
+  constructor(readonly kind: 'openai' | 'local', options: HttpProviderOptions) {
+    this.model = options.model;
+    this.apiClient = axios.create({
+      baseURL: options.baseUrl || 'https://api.openai.com/v1',
+      headers: {
+        ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async generate(request: ModelRequest, signal?: AbortSignal): Promise<ModelResponse> {
+    try {
+      const response = await this.apiClient.post(
+        '/chat/completions',
+        {
+          model: this.model,
+          messages: [
+            ...(request.system ? [{ role: 'system', content: request.system }] : []),
+            { role: 'user', content: request.prompt },
+          ],
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+        },
+        { signal }
+      );
+      const text = response.data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new ModelError(`${this.kind} response has no message content`, 'invalid_response', this.kind);
+      }
+      return {
+        text,
+        provider: this.kind,
+        model: response.data.model || this.model,
+        usage: {
+          inputTokens: response.data.usage?.prompt_tokens ?? 0,
+          outputTokens: response.data.usage?.completion_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      throw toModelError(error, this.kind);
+    }
+  }
+}
+
+// Anthropic Messages API
+export class AnthropicProvider implements ModelProvider {
+  readonly kind = 'anthropic';
+  readonly model: string;
+  private apiClient: AxiosInstance;
+
+  constructor(options: HttpProviderOptions) {
+    this.model = options.model;
+    this.apiClient = axios.create({
+      baseURL: options.baseUrl || 'https://api.anthropic.com/v1',
+      headers: {
+        'x-api-key': options.apiKey || '',
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async generate(request: ModelRequest, signal?: AbortSignal): Promise<ModelResponse> {
+    try {
+      const response = await this.apiClient.post(
+        '/messages',
+        {
+          model: this.model,
+          system: request.system,
+          messages: [{ role: 'user', content: request.prompt }],
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+        },
+        { signal }
+      );
+      const blocks: { type: string; text?: string }[] = response.data?.content || [];
+      const text = blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      if (blocks.length === 0) {
+        throw new ModelError('anthropic response has no content', 'invalid_response', this.kind);
+      }
+      return {
+        text,
+        provider: this.kind,
+        model: response.data.model || this.model,
+        usage: {
+          inputTokens: response.data.usage?.input_tokens ?? 0,
+          outputTokens: response.data.usage?.output_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      throw toModelError(error, this.kind);
+    }
+  }
+}
+
+// A canned reply: text, an error to throw, or text produced from the prompt. delayMs makes the
+// reply slow, e.g. to exercise fallback timeouts.
+export type ScriptedReply = string | Error | ((request: ModelRequest) => string) | { text: string; delayMs: number };
+
+// Deterministic offline model that replays canned replies in order, for tests and dry runs.
+// Token counts are estimated at four characters per token.
+export class ScriptedModel implements ModelProvider {
+  readonly kind = 'scripted';
+  readonly requests: ModelRequest[] = [];
+  private next = 0;
+
+  constructor(private replies: ScriptedReply[], readonly model: string = 'scripted', private loop: boolean = false) {}
+
+  async generate(request: ModelRequest, signal?: AbortSignal): Promise<ModelResponse> {
+    this.requests.push(request);
+    if (this.next >= this.replies.length) {
+      if (!this.loop || this.replies.length === 0) {
+        throw new ModelError(`Scripted model has no reply left for request ${this.requests.length}`, 'exhausted', this.kind);
+      }
+      this.next = 0;
+    }
+
+    const reply = this.replies[this.next++];
+    if (reply instanceof Error) throw reply;
+    let text: string;
+    if (typeof reply === 'function') {
+      text = reply(request);
+    } else if (typeof reply === 'string') {
+      text = reply;
+    } else {
+      await delay(reply.delayMs, signal);
+      text = reply.text;
+    }
+
+    return {
+      text,
+      provider: this.kind,
+      model: this.model,
+      usage: {
+        inputTokens: Math.ceil(((request.system?.length || 0) + request.prompt.length) / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new ModelError('scripted request cancelled', 'timeout', 'scripted'));
+      },
+      { once: true }
+    );
+  });
+}
+
+export function isProviderKind(value: string): value is ProviderKind {
+  return value === 'openai' || value === 'anthropic' || value === 'local' || value === 'scripted';
+}
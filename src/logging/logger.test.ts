@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Console } from 'console';
+import { Writable } from 'stream';
+import { createModuleLogger, logToStderr, writeConsoleLine } from './logger';
+
+class CapturedStream extends Writable {
+  text = '';
+
+  _write(chunk: Buffer, _encoding: string, callback: () => void) {
+    this.text += chunk.toString();
+    callback();
+  }
+}
+
+describe('module loggers', () => {
+  const jestConsole = global.console;
+  let dir: string;
+  let logOut: CapturedStream;
+  let logErr: CapturedStream;
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-'));
+    // The console transport writes through the console's streams, which Jest merges
+    logOut = new CapturedStream();
+    logErr = new CapturedStream();
+    global.console = new Console(logOut, logErr);
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    global.console = jestConsole;
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('moves console output to stderr for loggers created before and after the switch', () => {
+    const before = createModuleLogger(path.join(dir, 'before.log'));
+    before.info('on stdout');
+    writeConsoleLine('sink line on stdout');
+    expect(logOut.text).toBe('info: on stdout\n');
+    expect(stdout).toHaveBeenCalledWith('sink line on stdout\n');
+
+    logToStderr();
+    stdout.mockClear();
+    before.info('moved');
+    createModuleLogger(path.join(dir, 'after.log')).warn('created later');
+    writeConsoleLine('sink line on stderr');
+
+    expect(logOut.text).toBe('info: on stdout\n');
+    expect(logErr.text).toBe('info: moved\nwarn: created later\n');
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith('sink line on stderr\n');
+  });
+});
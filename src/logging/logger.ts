@@ -0,0 +1,43 @@
+import winston from 'winston';
+
+interface ModuleLogger {
+  logger: winston.Logger;
+  console: winston.transport;
+}
+
+const moduleLoggers: ModuleLogger[] = [];
+let consoleStream: 'stdout' | 'stderr' = 'stdout';
+
+function consoleTransport(): winston.transport {
+  return new winston.transports.Console({
+    format: winston.format.simple(),
+    stderrLevels: consoleStream === 'stderr' ? Object.keys(winston.config.npm.levels) : [],
+  });
+}
+
+// Logger for one module: JSON lines in its log file and a plain line on the console
+export function createModuleLogger(filename: string, options: { timestamps?: boolean } = {}): winston.Logger {
+  const console = consoleTransport();
+  const logger = winston.createLogger({
+    level: 'info',
+    format: options.timestamps ? winston.format.combine(winston.format.timestamp(), winston.format.json()) : winston.format.json(),
+    transports: [new winston.transports.File({ filename }), console],
+  });
+  moduleLoggers.push({ logger, console });
+  return logger;
+}
+
+// Send console logging, from loggers created before and after, to stderr so stdout only carries a command's output
+export function logToStderr(): void {
+  consoleStream = 'stderr';
+  for (const entry of moduleLoggers) {
+    entry.logger.remove(entry.console);
+    entry.console = consoleTransport();
+    entry.logger.add(entry.console);
+  }
+}
+
+// Write a line to the same stream as console logging
+export function writeConsoleLine(line: string): void {
+  (consoleStream === 'stderr' ? process.stderr : process.stdout).write(line + '\n');
+}
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CandleStore, normalizeCandles } from './candles';
+
+const HOUR = 3600_000;
+
+describe('CandleStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('folds ticks into the current candle of each timeframe', () => {
+    const store = new CandleStore(['1h'], 500, '');
+
+    store.recordTick('ETH/USDC', 100, 0, 0);
+    store.recordTick('ETH/USDC', 104, 0, 10 * 60_000);
+    store.recordTick('ETH/USDC', 98, 0, 20 * 60_000);
+    store.recordTick('ETH/USDC', 101, 0, HOUR);
+    store.recordTick('ETH/USDC', 90, 0, 30 * 60_000); // Older than the latest candle
+
+    expect(store.getCandles('eth/usdc', '1h')).toEqual([
+      { timestamp: 0, open: 100, high: 104, low: 98, close: 98, volume: 0 },
+      { timestamp: HOUR, open: 101, high: 101, low: 101, close: 101, volume: 0 },
+    ]);
+  });
+
+  it('aligns, sorts and de-duplicates ingested history', () => {
+    const candles = normalizeCandles(
+      [
+        { timestamp: HOUR + 5, open: 2, high: 3, low: 1, close: 2, volume: 5 },
+        { timestamp: 0, open: 1, high: 2, low: 1, close: 1, volume: 5 },
+        { timestamp: HOUR, open: 2, high: 4, low: 2, close: 3, volume: 7 },
+      ],
+      '1h'
+    );
+
+    expect(candles.map(candle => [candle.timestamp, candle.close])).toEqual([
+      [0, 1],
+      [HOUR, 3],
+    ]);
+  });
+
+  it('keeps candles across restarts', () => {
+    const file = path.join(dir, 'candles.json');
+    const history = Array.from({ length: 3 }, (_, i) => ({ timestamp: i * HOUR, open: 100, high: 110, low: 99, close: 100 + i, volume: 10 }));
+
+    const first = new CandleStore(['1h'], 500, file);
+    first.ingest('ETH/USDC', '1h', history);
+    first.recordTick('ETH/USDC', 105, 0, 3 * HOUR);
+    first.flush();
+
+    const restarted = new CandleStore(['1h'], 500, file);
+    expect(restarted.getCandles('ETH/USDC', '1h')).toEqual(first.getCandles('ETH/USDC', '1h'));
+    expect(restarted.getCandles('ETH/USDC', '1h')).toHaveLength(4);
+  });
+
+  it('writes ingested history at once and batches ticks until the next flush', () => {
+    const file = path.join(dir, 'candles.json');
+    const store = new CandleStore(['1h'], 500, file, 60_000);
+
+    store.ingest('ETH/USDC', '1h', [{ timestamp: 0, open: 100, high: 110, low: 99, close: 100, volume: 10 }]);
+    store.recordTick('ETH/USDC', 105, 0, HOUR);
+    store.recordTick('ETH/USDC', 106, 0, 2 * HOUR);
+    expect(new CandleStore(['1h'], 500, file).getCandles('ETH/USDC', '1h')).toHaveLength(1);
+
+    store.flush();
+    expect(new CandleStore(['1h'], 500, file).getCandles('ETH/USDC', '1h')).toHaveLength(3);
+  });
+
+  it('skips an invalid saved series and an unreadable file', () => {
+    const file = path.join(dir, 'candles.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        'ETH/USDC:1h': [{ timestamp: 0, open: 1, high: 2, low: 1, close: 1, volume: 0 }],
+        'BTC/USDC:1h': [{ timestamp: 0, open: 1, high: 2, low: 1, close: -1, volume: 0 }],
+      })
+    );
+    expect(new CandleStore(['1h'], 500, file).getCandles('ETH/USDC', '1h')).toHaveLength(1);
+
+    fs.writeFileSync(file, '{"ETH/USDC:1h": [');
+    expect(new CandleStore(['1h'], 500, file).getCandles('ETH/USDC', '1h')).toEqual([]);
+  });
+});
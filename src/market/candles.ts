@@ -0,0 +1,182 @@
+import fs from 'fs';
+import { config } from '../config';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('candles.log');
+
+export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface Candle {
+  timestamp: number; // Candle open time in milliseconds since epoch
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export const timeframeDurations: Record<Timeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export function isTimeframe(value: string): value is Timeframe {
+  return Object.prototype.hasOwnProperty.call(timeframeDurations, value);
+}
+
+export function parseTimeframe(value: string): Timeframe {
+  if (!isTimeframe(value)) {
+    throw new Error(`Unsupported timeframe: ${value}`);
+  }
+  return value;
+}
+
+// Number of candles of the given timeframe in a year, used to annualize volatility
+export function periodsPerYear(timeframe: Timeframe): number {
+  return YEAR_MS / timeframeDurations[timeframe];
+}
+
+// Start of the candle bucket containing the timestamp
+export function bucketStart(timestamp: number, timeframe: Timeframe): number {
+  const duration = timeframeDurations[timeframe];
+  return Math.floor(timestamp / duration) * duration;
+}
+
+export function validateCandle(candle: Candle): void {
+  const values = [candle.timestamp, candle.open, candle.high, candle.low, candle.close, candle.volume];
+  if (values.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new Error(`Invalid candle at ${candle.timestamp}: all fields must be finite numbers`);
+  }
+  if (candle.low > Math.min(candle.open, candle.close) || candle.high < Math.max(candle.open, candle.close)) {
+    throw new Error(`Invalid candle at ${candle.timestamp}: open/close outside high/low range`);
+  }
+  if (candle.low <= 0) {
+    throw new Error(`Invalid candle at ${candle.timestamp}: prices must be positive`);
+  }
+  if (candle.volume < 0) {
+    throw new Error(`Invalid candle at ${candle.timestamp}: negative volume`);
+  }
+}
+
+// Validate, align to the timeframe, sort and de-duplicate a candle series (later entries win)
+export function normalizeCandles(candles: Candle[], timeframe: Timeframe): Candle[] {
+  const byTimestamp = new Map<number, Candle>();
+  for (const candle of candles) {
+    validateCandle(candle);
+    const timestamp = bucketStart(candle.timestamp, timeframe);
+    byTimestamp.set(timestamp, { ...candle, timestamp });
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Live candles are built from price ticks, one per analysis, and have no volume, so VWAP falls
+// back to the last close and indicators only appear once MIN_CANDLES candles of the timeframe
+// exist; seed the store with historical OHLCV (the CLI's --data option) for them to work from the start
+export class CandleStore {
+  private series = new Map<string, Candle[]>();
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(
+    private timeframes: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'],
+    private maxCandles: number = 500,
+    private filePath: string = config.candles.file, // Empty string keeps candles in memory only
+    private saveDelayMs: number = config.candles.saveDelayMs
+  ) {
+    this.load();
+  }
+
+  // Merge an OHLCV series into the store
+  ingest(symbol: string, timeframe: Timeframe, candles: Candle[]): void {
+    const key = this.key(symbol, timeframe);
+    const merged = normalizeCandles([...(this.series.get(key) || []), ...candles], timeframe);
+    this.series.set(key, merged.slice(-this.maxCandles));
+    this.flush();
+  }
+
+  // Fold a price observation into the current candle of every tracked timeframe
+  recordTick(symbol: string, price: number, volume: number = 0, timestamp: number = Date.now()): void {
+    for (const timeframe of this.timeframes) {
+      const key = this.key(symbol, timeframe);
+      const candles = this.series.get(key) || [];
+      const start = bucketStart(timestamp, timeframe);
+      const last = candles[candles.length - 1];
+
+      if (last && last.timestamp === start) {
+        last.high = Math.max(last.high, price);
+        last.low = Math.min(last.low, price);
+        last.close = price;
+        last.volume += volume;
+      } else if (!last || last.timestamp < start) {
+        const candle = { timestamp: start, open: price, high: price, low: price, close: price, volume };
+        validateCandle(candle);
+        candles.push(candle);
+        this.series.set(key, candles.slice(-this.maxCandles));
+      }
+      // Ticks older than the latest candle are ignored
+    }
+    this.scheduleSave();
+  }
+
+  getCandles(symbol: string, timeframe: Timeframe, limit?: number): Candle[] {
+    const candles = this.series.get(this.key(symbol, timeframe)) || [];
+    return (limit ? candles.slice(-limit) : candles).map(candle => ({ ...candle }));
+  }
+
+  // Write pending changes now, e.g. before the process exits
+  flush(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    this.save();
+  }
+
+  private key(symbol: string, timeframe: Timeframe): string {
+    return `${symbol.toUpperCase()}:${timeframe}`;
+  }
+
+  // A series that fails validation is skipped rather than keeping the agent from starting
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    let saved: Record<string, Candle[]>;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      logger.error(`Error reading candles from ${this.filePath}:`, error);
+      return;
+    }
+    for (const [key, candles] of Object.entries(saved)) {
+      const timeframe = key.slice(key.lastIndexOf(':') + 1);
+      try {
+        this.series.set(key, normalizeCandles(candles, parseTimeframe(timeframe)).slice(-this.maxCandles));
+      } catch (error) {
+        logger.error(`Skipping saved candles for ${key}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    logger.info(`Loaded ${this.series.size} candle series from ${this.filePath}`);
+  }
+
+  // Ticks arrive on every analysis; batch them into one write per saveDelayMs
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), this.saveDelayMs);
+    this.saveTimer.unref();
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    try {
+      const tempFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(this.series)));
+      fs.renameSync(tempFile, this.filePath);
+    } catch (error) {
+      logger.error(`Error saving candles to ${this.filePath}:`, error);
+    }
+  }
+}
+
+export const candleStore = new CandleStore();
@@ -0,0 +1,100 @@
+import { Candle } from './candles';
+import { MIN_CANDLES, atr, bollingerBands, computeIndicators, ema, emaSeries, macd, realizedVolatility, rsi, sma, vwap } from './indicators';
+
+function candle(timestamp: number, high: number, low: number, close: number, volume: number = 0): Candle {
+  return { timestamp, open: close, high, low, close, volume };
+}
+
+// Hourly candles closing at 100, 101, 102, ... with a one-point range
+function ramp(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => candle(i * 3600_000, 100 + i + 0.5, 100 + i - 0.5, 100 + i, 10));
+}
+
+describe('indicators', () => {
+  it('computes simple and exponential moving averages', () => {
+    expect(sma([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 5)).toBe(8);
+    // Seeded with mean(1, 2, 3) = 2, then k = 0.5
+    expect(emaSeries([1, 2, 3, 4, 5], 3)).toEqual([2, 3, 4]);
+    expect(ema([1, 2, 3, 4, 5], 3)).toBe(4);
+    expect(() => sma([1, 2], 3)).toThrow('SMA(3) requires at least 3 values, got 2');
+  });
+
+  it("matches TA-Lib's Wilder RSI on the StockCharts example", () => {
+    // StockCharts' table rounds its averages and shows 70.53 for the first value
+    const closes = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.0, 46.03,
+      46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+    ];
+    const expected = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.9, 45.5, 37.32, 33.09, 37.79];
+
+    expected.forEach((value, i) => expect(rsi(closes.slice(0, 15 + i), 14)).toBeCloseTo(value, 2));
+  });
+
+  it('reports RSI 100 without losses and 50 on a flat series', () => {
+    expect(rsi(Array.from({ length: 20 }, (_, i) => 100 + i))).toBe(100);
+    expect(rsi(Array(20).fill(100))).toBe(50);
+  });
+
+  it('gives a constant MACD line on a linear series', () => {
+    // A seeded EMA lags a ramp of slope 1 by (period - 1) / 2 exactly: 5.5 for EMA12, 12.5 for EMA26
+    const result = macd(Array.from({ length: 60 }, (_, i) => 100 + i));
+
+    expect(result.line).toBeCloseTo(7, 10);
+    expect(result.signal).toBeCloseTo(7, 10);
+    expect(result.histogram).toBeCloseTo(0, 10);
+  });
+
+  it('computes Bollinger Bands from the population standard deviation', () => {
+    // Mean 5, population standard deviation 2
+    const bands = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+
+    expect(bands).toEqual({ upper: 9, middle: 5, lower: 1, bandwidth: 1.6 });
+  });
+
+  it("smooths true ranges with Wilder's ATR", () => {
+    const candles = [
+      candle(0, 11, 9, 10),
+      candle(1, 12, 10, 11), // TR 2
+      candle(2, 15, 13, 14), // TR 4, gap above the previous close
+      candle(3, 14, 12, 13), // TR 2
+      candle(4, 13, 9, 10), // TR 4
+    ];
+
+    // Seeded with mean(2, 4, 2), then (8/3 * 2 + 4) / 3
+    expect(atr(candles, 3)).toBeCloseTo(28 / 9, 12);
+  });
+
+  it('weights typical prices by volume and falls back to the last close without volume', () => {
+    expect(vwap([candle(0, 12, 8, 10, 100), candle(1, 22, 18, 20, 300)])).toBe(17.5);
+    expect(vwap([candle(0, 12, 8, 10), candle(1, 22, 18, 21)])).toBe(21);
+  });
+
+  it('annualizes the sample standard deviation of log returns', () => {
+    const closes = Array.from({ length: 21 }, (_, i) => (i % 2 === 0 ? 100 : 110));
+    const step = Math.log(1.1);
+
+    // Ten returns of +step and ten of -step: mean 0, sample variance 20 * step^2 / 19
+    expect(realizedVolatility(closes, 365)).toBeCloseTo(step * Math.sqrt(20 / 19) * Math.sqrt(365), 12);
+    expect(realizedVolatility(Array(21).fill(100), 365)).toBe(0);
+  });
+
+  it('computes the full set from a candle series', () => {
+    const indicators = computeIndicators(ramp(60), '1h');
+
+    expect(indicators.price).toBe(159);
+    expect(indicators.movingAverages.sma20).toBe(149.5);
+    expect(indicators.movingAverages.sma50).toBe(134.5);
+    expect(indicators.movingAverages.ema12).toBeCloseTo(153.5, 10);
+    expect(indicators.movingAverages.ema26).toBeCloseTo(146.5, 10);
+    expect(indicators.macd.line).toBeCloseTo(7, 10);
+    expect(indicators.rsi).toBe(100);
+    expect(indicators.atr).toBeCloseTo(1.5, 10); // Each high is 1.5 above the previous close
+    expect(indicators.vwap).toBeCloseTo(129.5, 10);
+    expect(indicators.volume).toBe(10);
+    expect(indicators.volatility).toBeGreaterThan(0);
+  });
+
+  it('refuses to compute indicators from too little history', () => {
+    expect(() => computeIndicators(ramp(MIN_CANDLES - 1), '1h')).toThrow(`need ${MIN_CANDLES} candles, got ${MIN_CANDLES - 1}`);
+  });
+});
@@ -0,0 +1,165 @@
+import { Candle, Timeframe, periodsPerYear } from './candles';
+import { TechnicalIndicators } from '../tools/trading-tools';
+
+// Longest lookback used by computeIndicators (SMA50)
+export const MIN_CANDLES = 50;
+
+function assertLength(values: number[], required: number, name: string): void {
+  if (values.length < required) {
+    throw new Error(`${name} requires at least ${required} values, got ${values.length}`);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Simple moving average of the last `period` values
+export function sma(values: number[], period: number): number {
+  assertLength(values, period, `SMA(${period})`);
+  return mean(values.slice(-period));
+}
+
+// EMA series seeded with the SMA of the first `period` values; element 0 lines up with values[period - 1]
+export function emaSeries(values: number[], period: number): number[] {
+  assertLength(values, period, `EMA(${period})`);
+  const k = 2 / (period + 1);
+  const series = [mean(values.slice(0, period))];
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number {
+  const series = emaSeries(values, period);
+  return series[series.length - 1];
+}
+
+// Wilder's RSI: averages seeded with a simple mean, then smoothed with alpha = 1 / period
+export function rsi(closes: number[], period: number = 14): number {
+  assertLength(closes, period + 1, `RSI(${period})`);
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+export function macd(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): TechnicalIndicators['macd'] {
+  assertLength(closes, slowPeriod + signalPeriod - 1, `MACD(${fastPeriod},${slowPeriod},${signalPeriod})`);
+
+  const fast = emaSeries(closes, fastPeriod);
+  const slow = emaSeries(closes, slowPeriod);
+  // Align the fast EMA with the slow one, which starts (slowPeriod - fastPeriod) bars later
+  const offset = slowPeriod - fastPeriod;
+  const macdLine = slow.map((value, i) => fast[i + offset] - value);
+  const signalLine = emaSeries(macdLine, signalPeriod);
+
+  const line = macdLine[macdLine.length - 1];
+  const signal = signalLine[signalLine.length - 1];
+  return { line, signal, histogram: line - signal };
+}
+
+export function bollingerBands(
+  closes: number[],
+  period: number = 20,
+  multiplier: number = 2
+): TechnicalIndicators['bollingerBands'] {
+  assertLength(closes, period, `Bollinger(${period})`);
+  const window = closes.slice(-period);
+  const middle = mean(window);
+  // Population standard deviation, as in Bollinger's definition
+  const deviation = Math.sqrt(mean(window.map(value => (value - middle) ** 2)));
+  const upper = middle + multiplier * deviation;
+  const lower = middle - multiplier * deviation;
+  return { upper, middle, lower, bandwidth: middle !== 0 ? (upper - lower) / middle : 0 };
+}
+
+// Wilder's Average True Range
+export function atr(candles: Candle[], period: number = 14): number {
+  assertLength(candles.map(candle => candle.close), period + 1, `ATR(${period})`);
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const previousClose = candles[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose)));
+  }
+
+  let value = mean(trueRanges.slice(0, period));
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+  }
+  return value;
+}
+
+// Volume-weighted average of the typical price over the series; falls back to the last close without volume
+export function vwap(candles: Candle[]): number {
+  if (candles.length === 0) {
+    throw new Error('VWAP requires at least 1 candle');
+  }
+  let priceVolume = 0;
+  let volume = 0;
+  for (const candle of candles) {
+    priceVolume += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+  }
+  return volume > 0 ? priceVolume / volume : candles[candles.length - 1].close;
+}
+
+// Annualized standard deviation of log returns over the last `period` returns
+export function realizedVolatility(closes: number[], annualizationFactor: number, period: number = 20): number {
+  assertLength(closes, period + 1, `Volatility(${period})`);
+  const window = closes.slice(-(period + 1));
+  const returns = window.slice(1).map((close, i) => Math.log(close / window[i]));
+  const average = mean(returns);
+  const variance = returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(annualizationFactor);
+}
+
+// Compute the full indicator set from an ordered OHLCV series
+export function computeIndicators(candles: Candle[], timeframe: Timeframe): TechnicalIndicators {
+  if (candles.length < MIN_CANDLES) {
+    throw new Error(`Insufficient candle history: need ${MIN_CANDLES} candles, got ${candles.length}`);
+  }
+
+  const closes = candles.map(candle => candle.close);
+  const last = candles[candles.length - 1];
+
+  return {
+    price: last.close,
+    rsi: rsi(closes, 14),
+    macd: macd(closes, 12, 26, 9),
+    movingAverages: {
+      sma20: sma(closes, 20),
+      sma50: sma(closes, 50),
+      ema12: ema(closes, 12),
+      ema26: ema(closes, 26),
+    },
+    bollingerBands: bollingerBands(closes, 20, 2),
+    atr: atr(candles, 14),
+    vwap: vwap(candles),
+    volume: last.volume,
+    volatility: realizedVolatility(closes, periodsPerYear(timeframe), 20),
+  };
+}
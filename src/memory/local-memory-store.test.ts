@@ -0,0 +1,177 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalMemoryStore, matchesFilters } from './local-memory-store';
+import { MemoryRecord, MemorySearchParams, MemoryStore } from './memory-store';
+
+// Remote store that can be taken offline
+class FakeRemote implements MemoryStore {
+  stored: { key: string; data: any }[] = [];
+  online = true;
+
+  async store(key: string, data: any): Promise<void> {
+    if (!this.online) throw new Error('remote unreachable');
+    this.stored.push({ key, data });
+  }
+
+  async retrieve(): Promise<MemoryRecord | undefined> {
+    return undefined;
+  }
+
+  async search(_params: MemorySearchParams): Promise<MemoryRecord[]> {
+    return [];
+  }
+
+  async flush(): Promise<void> {}
+}
+
+describe('LocalMemoryStore', () => {
+  let dir: string;
+  let filePath: string;
+  let outboxFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-'));
+    filePath = path.join(dir, 'memory.jsonl');
+    outboxFile = path.join(dir, 'outbox.jsonl');
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 1) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores, retrieves and reloads memories from its log', async () => {
+    const store = new LocalMemoryStore({ filePath });
+    await store.store('a', { type: 'trading_decision', symbol: 'ETH/USDC' });
+
+    const reloaded = new LocalMemoryStore({ filePath });
+
+    await expect(reloaded.retrieve('a')).resolves.toEqual({
+      key: 'a',
+      data: { type: 'trading_decision', symbol: 'ETH/USDC' },
+      metadata: { agent: 'SlothfulTrader', timestamp: '2024-01-01T00:00:00.000Z' },
+    });
+    await expect(reloaded.retrieve('missing')).resolves.toBeUndefined();
+  });
+
+  it('keeps the latest write to a key', async () => {
+    const store = new LocalMemoryStore({ filePath });
+    await store.store('a', { version: 1 });
+    await store.store('a', { version: 2 });
+
+    await expect(new LocalMemoryStore({ filePath }).retrieve('a')).resolves.toMatchObject({ data: { version: 2 } });
+  });
+
+  it('skips a line cut short instead of failing to start', async () => {
+    const store = new LocalMemoryStore({ filePath });
+    await store.store('a', { n: 1 });
+    fs.appendFileSync(filePath, '{"key":"b","data":');
+    fs.appendFileSync(filePath, '\n' + JSON.stringify({ key: 'c', data: { n: 3 }, metadata: { agent: 'x', timestamp: '2024-01-02T00:00:00.000Z' } }) + '\n');
+
+    const reloaded = new LocalMemoryStore({ filePath });
+
+    await expect(reloaded.retrieve('a')).resolves.toBeDefined();
+    await expect(reloaded.retrieve('c')).resolves.toBeDefined();
+    await expect(reloaded.search({ query: '' })).resolves.toHaveLength(2);
+  });
+
+  it('searches by exact filters, newest first, up to the limit', async () => {
+    const store = new LocalMemoryStore();
+    for (const [key, symbol] of [['1', 'ETH/USDC'], ['2', 'WBTC/USDC'], ['3', 'ETH/USDC'], ['4', 'ETH/USDC']]) {
+      await store.store(key, { type: 'trading_decision', symbol });
+      jest.advanceTimersByTime(1000);
+    }
+
+    const results = await store.search({ query: 'ignored', filters: { type: 'trading_decision', symbol: 'ETH/USDC' }, limit: 2 });
+
+    expect(results.map(record => record.key)).toEqual(['4', '3']);
+    await expect(store.search({ query: '' })).resolves.toHaveLength(4);
+  });
+
+  it('searches from a time on by the timestamp in the data', async () => {
+    const store = new LocalMemoryStore();
+    await store.store('old', { timestamp: '2023-12-31T00:00:00.000Z' });
+    await store.store('new', { timestamp: '2024-01-02T00:00:00.000Z' });
+    await store.store('untimed', {});
+
+    const results = await store.search({ query: '', since: '2024-01-01T00:00:00.000Z' });
+
+    expect(results.map(record => record.key).sort()).toEqual(['new', 'untimed']);
+  });
+
+  it('ignores undefined filter values', () => {
+    expect(matchesFilters({ symbol: 'ETH/USDC' }, { symbol: 'ETH/USDC', type: undefined })).toBe(true);
+    expect(matchesFilters({ symbol: 'ETH/USDC' }, { type: 'risk_veto' })).toBe(false);
+    expect(matchesFilters(undefined, undefined)).toBe(true);
+  });
+
+  it('syncs each write to the remote in order', async () => {
+    const remote = new FakeRemote();
+    const store = new LocalMemoryStore({ filePath, remote, outboxFile });
+
+    await store.store('a', { n: 1 });
+    await store.store('b', { n: 2 });
+    await store.sync();
+
+    expect(remote.stored.map(entry => entry.key)).toEqual(['a', 'b']);
+    expect(store.pendingSync()).toBe(0);
+    expect(fs.readFileSync(outboxFile, 'utf8')).toBe('');
+  });
+
+  it('queues writes while the remote is down and keeps the queue across a restart', async () => {
+    const remote = new FakeRemote();
+    remote.online = false;
+    const store = new LocalMemoryStore({ filePath, remote, outboxFile });
+
+    await store.store('a', { n: 1 });
+    await store.store('b', { n: 2 });
+    await store.flush();
+    expect(store.pendingSync()).toBe(2);
+    await expect(store.retrieve('b')).resolves.toBeDefined();
+
+    remote.online = true;
+    const restarted = new LocalMemoryStore({ filePath, remote, outboxFile });
+    expect(restarted.pendingSync()).toBe(2);
+
+    await expect(restarted.sync()).resolves.toBe(2);
+    expect(remote.stored.map(entry => entry.key)).toEqual(['a', 'b']);
+  });
+
+  it('stops at the first failure so the remote sees memories in order', async () => {
+    const remote = new FakeRemote();
+    remote.online = false;
+    const store = new LocalMemoryStore({ filePath, remote, outboxFile });
+    await store.store('a', { n: 1 });
+    await store.store('b', { n: 2 });
+    await store.store('c', { n: 3 });
+    await store.sync();
+
+    remote.online = true;
+    const put = remote.store.bind(remote);
+    jest.spyOn(remote, 'store').mockImplementationOnce(put).mockImplementationOnce(() => Promise.reject(new Error('timeout')));
+
+    await expect(store.sync()).resolves.toBe(1);
+    expect(store.pendingSync()).toBe(2);
+    expect(fs.readFileSync(outboxFile, 'utf8').trim().split('\n').map(line => JSON.parse(line).key)).toEqual(['b', 'c']);
+
+    await expect(store.sync()).resolves.toBe(2);
+    expect(remote.stored.map(entry => entry.key)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('retries on its sync interval', async () => {
+    const remote = new FakeRemote();
+    remote.online = false;
+    const store = new LocalMemoryStore({ remote, syncIntervalMs: 60_000 });
+    await store.store('a', { n: 1 });
+    await store.sync();
+
+    remote.online = true;
+    await jest.advanceTimersByTimeAsync(60_000);
+    store.stop();
+
+    expect(remote.stored.map(entry => entry.key)).toEqual(['a']);
+    expect(store.pendingSync()).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import { MemoryRecord, MemorySearchParams, MemoryStore } from './memory-store';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('memory.log');
+
+export interface LocalMemoryStoreOptions {
+  filePath?: string; // Append-only JSONL log; empty keeps memories in process only
+  remote?: MemoryStore; // Store that outbox entries are synced to, usually RecallMemory
+  outboxFile?: string; // Write-ahead log of memories not yet accepted by the remote
+  syncIntervalMs?: number; // Retry interval for unsynced memories; 0 syncs only after writes
+}
+
+// Whether every filter field matches the memory's data exactly
+export function matchesFilters(data: any, filters?: Record<string, unknown>): boolean {
+  if (!filters) return true;
+  return Object.entries(filters).every(([field, value]) => value === undefined || data?.[field] === value);
+}
+
+// A line cut short by a crash mid-write is skipped rather than keeping the agent from starting
+function readJsonl(filePath: string): MemoryRecord[] {
+  if (!filePath || !fs.existsSync(filePath)) return [];
+  const records: MemoryRecord[] = [];
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+  for (const line of lines) {
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      logger.error(`Skipping unparseable memory in ${filePath}: ${line.slice(0, 80)}`);
+    }
+  }
+  return records;
+}
+
+// Embedded memory store: every record is appended to a local JSONL log and queued in an
+// outbox that is replayed to the remote store in order once it is reachable
+export class LocalMemoryStore implements MemoryStore {
+  private records = new Map<string, MemoryRecord>();
+  private outbox: MemoryRecord[] = [];
+  private syncing?: Promise<number>;
+  private timer?: NodeJS.Timeout;
+  private readonly filePath: string;
+  private readonly outboxFile: string;
+
+  constructor(private options: LocalMemoryStoreOptions = {}) {
+    this.filePath = options.filePath || '';
+    this.outboxFile = options.remote ? options.outboxFile || '' : '';
+
+    for (const record of readJsonl(this.filePath)) {
+      this.records.set(record.key, record);
+    }
+    this.outbox = readJsonl(this.outboxFile);
+    if (this.records.size > 0 || this.outbox.length > 0) {
+      logger.info(`Loaded ${this.records.size} memories from ${this.filePath} (${this.outbox.length} awaiting sync)`);
+    }
+
+    if (options.remote && options.syncIntervalMs) {
+      this.timer = setInterval(() => void this.sync(), options.syncIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  // Store a memory
+  async store(key: string, data: any): Promise<void> {
+    const record: MemoryRecord = {
+      key,
+      data,
+      metadata: {
+        agent: 'SlothfulTrader',
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    try {
+      // Queue for the remote before writing locally so a crash can't lose the sync
+      if (this.options.remote) {
+        this.appendLine(this.outboxFile, record);
+        this.outbox.push(record);
+      }
+      this.appendLine(this.filePath, record);
+      this.records.set(key, record);
+    } catch (error) {
+      logger.error('Error storing memory:', error);
+      throw new Error(`Failed to store memory: ${error}`);
+    }
+
+    if (this.options.remote) void this.sync();
+  }
+
+  // Retrieve a memory
+  async retrieve(key: string): Promise<MemoryRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  // Search memories by exact filter match and time, newest first. The query text is not used for ranking.
+  async search(params: MemorySearchParams): Promise<MemoryRecord[]> {
+    return [...this.records.values()]
+      .filter(record => matchesFilters(record.data, params.filters))
+      .filter(record => !params.since || (record.data?.timestamp ?? record.metadata.timestamp) >= params.since)
+      .sort((a, b) => b.metadata.timestamp.localeCompare(a.metadata.timestamp))
+      .slice(0, params.limit ?? 10);
+  }
+
+  pendingSync(): number {
+    return this.outbox.length;
+  }
+
+  // Push queued memories to the remote in order, stopping at the first failure; returns how many were sent
+  async sync(): Promise<number> {
+    if (!this.options.remote) return 0;
+    if (!this.syncing) {
+      this.syncing = this.flushOutbox().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Writes are already on disk; try once more to hand queued memories to the remote
+  async flush(): Promise<void> {
+    await this.sync();
+    if (this.outbox.length > 0) {
+      logger.warn(`${this.outbox.length} memories still queued for sync in ${this.outboxFile || 'memory'}`);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async flushOutbox(): Promise<number> {
+    let sent = 0;
+    while (this.outbox.length > 0) {
+      const record = this.outbox[0];
+      try {
+        await this.options.remote!.store(record.key, record.data);
+      } catch (error) {
+        logger.warn(`Remote memory store unreachable, ${this.outbox.length} memories queued for sync`);
+        break;
+      }
+      this.outbox.shift();
+      sent++;
+    }
+
+    if (sent > 0) {
+      this.rewriteOutbox();
+    }
+    return sent;
+  }
+
+  private rewriteOutbox(): void {
+    if (!this.outboxFile) return;
+    try {
+      fs.writeFileSync(this.outboxFile, this.outbox.map(record => JSON.stringify(record) + '\n').join(''));
+    } catch (error) {
+      logger.error(`Error rewriting memory outbox ${this.outboxFile}:`, error);
+    }
+  }
+
+  private appendLine(filePath: string, record: MemoryRecord): void {
+    if (!filePath) return;
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n');
+  }
+}
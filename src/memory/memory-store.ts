@@ -0,0 +1,46 @@
+import { config } from '../config';
+import { RecallMemory } from '../services/recall-service';
+import { LocalMemoryStore } from './local-memory-store';
+
+export interface MemoryRecord {
+  key: string;
+  data: any;
+  metadata: {
+    agent: string;
+    timestamp: string; // ISO time the memory was stored
+  };
+}
+
+export interface MemorySearchParams {
+  query: string;
+  filters?: Record<string, unknown>; // Exact matches on fields of the stored data
+  since?: string; // ISO time; only memories whose data timestamp is at or after it
+  limit?: number;
+}
+
+// Where TradingMemory persists: the Recall memory API or the local embedded store
+export interface MemoryStore {
+  store(key: string, data: any): Promise<void>;
+  retrieve(key: string): Promise<MemoryRecord | undefined>;
+  search(params: MemorySearchParams): Promise<MemoryRecord[]>;
+  flush(): Promise<void>; // Settle pending writes and push anything queued for another store
+}
+
+let sharedStore: MemoryStore | undefined;
+
+// Store selected by config.memory.backend; shared so every TradingMemory sees the same records
+export function createMemoryStore(): MemoryStore {
+  if (sharedStore) return sharedStore;
+
+  if (config.memory.backend === 'recall') {
+    sharedStore = new RecallMemory();
+  } else {
+    sharedStore = new LocalMemoryStore({
+      filePath: config.memory.file,
+      remote: config.memory.syncToRecall ? new RecallMemory() : undefined,
+      outboxFile: config.memory.outboxFile,
+      syncIntervalMs: config.memory.syncIntervalMs,
+    });
+  }
+  return sharedStore;
+}
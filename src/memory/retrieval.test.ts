@@ -0,0 +1,118 @@
+import { LocalMemoryStore } from './local-memory-store';
+import { MemoryRetriever, rankDocuments, tokenize } from './retrieval';
+import { TradingMemory, TradingMemoryEntry } from './trading-memory';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2024, 0, 10));
+
+function hoursAgo(hours: number): Date {
+  return new Date(NOW.getTime() - hours * HOUR);
+}
+
+describe('tokenize', () => {
+  it('lowercases, keeps decimals and drops stop words', () => {
+    expect(tokenize('The RSI is oversold at 28.5 on ETH/USDC')).toEqual(['rsi', 'oversold', '28.5', 'eth', 'usdc']);
+  });
+});
+
+describe('rankDocuments', () => {
+  it('ranks by TF-IDF similarity when documents are equally old', () => {
+    const documents = [
+      { text: 'low volatility downtrend bearish', timestamp: NOW },
+      { text: 'high volatility uptrend bullish rsi overbought', timestamp: NOW },
+      { text: 'high volatility downtrend bearish rsi oversold', timestamp: NOW },
+    ];
+
+    const ranked = rankDocuments('high volatility downtrend rsi oversold', documents, NOW, 72 * HOUR);
+
+    expect(ranked.map(entry => entry.document)).toEqual([documents[2], documents[1], documents[0]]);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+    ranked.forEach(entry => expect(entry.recency).toBe(1));
+  });
+
+  it('weighs rare terms above common ones', () => {
+    const documents = [
+      { text: 'volatility breakout', timestamp: NOW },
+      { text: 'volatility squeeze', timestamp: NOW },
+      { text: 'volatility drift', timestamp: NOW },
+    ];
+
+    const [best] = rankDocuments('volatility squeeze', documents, NOW, 72 * HOUR);
+
+    expect(best.document.text).toBe('volatility squeeze');
+    expect(best.similarity).toBeCloseTo(1, 10);
+  });
+
+  it('halves recency every half-life and blends it into the score', () => {
+    const documents = [
+      { text: 'rsi oversold', timestamp: hoursAgo(72) },
+      { text: 'rsi oversold', timestamp: hoursAgo(0) },
+      { text: 'unrelated note', timestamp: hoursAgo(144) },
+    ];
+
+    const ranked = rankDocuments('rsi oversold', documents, NOW, 72 * HOUR);
+
+    expect(ranked.map(entry => entry.recency)).toEqual([1, 0.5, 0.25]);
+    expect(ranked[0].score).toBeCloseTo(0.7 + 0.3, 10);
+    expect(ranked[1].score).toBeCloseTo(0.7 + 0.15, 10);
+    expect(ranked[2]).toMatchObject({ similarity: 0, score: 0.075 });
+  });
+
+  it('falls back to recency when nothing matches the query', () => {
+    const documents = [
+      { text: 'older', timestamp: hoursAgo(10) },
+      { text: 'newer', timestamp: hoursAgo(1) },
+    ];
+
+    expect(rankDocuments('nothing in common', documents, NOW, 72 * HOUR).map(entry => entry.document.text)).toEqual(['newer', 'older']);
+  });
+});
+
+describe('MemoryRetriever', () => {
+  let memory: TradingMemory;
+
+  const decision = (hours: number, action: 'buy' | 'sell', reason: string, profit?: number): TradingMemoryEntry => ({
+    timestamp: hoursAgo(hours),
+    symbol: 'ETH/USDC',
+    action,
+    signal: { action, confidence: 0.8, reason },
+    result: profit === undefined ? { executed: false } : { executed: true, price: 3000, profit },
+  });
+
+  beforeEach(() => {
+    memory = new TradingMemory(new LocalMemoryStore());
+    jest.spyOn(memory, 'getTradingHistory').mockResolvedValue([
+      decision(2, 'buy', 'macd crossover in an uptrend', -12.5),
+      decision(30, 'sell', 'rsi overbought in high volatility', 40),
+    ]);
+    jest.spyOn(memory, 'getMarketInsights').mockResolvedValue([
+      { timestamp: hoursAgo(5), insight: 'high volatility with rsi overbought near resistance', confidence: 0.7 },
+    ]);
+  });
+
+  it('summarizes the most relevant memories first', async () => {
+    const context = await new MemoryRetriever(memory).buildContext('ETH/USDC', 'high volatility rsi overbought', { now: NOW, maxEntries: 2, maxChars: 1000 });
+
+    expect(context.split('\n')).toEqual([
+      'Relevant memory for ETH/USDC (most relevant first):',
+      '- [2024-01-09] Insight conf 0.7: high volatility with rsi overbought near resistance',
+      '- [2024-01-08] SELL conf 0.8, executed @ 3000, profit +40.00: rsi overbought in high volatility',
+    ]);
+  });
+
+  it('stops adding lines at the character budget', async () => {
+    const context = await new MemoryRetriever(memory).buildContext('ETH/USDC', 'high volatility rsi overbought', { now: NOW, maxEntries: 5, maxChars: 140 });
+
+    expect(context.split('\n')).toHaveLength(2);
+    expect(context.length).toBeLessThanOrEqual(140);
+  });
+
+  it('returns nothing without memories or when memory fails', async () => {
+    jest.spyOn(memory, 'getTradingHistory').mockResolvedValue([]);
+    jest.spyOn(memory, 'getMarketInsights').mockResolvedValueOnce([]).mockRejectedValueOnce(new Error('offline'));
+    const retriever = new MemoryRetriever(memory);
+
+    await expect(retriever.buildContext('ETH/USDC', 'anything', { now: NOW })).resolves.toBe('');
+    await expect(retriever.buildContext('ETH/USDC', 'anything', { now: NOW })).resolves.toBe('');
+  });
+});
@@ -0,0 +1,160 @@
+import { config } from '../config';
+import { Candle, Timeframe } from '../market/candles';
+import { MIN_CANDLES, computeIndicators } from '../market/indicators';
+import { volatilityRegime } from '../strategies/strategy-registry';
+import { TradingMemory, TradingMemoryEntry, tradingMemory } from './trading-memory';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('memory.log');
+
+// Share of the score that comes from recency rather than text similarity
+const RECENCY_WEIGHT = 0.3;
+// Memories fetched per kind before ranking
+const CANDIDATE_LIMIT = 50;
+const MAX_LINE_LENGTH = 240;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'at', 'be', 'for', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+export interface RankableDocument {
+  text: string;
+  timestamp: Date;
+}
+
+export interface RankedDocument<T extends RankableDocument> {
+  document: T;
+  similarity: number;
+  recency: number;
+  score: number;
+}
+
+export interface ContextOptions {
+  maxEntries?: number;
+  maxChars?: number;
+  now?: Date;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?/g) || []).filter(token => !STOP_WORDS.has(token));
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+}
+
+function weightVector(counts: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  counts.forEach((count, term) => vector.set(term, count * (idf.get(term) || 0)));
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => (dot += weight * (b.get(term) || 0)));
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+// Rank documents by TF-IDF cosine similarity to the query blended with exponential recency decay
+export function rankDocuments<T extends RankableDocument>(
+  query: string,
+  documents: T[],
+  now: Date = new Date(),
+  halfLifeMs: number = config.retrieval.halfLifeHours * 60 * 60 * 1000
+): RankedDocument<T>[] {
+  const tokenized = documents.map(document => termFrequencies(tokenize(document.text)));
+  const documentFrequency = new Map<string, number>();
+  tokenized.forEach(counts => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, term) => idf.set(term, Math.log((documents.length + 1) / (df + 1)) + 1));
+  const queryVector = weightVector(termFrequencies(tokenize(query)), idf);
+
+  return documents
+    .map((document, index) => {
+      const similarity = cosine(queryVector, weightVector(tokenized[index], idf));
+      const age = Math.max(now.getTime() - document.timestamp.getTime(), 0);
+      const recency = halfLifeMs > 0 ? Math.pow(0.5, age / halfLifeMs) : 0;
+      return { document, similarity, recency, score: (1 - RECENCY_WEIGHT) * similarity + RECENCY_WEIGHT * recency };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Words describing the current regime, e.g. "high volatility uptrend rsi oversold"
+export function describeRegime(candles: Candle[], timeframe: Timeframe): string {
+  if (candles.length < MIN_CANDLES) return '';
+  const indicators = computeIndicators(candles, timeframe);
+  const words = [`${volatilityRegime(indicators.volatility)} volatility`];
+  words.push(indicators.movingAverages.ema12 > indicators.movingAverages.ema26 ? 'uptrend bullish' : 'downtrend bearish');
+  if (indicators.rsi < 30) words.push('rsi oversold');
+  if (indicators.rsi > 70) words.push('rsi overbought');
+  return words.join(' ');
+}
+
+function day(timestamp: Date): string {
+  return timestamp.toISOString().slice(0, 10);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.slice(0, length - 3)}...`;
+}
+
+function summarizeDecision(entry: TradingMemoryEntry): string {
+  const confidence = entry.decision?.confidence ?? entry.signal?.confidence;
+  const why = entry.decision?.rationale || entry.signal?.reason || entry.notes || '';
+  let outcome = 'not executed';
+  if (entry.result?.executed) {
+    outcome = `executed @ ${entry.result.price}`;
+    if (entry.result.profit !== undefined) {
+      outcome += `, profit ${entry.result.profit >= 0 ? '+' : ''}${entry.result.profit.toFixed(2)}`;
+    }
+  }
+  return `[${day(entry.timestamp)}] ${entry.action.toUpperCase()}${confidence !== undefined ? ` conf ${confidence}` : ''}, ${outcome}: ${why}`;
+}
+
+// Gathers past decisions, outcomes and insights for a symbol and turns the most relevant into a prompt block
+export class MemoryRetriever {
+  constructor(private memory: TradingMemory = tradingMemory) {}
+
+  async buildContext(symbol: string, situation: string, options: ContextOptions = {}): Promise<string> {
+    const maxEntries = options.maxEntries ?? config.retrieval.maxEntries;
+    const maxChars = options.maxChars ?? config.retrieval.maxChars;
+
+    try {
+      const [history, insights] = await Promise.all([
+        this.memory.getTradingHistory(symbol, CANDIDATE_LIMIT),
+        this.memory.getMarketInsights(symbol, CANDIDATE_LIMIT),
+      ]);
+
+      const documents: RankableDocument[] = [
+        ...history.map(entry => ({ text: summarizeDecision(entry), timestamp: entry.timestamp })),
+        ...insights.map(insight => ({
+          text: `[${day(insight.timestamp)}] Insight conf ${insight.confidence}: ${insight.insight}`,
+          timestamp: insight.timestamp,
+        })),
+      ];
+      if (documents.length === 0) return '';
+
+      const ranked = rankDocuments(`${symbol} ${situation}`, documents, options.now);
+      const header = `Relevant memory for ${symbol} (most relevant first):`;
+      const lines: string[] = [];
+      let length = header.length;
+      for (const { document } of ranked.slice(0, maxEntries)) {
+        const line = `- ${truncate(document.text.replace(/\s+/g, ' ').trim(), MAX_LINE_LENGTH)}`;
+        if (length + line.length + 1 > maxChars) break;
+        lines.push(line);
+        length += line.length + 1;
+      }
+
+      return lines.length > 0 ? [header, ...lines].join('\n') : '';
+    } catch (error) {
+      // Memory is advisory; never block a decision on it
+      logger.error(`Error building memory context for ${symbol}:`, error);
+      return '';
+    }
+  }
+}
+
+export const memoryRetriever = new MemoryRetriever();
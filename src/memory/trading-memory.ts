@@ -1,42 +1,101 @@
-import { RecallMemory } from '../services/recall-service';
+import { MemoryStore, createMemoryStore } from './memory-store';
 import { TradingSignal, TechnicalIndicators } from '../tools/trading-tools';
+import { AgentDecision } from '../decisions/agent-decision';
+import { PerformanceReport, ReportOptions, buildPerformanceReport, toTradeRecords } from '../analytics/performance';
+import { config } from '../config';
+import { OrderState } from '../execution/order-manager';
+
+// Most trading decisions searched for one performance report
+const ANALYTICS_LIMIT = 1000;
+
+// Keeps memory keys unique when several are stored in the same millisecond, e.g. the vetoes
+// of one rejected order
+let keySequence = 0;
 
 export interface TradingMemoryEntry {
   timestamp: Date;
   symbol: string;
   action: string;
   signal?: TradingSignal;
+  decision?: AgentDecision;
   indicators?: TechnicalIndicators;
+  strategy?: string; // TradingStrategy the order was placed under
   result?: {
     executed: boolean;
     price?: number;
-    amount?: number;
-    profit?: number;
+    amount?: number; // Base asset amount
+    notional?: number; // Quote asset amount
+    profit?: number; // Realized PnL of a sell
+    quotedAmountOut?: number;
+    amountOut?: number;
+    holdingTimeMs?: number; // Time the position was open, for sells
+    orderId?: string;
+    orderState?: OrderState;
+    txHash?: string;
+    algorithm?: string; // Execution algorithm that worked the order
+    slippagePercent?: number; // Average fill price against the arrival price
+    error?: string;
   };
   notes?: string;
 }
 
-export class TradingMemory {
-  private memory: RecallMemory;
+export interface RiskVetoEntry {
+  timestamp: Date;
+  symbol: string;
+  action: string;
+  notional?: number; // Undefined when the oracle had no price for the order
+  strategy: string;
+  source?: string;
+  code: string;
+  message: string;
+}
 
-  constructor() {
-    this.memory = new RecallMemory();
-  }
+export class TradingMemory {
+  constructor(private memory: MemoryStore = createMemoryStore()) {}
 
-  // Store trading decision
-  async storeTradingDecision(entry: TradingMemoryEntry): Promise<void> {
+  // Store trading decision; returns its key for later updates
+  async storeTradingDecision(entry: TradingMemoryEntry): Promise<string> {
     const memoryData = {
       type: 'trading_decision',
       timestamp: entry.timestamp.toISOString(),
       symbol: entry.symbol,
       action: entry.action,
       signal: entry.signal,
+      decision: entry.decision,
       indicators: entry.indicators,
+      strategy: entry.strategy,
       result: entry.result,
       notes: entry.notes,
     };
 
-    await this.memory.store(`trading_${entry.symbol}_${Date.now()}`, memoryData);
+    const key = `trading_${entry.symbol}_${Date.now()}_${++keySequence}`;
+    await this.memory.store(key, memoryData);
+    return key;
+  }
+
+  // Merge an order's outcome into a stored decision, e.g. once its transaction confirms
+  async updateTradingDecision(key: string, update: Pick<TradingMemoryEntry, 'result' | 'notes'>): Promise<void> {
+    const record = await this.memory.retrieve(key);
+    if (!record) {
+      throw new Error(`Failed to update trading decision: ${key} not found`);
+    }
+
+    await this.memory.store(key, {
+      ...record.data,
+      result: { ...record.data.result, ...update.result },
+      notes: update.notes ?? record.data.notes,
+    });
+  }
+
+  // Store an order rejected by the risk manager
+  async storeRiskVeto(entry: RiskVetoEntry): Promise<void> {
+    const memoryData = {
+      type: 'risk_veto',
+      ...entry,
+      timestamp: entry.timestamp.toISOString(),
+    };
+
+    await this.memory.store(`veto_${entry.symbol}_${Date.now()}_${++keySequence}`, memoryData);
   }
 
   // Retrieve trading history for a symbol
@@ -47,40 +106,35 @@ export class TradingMemory {
       limit,
     });
 
-    return memories.map(memory => ({
-      timestamp: new Date(memory.data.timestamp),
-      symbol: memory.data.symbol,
-      action: memory.data.action,
-      signal: memory.data.signal,
-      indicators: memory.data.indicators,
-      result: memory.data.result,
-      notes: memory.data.notes,
-    }));
+    return memories.map(memory => this.toEntry(memory.data));
+  }
+
+  // Most recent trading decisions across all symbols
+  async getRecentDecisions(limit: number = 20): Promise<TradingMemoryEntry[]> {
+    const memories = await this.memory.search({
+      query: 'recent trading decisions',
+      filters: { type: 'trading_decision' },
+      limit,
+    });
+
+    return memories.map(memory => this.toEntry(memory.data));
   }
 
-  // Get performance analytics
-  async getPerformanceAnalytics(symbol?: string): Promise<any> {
-    const filters: any = { type: 'trading_decision' };
+  // Performance report over executed trades, optionally for one symbol and time window
+  async getPerformanceAnalytics(symbol?: string, options: ReportOptions = {}): Promise<PerformanceReport> {
+    const filters: Record<string, unknown> = { type: 'trading_decision' };
     if (symbol) filters.symbol = symbol;
 
+    // Trades from the window start on: the window's own, and the later ones equityAtStart backs out
     const memories = await this.memory.search({
       query: 'trading performance analytics',
       filters,
-      limit: 100,
+      since: options.window?.from.toISOString(),
+      limit: ANALYTICS_LIMIT,
     });
 
-    const trades = memories.filter(m => m.data.result?.executed);
-    const totalTrades = trades.length;
-    const profitableTrades = trades.filter(t => (t.data.result?.profit || 0) > 0).length;
-    const totalProfit = trades.reduce((sum, t) => sum + (t.data.result?.profit || 0), 0);
-
-    return {
-      totalTrades,
-      profitableTrades,
-      winRate: totalTrades > 0 ? (profitableTrades / totalTrades) * 100 : 0,
-      totalProfit,
-      averageProfit: totalTrades > 0 ? totalProfit / totalTrades : 0,
-    };
+    const entries = memories.map(memory => this.toEntry(memory.data));
+    return buildPerformanceReport(toTradeRecords(entries, config.risk.strategy), options);
   }
 
   // Store market insights
@@ -93,7 +147,7 @@ export class TradingMemory {
       confidence,
     };
 
-    await this.memory.store(`insight_${symbol}_${Date.now()}`, memoryData);
+    await this.memory.store(`insight_${symbol}_${Date.now()}_${++keySequence}`, memoryData);
   }
 
   // Get relevant market insights
@@ -110,6 +164,25 @@ export class TradingMemory {
       confidence: memory.data.confidence,
     }));
   }
+
+  // Settle pending writes before shutdown
+  async flush(): Promise<void> {
+    await this.memory.flush();
+  }
+
+  private toEntry(data: any): TradingMemoryEntry {
+    return {
+      timestamp: new Date(data.timestamp),
+      symbol: data.symbol,
+      action: data.action,
+      signal: data.signal,
+      decision: data.decision,
+      indicators: data.indicators,
+      strategy: data.strategy,
+      result: data.result,
+      notes: data.notes,
+    };
+  }
 }
 
 export const tradingMemory = new TradingMemory();
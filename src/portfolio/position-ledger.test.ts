@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { tokenRegistry } from '../tokens/token-registry';
+import { Fill, PositionLedger, positionKey } from './position-ledger';
+
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+let nextId = 1;
+
+function fill(side: 'buy' | 'sell', quantity: number, price: number, extra: Partial<Fill> = {}): Fill {
+  return { id: `fill-${nextId++}`, timestamp: new Date(Date.UTC(2024, 0, 1, nextId)), symbol: 'ETH/USDC', side, quantity, price, ...extra };
+}
+
+describe('PositionLedger', () => {
+  it('realizes PnL against the oldest lots first with FIFO', () => {
+    const ledger = new PositionLedger('fifo', '');
+    ledger.recordFill(fill('buy', 1, 100));
+    ledger.recordFill(fill('buy', 1, 200));
+
+    const { realizedPnl, position } = ledger.recordFill(fill('sell', 1, 250));
+
+    expect(realizedPnl).toBe(150);
+    expect(position).toMatchObject({ quantity: 1, averageCost: 200, costBasis: 200, realizedPnl: 150, sellCount: 1 });
+  });
+
+  it('realizes PnL against the blended cost with average cost', () => {
+    const ledger = new PositionLedger('average', '');
+    ledger.recordFill(fill('buy', 1, 100));
+    ledger.recordFill(fill('buy', 1, 200));
+
+    const { realizedPnl, position } = ledger.recordFill(fill('sell', 1, 250));
+
+    expect(realizedPnl).toBe(100);
+    expect(position).toMatchObject({ quantity: 1, averageCost: 150, costBasis: 150 });
+    expect(position.lots).toHaveLength(1);
+  });
+
+  it('keeps the rest of a position open after a partial close', () => {
+    const ledger = new PositionLedger('fifo', '');
+    const opened = fill('buy', 2, 100, { fee: 2, stopLoss: 90, takeProfit: 130 });
+    ledger.recordFill(opened);
+
+    // The buy fee is part of the cost basis and the sell fee comes off the PnL
+    const { realizedPnl } = ledger.recordFill(fill('sell', 0.5, 120, { fee: 1 }));
+
+    expect(realizedPnl).toBeCloseTo(0.5 * (120 - 101) - 1, 12);
+    expect(ledger.getPosition('ETH/USDC')).toMatchObject({
+      quantity: 1.5,
+      averageCost: 101,
+      costBasis: 151.5,
+      openedAt: opened.timestamp,
+      stopLoss: 90,
+      takeProfit: 130,
+      sellCount: 1,
+    });
+    expect(ledger.getOpenPositions()).toHaveLength(1);
+  });
+
+  it('starts a fresh position after a full close', () => {
+    const ledger = new PositionLedger('fifo', '');
+    ledger.recordFill(fill('buy', 1, 100, { stopLoss: 90 }));
+    ledger.recordFill(fill('sell', 1, 110));
+    expect(ledger.getOpenPositions()).toEqual([]);
+
+    const reopened = fill('buy', 1, 120);
+    ledger.recordFill(reopened);
+
+    expect(ledger.getPosition('ETH/USDC')).toMatchObject({ quantity: 1, openedAt: reopened.timestamp, stopLoss: undefined, sellCount: 0, realizedPnl: 10 });
+  });
+
+  it('treats aliases of the same tokens as one position', () => {
+    const ledger = new PositionLedger('fifo', '');
+    ledger.recordFill(fill('buy', 1, 100));
+
+    const { realizedPnl } = ledger.recordFill(fill('sell', 0.4, 150, { symbol: 'WETH/USDC' }));
+
+    expect(realizedPnl).toBeCloseTo(20, 12);
+    expect(positionKey('ETH/USDC')).toBe(positionKey('WETH/USDC'));
+    expect(positionKey('ETH/USDC')).not.toBe(positionKey('ETH/USDC@base'));
+    expect(ledger.getPosition('WETH/USDC')).toMatchObject({ symbol: 'ETH/USDC', quantity: 0.6 });
+    expect(ledger.getFills('WETH/USDC')).toHaveLength(2);
+    expect(ledger.getOpenPositions()).toHaveLength(1);
+    expect(ledger.getPnl({ 'WETH/USDC': 200 })).toEqual([
+      { symbol: 'ETH/USDC', quantity: 0.6, averageCost: 100, markPrice: 200, realizedPnl: realizedPnl, unrealizedPnl: expect.closeTo(60, 10) },
+    ]);
+  });
+
+  it('reports where the venue holds a different quantity than the ledger', () => {
+    const ledger = new PositionLedger('fifo', '');
+    ledger.recordFill(fill('buy', 1, 100));
+
+    const portfolio = (amount: number) => ({ totalBalance: 0, tokens: [{ token: WETH.address.toLowerCase(), amount, price: 100, value: amount * 100 }] });
+
+    expect(ledger.reconcile(portfolio(1))).toEqual([]);
+    expect(ledger.reconcile(portfolio(0.8))).toEqual([
+      { symbol: 'ETH/USDC', token: WETH.address, ledgerQuantity: 1, portfolioQuantity: 0.8, difference: expect.closeTo(-0.2, 10) },
+    ]);
+    expect(ledger.reconcile({ totalBalance: 0, tokens: [] })[0]).toMatchObject({ portfolioQuantity: 0, difference: -1 });
+  });
+
+  describe('with a ledger file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('replays its fills on startup and skips a line cut short', () => {
+      const file = path.join(dir, 'positions.jsonl');
+      const first = new PositionLedger('fifo', file);
+      first.recordFill(fill('buy', 2, 100));
+      first.recordFill(fill('sell', 1, 150));
+      fs.appendFileSync(file, '{"id":"partial","side":"bu');
+
+      const reloaded = new PositionLedger('fifo', file);
+
+      expect(reloaded.getFills()).toEqual(first.getFills());
+      expect(reloaded.getPosition('ETH/USDC')).toEqual(first.getPosition('ETH/USDC'));
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import { config } from '../config';
+import { TokenInfo, chains, sameAddress, tokenRegistry } from '../tokens/token-registry';
+import { PortfolioBalance } from '../tools/recall-tools';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('ledger.log');
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface Fill {
+  id: string;
+  timestamp: Date;
+  symbol: string; // Trading pair, e.g. ETH/USDC
+  side: 'buy' | 'sell';
+  quantity: number; // Base asset amount
+  price: number; // Quote asset per base asset
+  fee?: number; // In quote asset
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+interface Lot {
+  quantity: number;
+  price: number;
+  timestamp: Date;
+}
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  costBasis: number;
+  realizedPnl: number;
+  openedAt?: Date;
+  stopLoss?: number;
+  takeProfit?: number;
+  sellCount: number; // Sells since the position was opened
+  lots: Lot[];
+}
+
+export interface PositionPnl {
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  markPrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface ReconciliationDifference {
+  symbol: string;
+  token: string;
+  ledgerQuantity: number;
+  portfolioQuantity: number;
+  difference: number;
+}
+
+// Quantities below this are treated as a closed position
+const QUANTITY_EPSILON = 1e-12;
+
+function addressKey(token: TokenInfo): string {
+  return chains[token.chain].recallChain === 'evm' ? token.address.toLowerCase() : token.address;
+}
+
+// Positions are keyed by the pair's resolved token addresses, so aliases such as ETH/USDC
+// and WETH/USDC are one position. Pairs the registry can't resolve keep their raw symbol.
+export function positionKey(symbol: string): string {
+  try {
+    const { base, quote, chain } = tokenRegistry.resolvePair(symbol);
+    return `${chain}:${addressKey(base)}/${addressKey(quote)}`;
+  } catch (error) {
+    return symbol;
+  }
+}
+
+// Append-only record of every fill, with cost basis and realized/unrealized PnL per pair.
+// A position keeps the symbol of the fill that first opened it.
+export class PositionLedger {
+  private positions = new Map<string, Position>();
+  private fills: Fill[] = [];
+
+  constructor(
+    private method: CostBasisMethod = config.ledger.costBasis,
+    private filePath: string = config.ledger.file // Empty string keeps the ledger in memory only
+  ) {
+    this.load();
+  }
+
+  // Record a fill and return the PnL it realized (0 for buys)
+  recordFill(fill: Fill): { realizedPnl: number; position: Position } {
+    const realizedPnl = this.apply(fill);
+    this.fills.push(fill);
+    this.append(fill);
+
+    const position = this.getPosition(fill.symbol)!;
+    logger.info(`Recorded ${fill.side} ${fill.quantity} ${fill.symbol} @ ${fill.price}`, { realizedPnl, quantity: position.quantity });
+    return { realizedPnl, position };
+  }
+
+  getPosition(symbol: string): Position | undefined {
+    const position = this.positions.get(positionKey(symbol));
+    return position ? { ...position, lots: position.lots.map(lot => ({ ...lot })) } : undefined;
+  }
+
+  getOpenPositions(): Position[] {
+    return [...this.positions.values()]
+      .filter(position => position.quantity > QUANTITY_EPSILON)
+      .map(position => ({ ...position, lots: position.lots.map(lot => ({ ...lot })) }));
+  }
+
+  getFills(symbol?: string): Fill[] {
+    const key = symbol && positionKey(symbol);
+    return this.fills.filter(fill => !key || positionKey(fill.symbol) === key).map(fill => ({ ...fill }));
+  }
+
+  // Realized and unrealized PnL for every pair, marking open quantity at the given prices
+  getPnl(markPrices: Record<string, number>): PositionPnl[] {
+    const marks = new Map(Object.entries(markPrices).map(([symbol, price]) => [positionKey(symbol), price]));
+    return [...this.positions.entries()].map(([key, position]) => {
+      const markPrice = marks.get(key) ?? position.averageCost;
+      return {
+        symbol: position.symbol,
+        quantity: position.quantity,
+        averageCost: position.averageCost,
+        markPrice,
+        realizedPnl: position.realizedPnl,
+        unrealizedPnl: position.quantity * markPrice - position.costBasis,
+      };
+    });
+  }
+
+  // Compare ledger quantities with the venue's balances for the base asset of every tracked pair
+  reconcile(portfolio: PortfolioBalance, tolerance: number = 1e-6): ReconciliationDifference[] {
+    const differences: ReconciliationDifference[] = [];
+    for (const position of this.positions.values()) {
+      const { base } = tokenRegistry.resolvePair(position.symbol);
+      const held = portfolio.tokens.find(token => sameAddress(token.token, base.address))?.amount || 0;
+      const difference = held - position.quantity;
+      if (Math.abs(difference) > tolerance) {
+        differences.push({
+          symbol: position.symbol,
+          token: base.address,
+          ledgerQuantity: position.quantity,
+          portfolioQuantity: held,
+          difference,
+        });
+      }
+    }
+
+    if (differences.length > 0) {
+      logger.warn('Ledger does not match portfolio balances', { differences });
+    }
+    return differences;
+  }
+
+  private apply(fill: Fill): number {
+    const key = positionKey(fill.symbol);
+    const position = this.positions.get(key) || {
+      symbol: fill.symbol,
+      quantity: 0,
+      averageCost: 0,
+      costBasis: 0,
+      realizedPnl: 0,
+      sellCount: 0,
+      lots: [],
+    };
+    this.positions.set(key, position);
+    const fee = fill.fee || 0;
+
+    if (fill.side === 'buy') {
+      if (position.quantity <= QUANTITY_EPSILON) {
+        position.openedAt = fill.timestamp;
+        position.sellCount = 0;
+        position.lots = [];
+        position.stopLoss = undefined;
+        position.takeProfit = undefined;
+      }
+      // Fees on buys are capitalized into the cost basis
+      const lotPrice = (fill.quantity * fill.price + fee) / fill.quantity;
+      if (this.method === 'average' && position.lots.length > 0) {
+        const lot = position.lots[0];
+        lot.price = (lot.quantity * lot.price + fill.quantity * lotPrice) / (lot.quantity + fill.quantity);
+        lot.quantity += fill.quantity;
+      } else {
+        position.lots.push({ quantity: fill.quantity, price: lotPrice, timestamp: fill.timestamp });
+      }
+      position.stopLoss = fill.stopLoss ?? position.stopLoss;
+      position.takeProfit = fill.takeProfit ?? position.takeProfit;
+      this.refresh(position);
+      return 0;
+    }
+
+    // Sells consume lots oldest first; with average cost there is only one lot
+    let remaining = fill.quantity;
+    let realizedPnl = -fee;
+    while (remaining > QUANTITY_EPSILON && position.lots.length > 0) {
+      const lot = position.lots[0];
+      const matched = Math.min(lot.quantity, remaining);
+      realizedPnl += matched * (fill.price - lot.price);
+      lot.quantity -= matched;
+      remaining -= matched;
+      if (lot.quantity <= QUANTITY_EPSILON) position.lots.shift();
+    }
+    if (remaining > QUANTITY_EPSILON) {
+      logger.warn(`Sell of ${fill.quantity} ${fill.symbol} exceeds ledger quantity by ${remaining}; excess has no cost basis`);
+    }
+
+    position.realizedPnl += realizedPnl;
+    position.sellCount += 1;
+    this.refresh(position);
+    return realizedPnl;
+  }
+
+  private refresh(position: Position): void {
+    position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.costBasis = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0);
+    position.averageCost = position.quantity > QUANTITY_EPSILON ? position.costBasis / position.quantity : 0;
+  }
+
+  // Replay the fill log
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+    // A line cut short by a crash mid-write must not keep the agent from starting
+    for (const line of lines) {
+      let data: any;
+      try {
+        data = JSON.parse(line);
+      } catch (error) {
+        logger.error(`Skipping unparseable fill in ${this.filePath}: ${line.slice(0, 80)}`);
+        continue;
+      }
+      const fill: Fill = { ...data, timestamp: new Date(data.timestamp) };
+      this.apply(fill);
+      this.fills.push(fill);
+    }
+    logger.info(`Loaded ${this.fills.length} fills from ${this.filePath}`);
+  }
+
+  private append(fill: Fill): void {
+    if (!this.filePath) return;
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify({ ...fill, timestamp: fill.timestamp.toISOString() }) + '\n');
+    } catch (error) {
+      logger.error(`Error appending fill to ${this.filePath}:`, error);
+    }
+  }
+}
+
+export const positionLedger = new PositionLedger();
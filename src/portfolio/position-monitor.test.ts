@@ -0,0 +1,135 @@
+// The installed @mastra/core predates Tool; a stand-in keeps each tool's execute callable
+jest.mock('@mastra/core', () => ({
+  Tool: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+}));
+
+import { AnyTradingEvent } from '../events/events';
+import { EventBus } from '../events/event-bus';
+import { TradeExecutor } from '../execution/trade-executor';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { RiskManager } from '../risk/risk-manager';
+import { FakeClock } from '../scheduler/clock';
+import { RecallNetworkTools } from '../tools/recall-tools';
+import { TradeDecision } from '../workflows/trade-decision';
+import { PositionLedger } from './position-ledger';
+import { PositionMonitor, PositionMonitorOptions } from './position-monitor';
+
+const MINUTE = 60_000;
+const OPTIONS: PositionMonitorOptions = { intervalMs: MINUTE, trailingStopPercent: 0, maxHoldingMs: 0 };
+
+describe('PositionMonitor', () => {
+  let clock: FakeClock;
+  let ledger: PositionLedger;
+  let price: number;
+  let exits: TradeDecision[];
+  let events: AnyTradingEvent[];
+  let risk: RiskManager;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1, 12));
+    ledger = new PositionLedger('fifo', '');
+    price = 3000;
+    exits = [];
+    events = [];
+    risk = new RiskManager(new TradingMemory(new LocalMemoryStore()), false, '');
+  });
+
+  function monitor(options: Partial<PositionMonitorOptions> = {}): PositionMonitor {
+    const recall = {
+      getMarketData: { execute: async ({ symbol }: { symbol: string }) => ({ symbol, price }) },
+      getPortfolioBalance: { execute: async () => ({ totalBalance: 10_000, tokens: [] }) },
+    } as unknown as RecallNetworkTools;
+    const executor = {
+      execute: async (decision: TradeDecision) => {
+        exits.push(decision);
+        return { executed: true, action: 'sell', price };
+      },
+    } as unknown as TradeExecutor;
+    const bus = new EventBus();
+    bus.onAny(event => events.push(event));
+    const positionMonitor = new PositionMonitor(ledger, recall, executor, { ...OPTIONS, ...options }, bus, risk, clock);
+    positionMonitor.start();
+    return positionMonitor;
+  }
+
+  function open(stopLoss?: number, takeProfit?: number) {
+    ledger.recordFill({ id: 'buy', timestamp: new Date(clock.now()), symbol: 'ETH/USDC', side: 'buy', quantity: 1, price: 3000, stopLoss, takeProfit });
+  }
+
+  it('exits the whole position when price reaches the stop loss', async () => {
+    open(2900, 3500);
+    const running = monitor();
+
+    await clock.advance(MINUTE);
+    expect(exits).toEqual([]);
+
+    price = 2890;
+    await clock.advance(MINUTE);
+    running.stop();
+
+    expect(exits).toEqual([expect.objectContaining({ action: 'sell', symbol: 'ETH/USDC', closeFraction: 1, source: 'position-monitor' })]);
+    expect(exits[0].reason).toBe('stop_loss: Price 2890 at or below stop loss 2900');
+    expect(events.find(event => event.type === 'stop_triggered')?.data).toMatchObject({ reason: 'stop_loss', price: 2890 });
+  });
+
+  it('trails the stop from the highest price once in profit', async () => {
+    open();
+    const running = monitor({ trailingStopPercent: 5 });
+
+    price = 3300;
+    await clock.advance(MINUTE);
+    price = 3150; // Above 5% under the 3300 high
+    await clock.advance(MINUTE);
+    expect(exits).toEqual([]);
+
+    price = 3130;
+    await clock.advance(MINUTE);
+    running.stop();
+
+    expect(exits.map(exit => exit.reason)).toEqual(['trailing_stop: Price 3130 fell 5% from high 3300']);
+  });
+
+  it('leaves losses to the fixed stop rather than the trailing stop', async () => {
+    open();
+    const running = monitor({ trailingStopPercent: 5 });
+
+    price = 2800;
+    await clock.advance(3 * MINUTE);
+    running.stop();
+
+    expect(exits).toEqual([]);
+  });
+
+  it('exits a position held past the holding limit', async () => {
+    open();
+    const running = monitor({ maxHoldingMs: 2 * 60 * MINUTE });
+
+    await clock.advance(119 * MINUTE);
+    expect(exits).toEqual([]);
+
+    await clock.advance(MINUTE);
+    running.stop();
+
+    expect(exits.map(exit => exit.reason)).toEqual(['time_exit: Position held longer than 2h']);
+  });
+
+  it('samples equity on every tick and stops polling once stopped', async () => {
+    const record = jest.spyOn(risk, 'recordEquity');
+    const running = monitor();
+
+    await clock.advance(2 * MINUTE);
+    running.stop();
+    await clock.advance(5 * MINUTE);
+
+    expect(record.mock.calls.map(([equity, at]) => [equity, at?.getTime()])).toEqual([
+      [10_000, Date.UTC(2024, 0, 1, 12, 1)],
+      [10_000, Date.UTC(2024, 0, 1, 12, 2)],
+    ]);
+    expect(clock.pendingSleepers()).toBe(0);
+  });
+});
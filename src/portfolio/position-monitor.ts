@@ -0,0 +1,180 @@
+import { config } from '../config';
+import { TradeExecutor, tradeExecutor } from '../execution/trade-executor';
+import { RecallNetworkTools, recallTools } from '../tools/recall-tools';
+import { Position, PositionLedger, positionLedger } from './position-ledger';
+import { RiskManager, riskManager } from '../risk/risk-manager';
+import { EventBus, eventBus } from '../events/event-bus';
+import { Clock, systemClock } from '../scheduler/clock';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('position-monitor.log');
+
+export type ExitReason = 'stop_loss' | 'take_profit' | 'trailing_stop' | 'time_exit';
+
+export interface ExitTrigger {
+  symbol: string;
+  reason: ExitReason;
+  message: string;
+  price: number;
+}
+
+export interface PositionMonitorOptions {
+  intervalMs: number;
+  trailingStopPercent: number; // 0 disables the trailing stop
+  maxHoldingMs: number; // 0 disables time-based exits
+}
+
+// Decide whether an open position should be exited at the current price
+export function evaluateExit(
+  position: Position,
+  price: number,
+  highWaterMark: number,
+  now: Date,
+  options: Pick<PositionMonitorOptions, 'trailingStopPercent' | 'maxHoldingMs'>
+): ExitTrigger | undefined {
+  const { symbol } = position;
+
+  if (position.stopLoss && price <= position.stopLoss) {
+    return { symbol, reason: 'stop_loss', price, message: `Price ${price} at or below stop loss ${position.stopLoss}` };
+  }
+  if (position.takeProfit && price >= position.takeProfit) {
+    return { symbol, reason: 'take_profit', price, message: `Price ${price} at or above take profit ${position.takeProfit}` };
+  }
+  if (options.trailingStopPercent > 0) {
+    const trailingStop = highWaterMark * (1 - options.trailingStopPercent / 100);
+    // Only trail once the position is in profit, so the fixed stop governs losses
+    if (highWaterMark > position.averageCost && price <= trailingStop) {
+      return {
+        symbol,
+        reason: 'trailing_stop',
+        price,
+        message: `Price ${price} fell ${options.trailingStopPercent}% from high ${highWaterMark}`,
+      };
+    }
+  }
+  if (options.maxHoldingMs > 0 && position.openedAt && now.getTime() - position.openedAt.getTime() >= options.maxHoldingMs) {
+    return {
+      symbol,
+      reason: 'time_exit',
+      price,
+      message: `Position held longer than ${options.maxHoldingMs / 3600000}h`,
+    };
+  }
+  return undefined;
+}
+
+// Polls prices for open ledger positions and exits them through the normal execution path
+export class PositionMonitor {
+  private stopping?: AbortController;
+  private running = false;
+  private highWaterMarks = new Map<string, number>();
+  private exiting = new Set<string>();
+
+  constructor(
+    private ledger: PositionLedger = positionLedger,
+    private recall: RecallNetworkTools = recallTools,
+    private executor: TradeExecutor = tradeExecutor,
+    private options: PositionMonitorOptions = {
+      intervalMs: config.monitor.intervalMs,
+      trailingStopPercent: config.monitor.trailingStopPercent,
+      maxHoldingMs: config.monitor.maxHoldingHours * 60 * 60 * 1000,
+    },
+    private events: EventBus = eventBus,
+    private risk: RiskManager = riskManager,
+    private clock: Clock = systemClock
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.stopping = new AbortController();
+    logger.info(`Position monitor started (every ${this.options.intervalMs}ms)`);
+    void this.run(this.stopping.signal);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.stopping?.abort();
+    this.stopping = undefined;
+    logger.info('Position monitor stopped');
+  }
+
+  // Evaluate every open position once; returns the exits that were triggered
+  async checkPositions(now: Date = new Date(this.clock.now())): Promise<ExitTrigger[]> {
+    const triggers: ExitTrigger[] = [];
+    await this.sampleEquity(now);
+
+    for (const position of this.ledger.getOpenPositions()) {
+      if (this.exiting.has(position.symbol)) continue;
+
+      try {
+        const { price } = await this.recall.getMarketData.execute({ symbol: position.symbol });
+        const key = `${position.symbol}:${position.openedAt?.getTime()}`;
+        const highWaterMark = Math.max(this.highWaterMarks.get(key) ?? position.averageCost, price);
+        this.highWaterMarks.set(key, highWaterMark);
+
+        const trigger = evaluateExit(position, price, highWaterMark, now, this.options);
+        if (trigger) {
+          triggers.push(trigger);
+          await this.exit(trigger);
+          this.highWaterMarks.delete(key);
+        }
+      } catch (error) {
+        logger.error(`Error monitoring position ${position.symbol}:`, error);
+        this.events.emit('loop_error', {
+          source: 'position-monitor',
+          symbol: position.symbol,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return triggers;
+  }
+
+  // Feed the risk manager's daily and weekly equity peaks on every tick, not only when an order
+  // is checked, so a drawdown from a peak reached between orders still trips the breakers
+  private async sampleEquity(now: Date): Promise<void> {
+    try {
+      const portfolio = await this.recall.getPortfolioBalance.execute({});
+      this.risk.recordEquity(portfolio.totalBalance, now);
+    } catch (error) {
+      logger.error('Error sampling portfolio equity:', error);
+      this.events.emit('loop_error', { source: 'position-monitor', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async exit(trigger: ExitTrigger): Promise<void> {
+    logger.warn(`Exit triggered for ${trigger.symbol} (${trigger.reason}): ${trigger.message}`);
+    this.events.emit('stop_triggered', { ...trigger, source: 'position-monitor' });
+    this.exiting.add(trigger.symbol);
+    try {
+      const result = await this.executor.execute({
+        execute: true,
+        action: 'sell',
+        symbol: trigger.symbol,
+        closeFraction: 1,
+        reason: `${trigger.reason}: ${trigger.message}`,
+        confidence: 1,
+        source: 'position-monitor',
+      });
+      if (result.executed) {
+        logger.info(`Exited ${trigger.symbol} at ${result.price} (${trigger.reason})`, { txHash: result.txHash, realizedPnl: result.realizedPnl });
+      } else {
+        logger.error(`Exit for ${trigger.symbol} (${trigger.reason}) did not execute: ${result.reason || result.error}`);
+      }
+    } finally {
+      this.exiting.delete(trigger.symbol);
+    }
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    for (;;) {
+      await this.clock.sleep(this.options.intervalMs, signal);
+      if (signal.aborted) return;
+      await this.checkPositions();
+    }
+  }
+}
+
+export const positionMonitor = new PositionMonitor();
@@ -0,0 +1,114 @@
+import { FakeClock } from '../scheduler/clock';
+import { tokenRegistry } from '../tokens/token-registry';
+import { PriceOracle, PriceOracleError, PriceOracleOptions, median } from './price-oracle';
+import { FakePriceSource } from './testing';
+
+const OPTIONS: PriceOracleOptions = { maxAgeMs: 60_000, maxDeviationPercent: 1, minSources: 2, cacheTtlMs: 5000 };
+
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+
+describe('median', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe('PriceOracle', () => {
+  let clock: FakeClock;
+  let now: Date;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1, 12, 0));
+    now = new Date(clock.now());
+  });
+
+  it('answers with the median of the fresh readings', async () => {
+    const sources = [
+      new FakePriceSource('a').set('WETH', 3000, now),
+      new FakePriceSource('b').set('WETH', 3010, now),
+      new FakePriceSource('c').set('WETH', 3020, now),
+    ];
+    const oracle = new PriceOracle(sources, OPTIONS, clock);
+
+    const price = await oracle.getPrice(WETH);
+
+    expect(price.price).toBe(3010);
+    expect(price.deviationPercent).toBeCloseTo((10 / 3010) * 100, 10);
+    expect(price.readings.map(reading => reading.source)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('leaves stale and failed readings out of the median', async () => {
+    const sources = [
+      new FakePriceSource('a').set('WETH', 3000, now),
+      new FakePriceSource('b').set('WETH', 3004, now),
+      new FakePriceSource('stale').set('WETH', 2500, new Date(clock.now() - 120_000)),
+      new FakePriceSource('down').fail('WETH'),
+    ];
+    const oracle = new PriceOracle(sources, OPTIONS, clock);
+
+    const price = await oracle.getPrice(WETH);
+
+    expect(price.price).toBe(3002);
+    expect(price.readings).toEqual([
+      expect.objectContaining({ source: 'a', stale: false }),
+      expect.objectContaining({ source: 'b', stale: false }),
+      expect.objectContaining({ source: 'stale', stale: true }),
+      { source: 'down', stale: false, error: 'down unavailable' },
+    ]);
+  });
+
+  it('refuses to answer without enough fresh readings', async () => {
+    const sources = [
+      new FakePriceSource('a').set('WETH', 3000, now),
+      new FakePriceSource('stale').set('WETH', 3000, new Date(clock.now() - 120_000)),
+    ];
+    const oracle = new PriceOracle(sources, OPTIONS, clock);
+
+    const error = await oracle.getPrice(WETH).catch(e => e);
+
+    expect(error).toBeInstanceOf(PriceOracleError);
+    expect(error.code).toBe('no_fresh_price');
+    expect(error.message).toBe('Only 1 fresh price sources for WETH, 2 required');
+  });
+
+  it('needs only the sources that cover the token', async () => {
+    const sources = [new FakePriceSource('a').set('WETH', 3000, now), new FakePriceSource('other')];
+    const oracle = new PriceOracle(sources, OPTIONS, clock);
+
+    await expect(oracle.getPrice(WETH)).resolves.toMatchObject({ price: 3000 });
+  });
+
+  it('refuses to answer when fresh readings disagree', async () => {
+    const sources = [new FakePriceSource('a').set('WETH', 3000, now), new FakePriceSource('b').set('WETH', 3100, now)];
+    const oracle = new PriceOracle(sources, OPTIONS, clock);
+
+    const error = await oracle.getPrice(WETH).catch(e => e);
+
+    expect(error).toBeInstanceOf(PriceOracleError);
+    expect(error.code).toBe('sources_disagree');
+    expect(error.message).toContain('a 3000, b 3100');
+    expect(error.readings).toHaveLength(2);
+  });
+
+  it('caches a price for cacheTtlMs', async () => {
+    const source = new FakePriceSource('a').set('WETH', 3000, now);
+    const oracle = new PriceOracle([source], { ...OPTIONS, minSources: 1 }, clock);
+
+    await oracle.getPrice(WETH);
+    await oracle.getPrice(WETH);
+    expect(source.calls).toBe(1);
+
+    await clock.advance(5000);
+    source.set('WETH', 3050, new Date(clock.now()));
+    await expect(oracle.getPrice(WETH)).resolves.toMatchObject({ price: 3050 });
+    expect(source.calls).toBe(2);
+  });
+
+  it('prices a pair in its quote asset', async () => {
+    const sources = [new FakePriceSource('a').set('WETH', 3000, now).set('USDC', 0.998, now)];
+    const oracle = new PriceOracle(sources, { ...OPTIONS, minSources: 1 }, clock);
+
+    await expect(oracle.getPairPrice('ETH/USDC')).resolves.toBeCloseTo(3000 / 0.998, 10);
+  });
+});
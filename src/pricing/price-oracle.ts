@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { Clock, systemClock } from '../scheduler/clock';
+import { createTradingVenue } from '../services/trading-venue';
+import { TokenInfo, tokenRegistry } from '../tokens/token-registry';
+import { ChainlinkPriceSource, DexQuotePriceSource, PriceSource, RecallPriceSource, parseFeeds } from './price-sources';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('price-oracle.log');
+
+export interface PriceOracleOptions {
+  maxAgeMs: number; // Readings older than this are stale and left out
+  maxDeviationPercent: number; // Largest distance of any fresh reading from the median
+  minSources: number; // Fresh readings needed for a price, at most the number of sources covering the token
+  cacheTtlMs: number;
+}
+
+export interface SourceReading {
+  source: string;
+  price?: number;
+  timestamp?: Date;
+  stale: boolean;
+  error?: string;
+}
+
+export interface OraclePrice {
+  symbol: string;
+  price: number; // Median of the fresh readings, in USD
+  deviationPercent: number; // Largest distance of a fresh reading from the median
+  readings: SourceReading[];
+  timestamp: Date;
+}
+
+export type PriceOracleErrorCode = 'no_fresh_price' | 'sources_disagree';
+
+export class PriceOracleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PriceOracleErrorCode,
+    public readonly readings: SourceReading[]
+  ) {
+    super(message);
+    this.name = 'PriceOracleError';
+  }
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Combines several price sources into one median USD price, leaving out stale readings and
+// refusing to answer when fresh readings disagree by more than maxDeviationPercent
+export class PriceOracle {
+  private cache = new Map<string, { expiresAt: number; price: OraclePrice }>();
+
+  constructor(
+    private sources: PriceSource[],
+    private options: PriceOracleOptions = {
+      maxAgeMs: config.oracle.maxAgeMs,
+      maxDeviationPercent: config.oracle.maxDeviationPercent,
+      minSources: config.oracle.minSources,
+      cacheTtlMs: config.oracle.cacheTtlMs,
+    },
+    private clock: Clock = systemClock
+  ) {}
+
+  async getPrice(token: TokenInfo): Promise<OraclePrice> {
+    const key = `${token.chain}:${token.address}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > this.clock.now()) return cached.price;
+
+    const now = this.clock.now();
+    const results = await Promise.allSettled(this.sources.map(source => source.getPrice(token)));
+    const readings: SourceReading[] = [];
+    results.forEach((result, index) => {
+      const source = this.sources[index].name;
+      if (result.status === 'rejected') {
+        readings.push({ source, stale: false, error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+      } else if (result.value) {
+        const { price, timestamp } = result.value;
+        readings.push({ source, price, timestamp, stale: now - timestamp.getTime() > this.options.maxAgeMs });
+      }
+    });
+
+    const fresh = readings.filter(reading => reading.price !== undefined && !reading.stale && reading.price > 0);
+    readings
+      .filter(reading => reading.stale)
+      .forEach(reading => logger.warn(`Stale ${reading.source} price for ${token.symbol} from ${reading.timestamp!.toISOString()}`));
+
+    const required = Math.max(Math.min(this.options.minSources, readings.length), 1);
+    if (fresh.length < required) {
+      throw new PriceOracleError(
+        `Only ${fresh.length} fresh price sources for ${token.symbol}, ${required} required`,
+        'no_fresh_price',
+        readings
+      );
+    }
+
+    const price = median(fresh.map(reading => reading.price!));
+    const deviationPercent = Math.max(...fresh.map(reading => (Math.abs(reading.price! - price) / price) * 100));
+    if (deviationPercent > this.options.maxDeviationPercent) {
+      const detail = fresh.map(reading => `${reading.source} ${reading.price}`).join(', ');
+      throw new PriceOracleError(
+        `Price sources for ${token.symbol} disagree by ${deviationPercent.toFixed(2)}% (${detail})`,
+        'sources_disagree',
+        readings
+      );
+    }
+
+    const result: OraclePrice = { symbol: token.symbol, price, deviationPercent, readings, timestamp: new Date(now) };
+    this.cache.set(key, { expiresAt: now + this.options.cacheTtlMs, price: result });
+    return result;
+  }
+
+  // Quote asset per base asset for a BASE/QUOTE pair
+  async getPairPrice(symbol: string): Promise<number> {
+    const { base, quote } = tokenRegistry.resolvePair(symbol);
+    const [basePrice, quotePrice] = await Promise.all([this.getPrice(base), this.getPrice(quote)]);
+    return basePrice.price / quotePrice.price;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+let sharedOracle: PriceOracle | undefined;
+
+// Oracle over the sources named in ORACLE_SOURCES; Chainlink also needs RPC_URL and CHAINLINK_FEEDS
+export function createPriceOracle(): PriceOracle {
+  if (sharedOracle) return sharedOracle;
+
+  const venue = createTradingVenue();
+  const sources: PriceSource[] = [];
+  for (const name of config.oracle.sources) {
+    if (name === 'recall') {
+      sources.push(new RecallPriceSource(venue));
+    } else if (name === 'dex') {
+      sources.push(new DexQuotePriceSource(venue, config.oracle.referenceToken, config.oracle.referenceAmount));
+    } else if (name === 'chainlink') {
+      if (!config.orders.rpcUrl || !config.oracle.chainlinkFeeds) {
+        logger.warn('Chainlink price source needs RPC_URL and CHAINLINK_FEEDS; skipping it');
+        continue;
+      }
+      const provider = new ethers.JsonRpcProvider(config.orders.rpcUrl);
+      sources.push(new ChainlinkPriceSource(provider, parseFeeds(config.oracle.chainlinkFeeds)));
+    } else {
+      throw new Error(`Unknown price source in ORACLE_SOURCES: ${name}`);
+    }
+  }
+
+  sharedOracle = new PriceOracle(sources);
+  return sharedOracle;
+}
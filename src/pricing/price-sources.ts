@@ -0,0 +1,94 @@
+import { ethers } from 'ethers';
+import { TradingVenue } from '../services/trading-venue';
+import { TokenInfo, chains, tokenRegistry } from '../tokens/token-registry';
+
+// A USD price for a token as one source saw it
+export interface PriceReading {
+  price: number;
+  timestamp: Date; // When the source last updated the price
+}
+
+export interface PriceSource {
+  readonly name: string;
+  // Resolves to undefined when the source doesn't cover the token
+  getPrice(token: TokenInfo): Promise<PriceReading | undefined>;
+}
+
+// Recall's price endpoint (or the paper exchange's marks in paper mode)
+export class RecallPriceSource implements PriceSource {
+  readonly name = 'recall';
+
+  constructor(private venue: Pick<TradingVenue, 'getPrice'>) {}
+
+  async getPrice(token: TokenInfo): Promise<PriceReading> {
+    const chain = chains[token.chain];
+    const response = await this.venue.getPrice(token.address, chain.recallChain, chain.specificChain);
+    return { price: response.price, timestamp: new Date(response.timestamp) };
+  }
+}
+
+// Price implied by a swap quote from a stablecoin into the token. The quote includes fees and
+// price impact, so the reference amount should be small next to pool depth.
+export class DexQuotePriceSource implements PriceSource {
+  readonly name = 'dex';
+
+  constructor(
+    private venue: Pick<TradingVenue, 'getQuote'>,
+    private referenceSymbol: string,
+    private referenceAmount: number
+  ) {}
+
+  async getPrice(token: TokenInfo): Promise<PriceReading | undefined> {
+    const reference = tokenRegistry.resolve(this.referenceSymbol, token.chain);
+    if (reference.address === token.address) return undefined;
+    const quote = await this.venue.getQuote(reference.address, token.address, this.referenceAmount.toString());
+    if (!(quote.toAmount > 0)) {
+      throw new Error(`Empty DEX quote for ${token.symbol}`);
+    }
+    return { price: quote.fromAmount / quote.toAmount, timestamp: new Date() };
+  }
+}
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+];
+
+// Chainlink-style AggregatorV3 feeds priced in USD, keyed by token symbol or alias
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'chainlink';
+  private decimals = new Map<string, number>();
+
+  constructor(private provider: ethers.ContractRunner, private feeds: Record<string, string>) {}
+
+  async getPrice(token: TokenInfo): Promise<PriceReading | undefined> {
+    const feed = [token.symbol, ...(token.aliases || [])].map(symbol => this.feeds[symbol]).find(Boolean);
+    if (!feed) return undefined;
+
+    const aggregator = new ethers.Contract(feed, AGGREGATOR_ABI, this.provider);
+    if (!this.decimals.has(feed)) {
+      this.decimals.set(feed, Number(await aggregator.decimals()));
+    }
+    const [, answer, , updatedAt] = await aggregator.latestRoundData();
+    if (answer <= 0n) {
+      throw new Error(`Chainlink feed for ${token.symbol} returned ${answer}`);
+    }
+    return {
+      price: Number(ethers.formatUnits(answer, this.decimals.get(feed)!)),
+      timestamp: new Date(Number(updatedAt) * 1000),
+    };
+  }
+}
+
+// Parse "ETH:0x5f4e...,BTC:0xf403..." into symbol -> feed address
+export function parseFeeds(value: string): Record<string, string> {
+  const feeds: Record<string, string> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [symbol, address] = entry.split(':').map(part => part.trim());
+    if (!symbol || !address || !ethers.isAddress(address)) {
+      throw new Error(`Invalid Chainlink feed in CHAINLINK_FEEDS: ${entry}`);
+    }
+    feeds[symbol] = ethers.getAddress(address);
+  }
+  return feeds;
+}
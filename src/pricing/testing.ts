@@ -0,0 +1,29 @@
+// Test doubles for the price oracle; nothing in the agent imports this module
+import { TokenInfo } from '../tokens/token-registry';
+import { PriceReading, PriceSource } from './price-sources';
+
+// In-memory source with prices and failures set by the test
+export class FakePriceSource implements PriceSource {
+  private prices = new Map<string, PriceReading | Error>();
+  calls = 0;
+
+  constructor(readonly name: string = 'fake') {}
+
+  set(symbol: string, price: number, timestamp: Date = new Date()): this {
+    this.prices.set(symbol, { price, timestamp });
+    return this;
+  }
+
+  fail(symbol: string, error: Error = new Error(`${this.name} unavailable`)): this {
+    this.prices.set(symbol, error);
+    return this;
+  }
+
+  async getPrice(token: TokenInfo): Promise<PriceReading | undefined> {
+    this.calls++;
+    const reading = this.prices.get(token.symbol);
+    if (!reading) return undefined;
+    if (reading instanceof Error) throw reading;
+    return reading;
+  }
+}
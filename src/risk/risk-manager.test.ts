@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalMemoryStore } from '../memory/local-memory-store';
+import { TradingMemory } from '../memory/trading-memory';
+import { tokenRegistry } from '../tokens/token-registry';
+import { PortfolioBalance } from '../tools/recall-tools';
+import { OrderIntent, RiskManager } from './risk-manager';
+
+const USDC = tokenRegistry.resolve('USDC', 'ethereum');
+const WETH = tokenRegistry.resolve('WETH', 'ethereum');
+const WBTC = tokenRegistry.resolve('WBTC', 'ethereum');
+const LINK = tokenRegistry.resolve('LINK', 'ethereum');
+
+// Monday, 1 January 2024
+const MONDAY = Date.UTC(2024, 0, 1, 10);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Portfolio holding the given USD values of risky tokens, with the rest of the equity in USDC
+function portfolio(equity: number, holdings: [typeof WETH, number][] = []): PortfolioBalance {
+  const risky = holdings.reduce((sum, [, value]) => sum + value, 0);
+  return {
+    totalBalance: equity,
+    tokens: [
+      { token: USDC.address, symbol: 'USDC', amount: equity - risky, price: 1, value: equity - risky },
+      ...holdings.map(([token, value]) => ({ token: token.address, symbol: token.symbol, amount: value / 100, price: 100, value })),
+    ],
+  };
+}
+
+function buy(token: typeof WETH, notional: number | undefined, strategy: string = 'balanced'): OrderIntent {
+  return { symbol: `${token.symbol}/USDC`, action: 'buy', token, notional, strategy, source: 'test' };
+}
+
+function sell(token: typeof WETH, notional: number): OrderIntent {
+  return { ...buy(token, notional), action: 'sell' };
+}
+
+describe('RiskManager', () => {
+  let memory: TradingMemory;
+  let risk: RiskManager;
+
+  beforeEach(() => {
+    memory = new TradingMemory(new LocalMemoryStore());
+    risk = new RiskManager(memory, false, '');
+  });
+
+  async function vetoCodes(order: OrderIntent, balance: PortfolioBalance, at: number = MONDAY): Promise<string[]> {
+    const result = await risk.checkOrder(order, balance, new Date(at));
+    expect(result.approved).toBe(result.vetoes.length === 0);
+    return result.vetoes.map(veto => veto.code);
+  }
+
+  it('approves a buy within every limit', async () => {
+    await expect(vetoCodes(buy(WETH, 1000), portfolio(10_000))).resolves.toEqual([]);
+  });
+
+  it('vetoes a buy above the trade notional limit', async () => {
+    await expect(vetoCodes(buy(WETH, 3000), portfolio(10_000))).resolves.toEqual(['MAX_TRADE_NOTIONAL']);
+  });
+
+  it('vetoes a buy that would concentrate too much in one asset', async () => {
+    await expect(vetoCodes(buy(WETH, 1000), portfolio(10_000, [[WETH, 2500]]))).resolves.toEqual(['MAX_ASSET_EXPOSURE']);
+  });
+
+  it('vetoes a buy that would take total exposure over the limit', async () => {
+    const holdings: [typeof WETH, number][] = [[WETH, 2500], [WBTC, 2500], [LINK, 500]];
+
+    await expect(vetoCodes(buy(LINK, 1500), portfolio(10_000, holdings))).resolves.toEqual(['MAX_TOTAL_EXPOSURE']);
+  });
+
+  it('vetoes a buy that would open a position past the limit, but not one adding to a position', async () => {
+    const holdings: [typeof WETH, number][] = [[WETH, 500], [WBTC, 500]];
+
+    await expect(vetoCodes(buy(LINK, 500, 'conservative'), portfolio(10_000, holdings))).resolves.toEqual(['MAX_OPEN_POSITIONS']);
+    await expect(vetoCodes(buy(WETH, 500, 'conservative'), portfolio(10_000, holdings))).resolves.toEqual([]);
+  });
+
+  it('vetoes a buy the oracle could not price', async () => {
+    await expect(vetoCodes(buy(WETH, undefined), portfolio(10_000))).resolves.toEqual(['NO_PRICE']);
+  });
+
+  it('holds sells to the kill switch alone', async () => {
+    await expect(vetoCodes(sell(WETH, 50_000), portfolio(10_000, [[WETH, 9000]]))).resolves.toEqual([]);
+
+    risk.engageKillSwitch('test');
+    expect(risk.isKillSwitchEngaged()).toBe(true);
+    await expect(vetoCodes(sell(WETH, 100), portfolio(10_000, [[WETH, 9000]]))).resolves.toEqual(['KILL_SWITCH']);
+    await expect(vetoCodes(buy(WETH, 100), portfolio(10_000))).resolves.toEqual(['KILL_SWITCH']);
+
+    risk.releaseKillSwitch();
+    await expect(vetoCodes(buy(WETH, 100), portfolio(10_000))).resolves.toEqual([]);
+  });
+
+  it('starts engaged when the kill switch is set at startup', async () => {
+    risk = new RiskManager(memory, true, '');
+
+    await expect(vetoCodes(buy(WETH, 100), portfolio(10_000))).resolves.toEqual(['KILL_SWITCH']);
+  });
+
+  it('logs and stores every veto with its reason code', async () => {
+    const put = jest.spyOn(memory, 'storeRiskVeto');
+
+    await risk.checkOrder(buy(WETH, 3000), portfolio(10_000, [[WETH, 2500]]), new Date(MONDAY));
+
+    expect(risk.getRecentVetoes().map(veto => veto.code)).toEqual(['MAX_TRADE_NOTIONAL', 'MAX_ASSET_EXPOSURE']);
+    expect(put).toHaveBeenCalledTimes(2);
+    expect(put.mock.calls[0][0]).toMatchObject({ symbol: 'WETH/USDC', action: 'buy', notional: 3000, strategy: 'balanced', code: 'MAX_TRADE_NOTIONAL' });
+  });
+
+  it('trips the daily breaker and resets it the next day', async () => {
+    risk.recordEquity(10_000, new Date(MONDAY));
+
+    await expect(vetoCodes(buy(WETH, 100), portfolio(9400), MONDAY + 2 * HOUR)).resolves.toEqual(['DAILY_DRAWDOWN']);
+    await expect(vetoCodes(sell(WETH, 100), portfolio(9400), MONDAY + 2 * HOUR)).resolves.toEqual([]);
+    await expect(vetoCodes(buy(WETH, 100), portfolio(9400), MONDAY + DAY)).resolves.toEqual([]);
+  });
+
+  it('trips the weekly breaker and resets it the next Monday', async () => {
+    risk.recordEquity(10_000, new Date(MONDAY));
+    risk.recordEquity(9500, new Date(MONDAY + DAY));
+
+    // Wednesday starts a new day at 8900, so only the week is down 11% from its peak
+    await expect(vetoCodes(buy(WETH, 100), portfolio(8900), MONDAY + 2 * DAY)).resolves.toEqual(['WEEKLY_DRAWDOWN']);
+    await expect(vetoCodes(buy(WETH, 100), portfolio(8900), MONDAY + 7 * DAY)).resolves.toEqual([]);
+    expect(risk.getDrawdownPeaks()).toEqual({ daily: { key: '2024-01-08', peak: 8900 }, weekly: { key: '2024-01-08', peak: 8900 } });
+  });
+
+  describe('with a state file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps the equity peaks across a restart', async () => {
+      const stateFile = path.join(dir, 'risk-state.json');
+      new RiskManager(memory, false, stateFile).recordEquity(10_000, new Date(MONDAY));
+
+      risk = new RiskManager(memory, false, stateFile);
+
+      expect(risk.getDrawdownPeaks().daily).toEqual({ key: '2024-01-01', peak: 10_000 });
+      await expect(vetoCodes(buy(WETH, 100), portfolio(9400), MONDAY + HOUR)).resolves.toEqual(['DAILY_DRAWDOWN']);
+    });
+
+    it('starts without peaks when the state file is unreadable', () => {
+      const stateFile = path.join(dir, 'risk-state.json');
+      fs.writeFileSync(stateFile, '{not json');
+
+      expect(new RiskManager(memory, false, stateFile).getDrawdownPeaks()).toEqual({ daily: undefined, weekly: undefined });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import { config } from '../config';
+import { TradingMemory, tradingMemory } from '../memory/trading-memory';
+import { RiskLimits, strategyRegistry } from '../strategies/strategy-registry';
+import { TokenInfo, sameAddress, tokenRegistry } from '../tokens/token-registry';
+import { PortfolioBalance } from '../tools/recall-tools';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('risk.log');
+
+// Holdings worth less than this (USD) don't count as open positions
+const DUST_VALUE = 1;
+
+export type RiskVetoCode =
+  | 'KILL_SWITCH'
+  | 'NO_PRICE'
+  | 'MAX_TRADE_NOTIONAL'
+  | 'MAX_ASSET_EXPOSURE'
+  | 'MAX_TOTAL_EXPOSURE'
+  | 'MAX_OPEN_POSITIONS'
+  | 'DAILY_DRAWDOWN'
+  | 'WEEKLY_DRAWDOWN';
+
+export interface RiskVeto {
+  code: RiskVetoCode;
+  message: string;
+}
+
+export interface OrderIntent {
+  symbol: string;
+  action: 'buy' | 'sell';
+  token: TokenInfo; // Base asset being bought or sold
+  notional?: number; // Order value in USD; undefined when the oracle had no price for it
+  strategy?: string; // TradingStrategy whose limits apply; defaults to config.risk.strategy
+  source?: string; // Who placed the order, for the audit record
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  vetoes: RiskVeto[];
+  limits: RiskLimits;
+}
+
+interface DrawdownWindow {
+  key: string;
+  peak: number;
+}
+
+// Equity peaks kept across restarts, so a restart doesn't reset the drawdown breakers
+interface DrawdownState {
+  daily?: DrawdownWindow;
+  weekly?: DrawdownWindow;
+}
+
+function dayKey(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+// Monday (UTC) of the week containing the date
+function weekKey(at: Date): string {
+  const monday = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+// Pre-trade checks every order must pass. Buys are held to every limit; sells only reduce
+// exposure, so they are blocked by the kill switch alone and stop-loss exits keep working.
+export class RiskManager {
+  private killSwitchEngaged: boolean;
+  private daily?: DrawdownWindow;
+  private weekly?: DrawdownWindow;
+  private recentVetoes: (RiskVeto & { symbol: string; timestamp: Date })[] = [];
+
+  constructor(
+    private memory: TradingMemory = tradingMemory,
+    killSwitch: boolean = config.risk.killSwitch,
+    private stateFile: string = config.risk.stateFile // Empty string keeps the peaks in memory only
+  ) {
+    this.killSwitchEngaged = killSwitch;
+    const state = this.loadState();
+    this.daily = state.daily;
+    this.weekly = state.weekly;
+  }
+
+  engageKillSwitch(reason: string = 'manual'): void {
+    this.killSwitchEngaged = true;
+    logger.warn(`Kill switch engaged: ${reason}`);
+  }
+
+  releaseKillSwitch(): void {
+    this.killSwitchEngaged = false;
+    logger.warn('Kill switch released');
+  }
+
+  isKillSwitchEngaged(): boolean {
+    return this.killSwitchEngaged;
+  }
+
+  getRecentVetoes(limit: number = 20) {
+    return this.recentVetoes.slice(-limit);
+  }
+
+  limitsFor(strategyName: string = config.risk.strategy): RiskLimits {
+    return strategyRegistry.get(strategyName).riskLimits;
+  }
+
+  // Track the running equity peak for the current day and week
+  recordEquity(equity: number, at: Date = new Date()): void {
+    const day = dayKey(at);
+    const week = weekKey(at);
+    const daily = this.daily?.key === day ? { key: day, peak: Math.max(this.daily.peak, equity) } : { key: day, peak: equity };
+    const weekly = this.weekly?.key === week ? { key: week, peak: Math.max(this.weekly.peak, equity) } : { key: week, peak: equity };
+    const changed =
+      daily.key !== this.daily?.key || daily.peak !== this.daily.peak || weekly.key !== this.weekly?.key || weekly.peak !== this.weekly.peak;
+    this.daily = daily;
+    this.weekly = weekly;
+    if (changed) this.saveState();
+  }
+
+  getDrawdownPeaks(): DrawdownState {
+    return { daily: this.daily && { ...this.daily }, weekly: this.weekly && { ...this.weekly } };
+  }
+
+  // Check an order against the limits; every veto is logged and stored with its reason code
+  async checkOrder(order: OrderIntent, portfolio: PortfolioBalance, at: Date = new Date()): Promise<RiskCheckResult> {
+    const limits = this.limitsFor(order.strategy);
+    const equity = portfolio.totalBalance;
+    this.recordEquity(equity, at);
+
+    const vetoes: RiskVeto[] = [];
+    if (this.killSwitchEngaged) {
+      vetoes.push({ code: 'KILL_SWITCH', message: 'Kill switch is engaged' });
+    }
+
+    if (order.action === 'buy') {
+      // Limits are in USD, so a buy the oracle can't value can't be checked against them
+      if (order.notional === undefined) {
+        vetoes.push({ code: 'NO_PRICE', message: `No oracle price to value the ${order.symbol} order in USD` });
+      } else {
+        vetoes.push(...this.checkBuy(order, portfolio, limits, order.notional));
+      }
+
+      const dailyDrawdown = this.daily && this.daily.peak > 0 ? (this.daily.peak - equity) / this.daily.peak : 0;
+      if (dailyDrawdown >= limits.maxDailyDrawdown) {
+        vetoes.push({
+          code: 'DAILY_DRAWDOWN',
+          message: `Daily drawdown ${(dailyDrawdown * 100).toFixed(2)}% reached limit ${(limits.maxDailyDrawdown * 100).toFixed(2)}%`,
+        });
+      }
+      const weeklyDrawdown = this.weekly && this.weekly.peak > 0 ? (this.weekly.peak - equity) / this.weekly.peak : 0;
+      if (weeklyDrawdown >= limits.maxWeeklyDrawdown) {
+        vetoes.push({
+          code: 'WEEKLY_DRAWDOWN',
+          message: `Weekly drawdown ${(weeklyDrawdown * 100).toFixed(2)}% reached limit ${(limits.maxWeeklyDrawdown * 100).toFixed(2)}%`,
+        });
+      }
+    }
+
+    for (const veto of vetoes) {
+      await this.recordVeto(order, veto, at);
+    }
+
+    return { approved: vetoes.length === 0, vetoes, limits };
+  }
+
+  private checkBuy(order: OrderIntent, portfolio: PortfolioBalance, limits: RiskLimits, notional: number): RiskVeto[] {
+    const vetoes: RiskVeto[] = [];
+    const equity = portfolio.totalBalance;
+
+    if (notional > limits.maxTradeNotional) {
+      vetoes.push({
+        code: 'MAX_TRADE_NOTIONAL',
+        message: `Order notional ${notional.toFixed(2)} exceeds limit ${limits.maxTradeNotional}`,
+      });
+    }
+
+    const risky = portfolio.tokens.filter(token => !this.isStablecoin(token.token) && token.value >= DUST_VALUE);
+    const assetValue = risky
+      .filter(token => sameAddress(token.token, order.token.address))
+      .reduce((sum, token) => sum + token.value, 0);
+    const totalValue = risky.reduce((sum, token) => sum + token.value, 0);
+
+    if (equity > 0 && (assetValue + notional) / equity > limits.maxAssetExposure) {
+      vetoes.push({
+        code: 'MAX_ASSET_EXPOSURE',
+        message: `${order.token.symbol} exposure would be ${(((assetValue + notional) / equity) * 100).toFixed(2)}% of equity (limit ${(limits.maxAssetExposure * 100).toFixed(2)}%)`,
+      });
+    }
+    if (equity > 0 && (totalValue + notional) / equity > limits.maxTotalExposure) {
+      vetoes.push({
+        code: 'MAX_TOTAL_EXPOSURE',
+        message: `Total exposure would be ${(((totalValue + notional) / equity) * 100).toFixed(2)}% of equity (limit ${(limits.maxTotalExposure * 100).toFixed(2)}%)`,
+      });
+    }
+
+    const opensNewPosition = assetValue === 0;
+    if (opensNewPosition && risky.length >= limits.maxOpenPositions) {
+      vetoes.push({
+        code: 'MAX_OPEN_POSITIONS',
+        message: `${risky.length} positions already open (limit ${limits.maxOpenPositions})`,
+      });
+    }
+
+    return vetoes;
+  }
+
+  private isStablecoin(address: string): boolean {
+    return tokenRegistry.findByAddress(address)?.stablecoin === true;
+  }
+
+  private loadState(): DrawdownState {
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) return {};
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      return { daily: raw.daily, weekly: raw.weekly };
+    } catch (error) {
+      logger.error(`Error loading drawdown peaks from ${this.stateFile}:`, error);
+      return {};
+    }
+  }
+
+  private saveState(): void {
+    if (!this.stateFile) return;
+    try {
+      fs.writeFileSync(this.stateFile, JSON.stringify({ daily: this.daily, weekly: this.weekly }, null, 2));
+    } catch (error) {
+      logger.error(`Error saving drawdown peaks to ${this.stateFile}:`, error);
+    }
+  }
+
+  private async recordVeto(order: OrderIntent, veto: RiskVeto, at: Date): Promise<void> {
+    logger.warn(`Risk veto ${veto.code} for ${order.action} ${order.symbol}: ${veto.message}`);
+    this.recentVetoes.push({ ...veto, symbol: order.symbol, timestamp: at });
+    this.recentVetoes = this.recentVetoes.slice(-100);
+
+    try {
+      await this.memory.storeRiskVeto({
+        timestamp: at,
+        symbol: order.symbol,
+        action: order.action,
+        notional: order.notional,
+        strategy: order.strategy || config.risk.strategy,
+        source: order.source,
+        code: veto.code,
+        message: veto.message,
+      });
+    } catch (error) {
+      logger.error('Error storing risk veto:', error);
+    }
+  }
+}
+
+export const riskManager = new RiskManager();
@@ -0,0 +1,81 @@
+// Time source for the scheduler, replaceable in tests
+export interface Clock {
+  now(): number;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>; // Wakes early, and drops its timer, once signal aborts
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise(resolve => {
+      if (signal?.aborted) return resolve();
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+};
+
+interface Sleeper {
+  wakeAt: number;
+  resolve: () => void;
+}
+
+// Manually advanced clock; sleepers wake in order as time passes them
+export class FakeClock implements Clock {
+  private sleepers: Sleeper[] = [];
+
+  constructor(private time: number = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) return resolve();
+      const sleeper: Sleeper = { wakeAt: this.time + Math.max(ms, 0), resolve };
+      this.sleepers.push(sleeper);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          this.sleepers = this.sleepers.filter(item => item !== sleeper);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+  }
+
+  // Move time forward, waking each sleeper at its own time and letting its continuation run
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    for (;;) {
+      this.sleepers.sort((a, b) => a.wakeAt - b.wakeAt);
+      const next = this.sleepers[0];
+      if (!next || next.wakeAt > target) break;
+      this.sleepers.shift();
+      this.time = next.wakeAt;
+      next.resolve();
+      await flushPromises();
+    }
+    this.time = target;
+    await flushPromises();
+  }
+
+  pendingSleepers(): number {
+    return this.sleepers.length;
+  }
+}
+
+// Let queued promise callbacks run
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+}
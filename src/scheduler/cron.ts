@@ -0,0 +1,75 @@
+// Field order and bounds of a five-field cron expression
+const fields = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+function parseField(expression: string, field: (typeof fields)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of expression.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${field.name} step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [field.min, field.max];
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : field.max;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid cron ${field.name}: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+// Five-field cron expression ("minute hour day-of-month month day-of-week", UTC) used as a
+// window of minutes in which something may run, e.g. "* 13-21 * * 1-5" for weekday US hours
+export class CronSchedule {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private restrictsDayOfMonth: boolean;
+  private restrictsDayOfWeek: boolean;
+
+  constructor(public readonly expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = parts.map((part, index) =>
+      parseField(part, fields[index])
+    );
+    this.restrictsDayOfMonth = parts[2] !== '*';
+    this.restrictsDayOfWeek = parts[4] !== '*';
+  }
+
+  matches(at: Date | number): boolean {
+    const date = new Date(at);
+    if (!this.minutes.has(date.getUTCMinutes()) || !this.hours.has(date.getUTCHours()) || !this.months.has(date.getUTCMonth() + 1)) {
+      return false;
+    }
+
+    // As in cron, a day matches if either day field matches when both are restricted
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+    if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+  }
+}
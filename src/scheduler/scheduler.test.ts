@@ -0,0 +1,181 @@
+import { FakeClock } from './clock';
+import { PairSchedule, Scheduler, SchedulerOptions, TaskOutcome, backoffDelay } from './scheduler';
+
+const OPTIONS: SchedulerOptions = {
+  tickMs: 1000,
+  maxConcurrency: 2,
+  backoff: { baseMs: 10_000, maxMs: 60_000, jitter: 0.5 },
+};
+
+function pair(symbol: string, overrides: Partial<PairSchedule> = {}): PairSchedule {
+  return { symbol, intervalMs: 60_000, cooldownMs: 300_000, timeframe: '1h', ...overrides };
+}
+
+// Task whose runs stay open until the test settles them
+function controlledTask() {
+  const runs: { symbol: string; resolve: (outcome: TaskOutcome) => void; reject: (error: Error) => void }[] = [];
+  const task = (schedule: PairSchedule) =>
+    new Promise<TaskOutcome>((resolve, reject) => runs.push({ symbol: schedule.symbol, resolve, reject }));
+  return { task, runs };
+}
+
+describe('backoffDelay', () => {
+  it('doubles per failure up to the cap, randomizing the jittered share', () => {
+    const options = { baseMs: 1000, maxMs: 5000, jitter: 0.5 };
+
+    expect(backoffDelay(1, options, () => 1)).toBe(1000);
+    expect(backoffDelay(1, options, () => 0)).toBe(500);
+    expect(backoffDelay(2, options, () => 1)).toBe(2000);
+    expect(backoffDelay(3, options, () => 1)).toBe(4000);
+    expect(backoffDelay(4, options, () => 1)).toBe(5000);
+  });
+});
+
+describe('Scheduler', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    clock = new FakeClock(Date.UTC(2024, 0, 1, 12, 0));
+  });
+
+  it('runs each pair on its own interval', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC'), pair('BTC/USDC', { intervalMs: 120_000 })], task, OPTIONS, clock);
+
+    expect(scheduler.tick()).toEqual(['ETH/USDC', 'BTC/USDC']);
+    runs.forEach(run => run.resolve({ traded: false }));
+    await clock.advance(0);
+    await clock.advance(60_000);
+
+    expect(scheduler.tick()).toEqual(['ETH/USDC']);
+    runs[2].resolve({ traded: false });
+    await clock.advance(0);
+    await clock.advance(60_000);
+
+    expect(scheduler.tick().sort()).toEqual(['BTC/USDC', 'ETH/USDC']);
+  });
+
+  it('never runs more than maxConcurrency tasks or the same pair twice', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC'), pair('BTC/USDC'), pair('SOL/USDC')], task, OPTIONS, clock);
+
+    expect(scheduler.tick()).toHaveLength(2);
+    expect(scheduler.tick()).toEqual([]);
+
+    runs[0].resolve({ traded: false });
+    await clock.advance(0);
+    expect(scheduler.tick()).toEqual(['SOL/USDC']);
+  });
+
+  it('starts a cooldown after a trade', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.tick();
+    runs[0].resolve({ traded: true });
+    await clock.advance(0);
+    await clock.advance(60_000);
+    expect(scheduler.tick()).toEqual([]);
+    expect(scheduler.getStates()[0].cooldownRemainingMs).toBe(240_000);
+
+    await clock.advance(240_000);
+    expect(scheduler.tick()).toEqual(['ETH/USDC']);
+  });
+
+  it('backs off after failures and resets once a run succeeds', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock, () => 1);
+
+    scheduler.tick();
+    runs[0].reject(new Error('venue down'));
+    await clock.advance(0);
+    expect(scheduler.getStates()[0]).toMatchObject({ consecutiveFailures: 1, nextRunInMs: 10_000 });
+
+    await clock.advance(10_000);
+    scheduler.tick();
+    runs[1].reject(new Error('venue down'));
+    await clock.advance(0);
+    expect(scheduler.getStates()[0]).toMatchObject({ consecutiveFailures: 2, nextRunInMs: 20_000 });
+
+    await clock.advance(20_000);
+    scheduler.tick();
+    runs[2].resolve({ traded: false });
+    await clock.advance(0);
+    expect(scheduler.getStates()[0]).toMatchObject({ consecutiveFailures: 0, nextRunInMs: 60_000 });
+  });
+
+  it('only runs inside its cron window', async () => {
+    const { task } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC', { cron: '30-59 * * * *' })], task, OPTIONS, clock);
+
+    expect(scheduler.tick()).toEqual([]);
+    expect(scheduler.getStates()[0].inWindow).toBe(false);
+
+    await clock.advance(30 * 60_000);
+    expect(scheduler.tick()).toEqual(['ETH/USDC']);
+  });
+
+  it('starts nothing while paused', () => {
+    const { task } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.pause();
+    expect(scheduler.tick()).toEqual([]);
+    scheduler.resume();
+    expect(scheduler.tick()).toEqual(['ETH/USDC']);
+  });
+
+  it('keeps a running pair running when the pairs are replaced', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.tick();
+    scheduler.setPairs([pair('ETH/USDC', { intervalMs: 30_000 }), pair('BTC/USDC')]);
+    expect(scheduler.getStates().find(state => state.symbol === 'ETH/USDC')!.running).toBe(true);
+    expect(scheduler.tick()).toEqual(['BTC/USDC']);
+
+    runs[0].resolve({ traded: false });
+    await clock.advance(0);
+    const eth = scheduler.getStates().find(state => state.symbol === 'ETH/USDC')!;
+    expect(eth.running).toBe(false);
+    expect(eth.nextRunInMs).toBe(30_000);
+  });
+
+  it('drains running tasks and clears its timeout once they finish', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.tick();
+    const drained = scheduler.drain(5000);
+    expect(clock.pendingSleepers()).toBe(1);
+
+    runs[0].resolve({ traded: false });
+    await expect(drained).resolves.toBe(true);
+    expect(clock.pendingSleepers()).toBe(0);
+  });
+
+  it('gives up draining after the timeout', async () => {
+    const { task } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.tick();
+    const drained = scheduler.drain(5000);
+    await clock.advance(5000);
+
+    await expect(drained).resolves.toBe(false);
+  });
+
+  it('stops its loop and waits for the task in flight', async () => {
+    const { task, runs } = controlledTask();
+    const scheduler = new Scheduler([pair('ETH/USDC')], task, OPTIONS, clock);
+
+    scheduler.start();
+    await clock.advance(0);
+    expect(runs).toHaveLength(1);
+
+    const stopped = scheduler.stop();
+    await clock.advance(OPTIONS.tickMs);
+    runs[0].resolve({ traded: false });
+    await expect(stopped).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import { config } from '../config';
+import { Timeframe, parseTimeframe } from '../market/candles';
+import { Clock, systemClock } from './clock';
+import { CronSchedule } from './cron';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('scheduler.log');
+
+export interface PairSchedule {
+  symbol: string;
+  intervalMs: number; // Time between analyses
+  cooldownMs: number; // Pause after a trade on this pair
+  timeframe: Timeframe;
+  cron?: string; // Only run in minutes matching this expression (UTC)
+}
+
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+  jitter: number; // Share of the delay that is randomized, 0 to 1
+}
+
+export interface SchedulerOptions {
+  tickMs: number; // How often due pairs are checked
+  maxConcurrency: number;
+  backoff: BackoffOptions;
+}
+
+// What a task reports back; a trade starts the pair's cooldown
+export interface TaskOutcome {
+  traded: boolean;
+}
+
+export type PairTask = (pair: PairSchedule) => Promise<TaskOutcome>;
+
+export interface PairState {
+  symbol: string;
+  running: boolean;
+  nextRunInMs: number;
+  cooldownRemainingMs: number;
+  consecutiveFailures: number;
+  inWindow: boolean;
+  lastRunAt?: Date;
+}
+
+// Timing state persisted across restarts, in epoch milliseconds
+export interface PairCheckpoint {
+  symbol: string;
+  nextRunAt: number;
+  cooldownUntil: number;
+  consecutiveFailures: number;
+}
+
+// Per-pair overrides in SCHEDULE_FILE
+export interface ScheduleFile {
+  defaults?: Partial<Omit<PairSchedule, 'symbol'>>;
+  pairs?: Record<string, Partial<Omit<PairSchedule, 'symbol'>>>;
+}
+
+interface PairEntry {
+  schedule: PairSchedule;
+  cron?: CronSchedule;
+  nextRunAt: number;
+  cooldownUntil: number;
+  failures: number;
+  running: boolean;
+  lastRunAt?: number;
+}
+
+// Exponential backoff capped at maxMs, with the top `jitter` share of the delay randomized
+export function backoffDelay(failures: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const delay = Math.min(options.maxMs, options.baseMs * Math.pow(2, Math.max(failures - 1, 0)));
+  return Math.round(delay * (1 - options.jitter + random() * options.jitter));
+}
+
+// Pair schedules from the configured defaults, overridden by SCHEDULE_FILE when set
+export function loadPairSchedules(pairs: string[], filePath: string = config.scheduler.file): PairSchedule[] {
+  const file: ScheduleFile = filePath ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+  return pairs.map(symbol => {
+    const schedule: PairSchedule = {
+      symbol,
+      intervalMs: config.scheduler.intervalMs,
+      cooldownMs: config.scheduler.cooldownMs,
+      timeframe: parseTimeframe(config.scheduler.timeframe),
+      cron: config.scheduler.cron || undefined,
+      ...file.defaults,
+      ...file.pairs?.[symbol],
+    };
+    validatePairSchedule(schedule);
+    return schedule;
+  });
+}
+
+export function validatePairSchedule(schedule: PairSchedule): void {
+  if (!(schedule.intervalMs > 0)) {
+    throw new Error(`Invalid schedule for ${schedule.symbol}: intervalMs must be positive`);
+  }
+  if (!(schedule.cooldownMs >= 0)) {
+    throw new Error(`Invalid schedule for ${schedule.symbol}: cooldownMs must not be negative`);
+  }
+  parseTimeframe(schedule.timeframe);
+  if (schedule.cron) new CronSchedule(schedule.cron);
+}
+
+// Runs a task per pair on its own interval, outside cooldowns and inside its cron window,
+// with at most maxConcurrency tasks in flight and jittered backoff after failures
+export class Scheduler {
+  private entries = new Map<string, PairEntry>();
+  private inFlight = new Set<Promise<void>>();
+  private running = false;
+  private paused = false;
+  private loop?: Promise<void>;
+
+  constructor(
+    pairs: PairSchedule[],
+    private task: PairTask,
+    private options: SchedulerOptions = {
+      tickMs: config.scheduler.tickMs,
+      maxConcurrency: config.scheduler.maxConcurrency,
+      backoff: config.scheduler.backoff,
+    },
+    private clock: Clock = systemClock,
+    private random: () => number = Math.random
+  ) {
+    this.setPairs(pairs);
+  }
+
+  // Replace the scheduled pairs, keeping timing state for pairs that stay
+  setPairs(pairs: PairSchedule[]): void {
+    const next = new Map<string, PairEntry>();
+    for (const schedule of pairs) {
+      validatePairSchedule(schedule);
+      const cron = schedule.cron ? new CronSchedule(schedule.cron) : undefined;
+      // A task still running holds on to its entry and clears running on it when done
+      const existing = this.entries.get(schedule.symbol);
+      if (existing) {
+        existing.schedule = schedule;
+        existing.cron = cron;
+        next.set(schedule.symbol, existing);
+      } else {
+        next.set(schedule.symbol, { schedule, cron, nextRunAt: this.clock.now(), cooldownUntil: 0, failures: 0, running: false });
+      }
+    }
+    this.entries = next;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.run();
+  }
+
+  // Stop scheduling and wait for running tasks to finish; returns false if some were still running after timeoutMs
+  async stop(timeoutMs?: number): Promise<boolean> {
+    this.running = false;
+    await this.loop;
+    return this.drain(timeoutMs);
+  }
+
+  async drain(timeoutMs?: number): Promise<boolean> {
+    const settled = Promise.all([...this.inFlight]).then(() => true);
+    if (timeoutMs === undefined) return settled;
+    const timeout = new AbortController();
+    try {
+      return await Promise.race([settled, this.clock.sleep(timeoutMs, timeout.signal).then(() => false)]);
+    } finally {
+      timeout.abort();
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Start a cooldown for a pair traded outside the scheduler
+  recordTrade(symbol: string): void {
+    const entry = this.entries.get(symbol);
+    if (entry) entry.cooldownUntil = this.clock.now() + entry.schedule.cooldownMs;
+  }
+
+  getStates(): PairState[] {
+    const now = this.clock.now();
+    return [...this.entries.values()].map(entry => ({
+      symbol: entry.schedule.symbol,
+      running: entry.running,
+      nextRunInMs: Math.max(entry.nextRunAt - now, 0),
+      cooldownRemainingMs: Math.max(entry.cooldownUntil - now, 0),
+      consecutiveFailures: entry.failures,
+      inWindow: !entry.cron || entry.cron.matches(now),
+      lastRunAt: entry.lastRunAt ? new Date(entry.lastRunAt) : undefined,
+    }));
+  }
+
+  snapshot(): PairCheckpoint[] {
+    return [...this.entries.values()].map(entry => ({
+      symbol: entry.schedule.symbol,
+      nextRunAt: entry.nextRunAt,
+      cooldownUntil: entry.cooldownUntil,
+      consecutiveFailures: entry.failures,
+    }));
+  }
+
+  // Reapply saved timing state to pairs that are still scheduled
+  restore(checkpoints: PairCheckpoint[]): void {
+    for (const checkpoint of checkpoints) {
+      const entry = this.entries.get(checkpoint.symbol);
+      if (!entry) continue;
+      entry.nextRunAt = checkpoint.nextRunAt;
+      entry.cooldownUntil = checkpoint.cooldownUntil;
+      entry.failures = checkpoint.consecutiveFailures;
+    }
+  }
+
+  // Start every due pair that fits under the concurrency limit; returns the pairs started
+  tick(): string[] {
+    if (this.paused) return [];
+    const now = this.clock.now();
+    const due = [...this.entries.values()]
+      .filter(entry => !entry.running && now >= entry.nextRunAt && now >= entry.cooldownUntil)
+      .filter(entry => !entry.cron || entry.cron.matches(now))
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+
+    const slots = Math.max(this.options.maxConcurrency - this.inFlight.size, 0);
+    const started = due.slice(0, slots);
+    started.forEach(entry => this.launch(entry));
+    return started.map(entry => entry.schedule.symbol);
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      this.tick();
+      await this.clock.sleep(this.options.tickMs);
+    }
+  }
+
+  private launch(entry: PairEntry): void {
+    entry.running = true;
+    entry.lastRunAt = this.clock.now();
+
+    const promise = this.task(entry.schedule)
+      .then(outcome => {
+        const now = this.clock.now();
+        entry.failures = 0;
+        entry.nextRunAt = now + entry.schedule.intervalMs;
+        if (outcome.traded) entry.cooldownUntil = now + entry.schedule.cooldownMs;
+      })
+      .catch(error => {
+        entry.failures += 1;
+        const delay = backoffDelay(entry.failures, this.options.backoff, this.random);
+        entry.nextRunAt = this.clock.now() + delay;
+        logger.error(`Task for ${entry.schedule.symbol} failed (${entry.failures} in a row), retrying in ${delay}ms:`, error);
+      })
+      .finally(() => {
+        entry.running = false;
+        this.inFlight.delete(promise);
+      });
+    this.inFlight.add(promise);
+  }
+}
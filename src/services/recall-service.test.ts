@@ -0,0 +1,147 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RecallApiError, RecallTradingClient } from './recall-service';
+
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body?: unknown;
+}
+
+type Reply = { status?: number; body: unknown };
+
+// Local stand-in for the Recall competition API; replies are keyed by "METHOD /path"
+function startServer(replies: Record<string, Reply>) {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ method: req.method!, url, headers: req.headers, body: data ? JSON.parse(data) : undefined });
+      const reply = replies[`${req.method} ${url.pathname}`] ?? { status: 404, body: { error: 'no such route' } };
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  return new Promise<{ server: http.Server; requests: RecordedRequest[]; baseURL: string }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, requests, baseURL: `http://127.0.0.1:${port}` });
+    });
+  });
+}
+
+describe('RecallTradingClient', () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    const running = server;
+    server = undefined;
+    if (running) await new Promise(resolve => running.close(resolve));
+  });
+
+  async function clientFor(replies: Record<string, Reply>) {
+    const started = await startServer(replies);
+    server = started.server;
+    return { client: new RecallTradingClient({ baseURL: started.baseURL, apiKey: 'test-key', timeout: 2000 }), requests: started.requests };
+  }
+
+  it('sends the API key and query parameters with a price request', async () => {
+    const { client, requests } = await clientFor({
+      'GET /api/price': { body: { success: true, price: 3120.5, token: '0xweth', chain: 'evm', specificChain: 'eth', timestamp: '2024-05-01T00:00:00.000Z' } },
+    });
+
+    const price = await client.getPrice('0xweth', 'evm', 'eth');
+
+    expect(price.price).toBe(3120.5);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(requests[0].url.searchParams.get('token')).toBe('0xweth');
+    expect(requests[0].url.searchParams.get('chain')).toBe('evm');
+    expect(requests[0].url.searchParams.get('specificChain')).toBe('eth');
+  });
+
+  it('returns the portfolio', async () => {
+    const { client } = await clientFor({
+      'GET /api/agent/portfolio': {
+        body: { success: true, agentId: 'agent-1', totalValue: 1500, tokens: [{ token: '0xusdc', symbol: 'USDC', amount: 1500, price: 1, value: 1500 }] },
+      },
+    });
+
+    const portfolio = await client.getPortfolio();
+
+    expect(portfolio.totalValue).toBe(1500);
+    expect(portfolio.tokens[0].symbol).toBe('USDC');
+  });
+
+  it('posts trades and returns the transaction', async () => {
+    const transaction = {
+      id: 'trade-1',
+      fromToken: '0xusdc',
+      toToken: '0xweth',
+      fromAmount: 100,
+      toAmount: 0.032,
+      price: 3125,
+      success: true,
+      timestamp: '2024-05-01T00:00:00.000Z',
+    };
+    const { client, requests } = await clientFor({ 'POST /api/trade/execute': { body: { success: true, transaction } } });
+
+    const result = await client.executeTrade({ fromToken: '0xusdc', toToken: '0xweth', amount: '100', reason: 'test', slippageTolerance: '0.5' });
+
+    expect(result).toEqual(transaction);
+    expect(requests[0].body).toEqual({ fromToken: '0xusdc', toToken: '0xweth', amount: '100', reason: 'test', slippageTolerance: '0.5' });
+  });
+
+  it('rejects a trade the venue did not fill', async () => {
+    const { client } = await clientFor({
+      'POST /api/trade/execute': { body: { success: true, transaction: { id: 'trade-2', success: false, error: 'insufficient balance' } } },
+    });
+
+    const error = await client.executeTrade({ fromToken: '0xusdc', toToken: '0xweth', amount: '100', reason: 'test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RecallApiError);
+    expect(error.code).toBe('invalid_request');
+    expect(error.message).toContain('insufficient balance');
+  });
+
+  it('treats success: false in a 200 response as a failure', async () => {
+    const { client } = await clientFor({ 'GET /api/agent/portfolio': { body: { success: false, error: 'competition not active' } } });
+
+    await expect(client.getPortfolio()).rejects.toMatchObject({ code: 'invalid_request', message: expect.stringContaining('competition not active') });
+  });
+
+  it('treats success: false in a quote as a failure', async () => {
+    const { client } = await clientFor({ 'GET /api/trade/quote': { body: { success: false, error: 'no route' } } });
+
+    await expect(client.getQuote('0xusdc', '0xweth', '100')).rejects.toMatchObject({
+      code: 'invalid_request',
+      message: 'Failed to fetch trade quote: no route',
+    });
+  });
+
+  it.each([
+    [401, 'unauthorized'],
+    [404, 'not_found'],
+    [429, 'rate_limited'],
+    [422, 'invalid_request'],
+    [503, 'server_error'],
+  ])('maps HTTP %i to %s', async (status, code) => {
+    const { client } = await clientFor({ 'GET /api/trade/quote': { status, body: { error: 'refused' } } });
+
+    const error = await client.getQuote('0xusdc', '0xweth', '100').catch(e => e);
+
+    expect(error).toBeInstanceOf(RecallApiError);
+    expect(error).toMatchObject({ code, status, message: 'Failed to fetch trade quote: refused' });
+  });
+
+  it('reports an unreachable API as a network error', async () => {
+    const { server: closed, baseURL } = await startServer({});
+    await new Promise(resolve => closed.close(resolve));
+    const client = new RecallTradingClient({ baseURL, apiKey: 'test-key', timeout: 2000 });
+
+    await expect(client.getPortfolio()).rejects.toMatchObject({ code: 'network_error' });
+  });
+});
@@ -1,20 +1,13 @@
-import axios from 'axios';
+import axios, { AxiosError, AxiosInstance } from 'axios';
 import { config } from '../config';
-import winston from 'winston';
-
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  transports: [
-    new winston.transports.File({ filename: 'recall-service.log' }),
-    new winston.transports.Console({
-      format: winston.format.simple(),
-    }),
-  ],
-});
-
-export class RecallMemory {
-  private apiClient: axios.AxiosInstance;
+import { MemoryRecord, MemorySearchParams, MemoryStore } from '../memory/memory-store';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('recall-service.log');
+
+export class RecallMemory implements MemoryStore {
+  private apiClient: AxiosInstance;
+  private pendingWrites = new Set<Promise<unknown>>();
 
   constructor() {
     this.apiClient = axios.create({
@@ -28,34 +21,41 @@ export class RecallMemory {
 
   // Store a memory
   async store(key: string, data: any): Promise<void> {
+    const request = this.apiClient.post('/store', {
+      key,
+      data,
+      metadata: {
+        agent: 'SlothfulTrader',
+        timestamp: new Date().toISOString(),
+      },
+    });
+    this.pendingWrites.add(request);
     try {
-      await this.apiClient.post('/store', {
-        key,
-        data,
-        metadata: {
-          agent: 'SlothfulTrader',
-          timestamp: new Date().toISOString(),
-        },
-      });
+      await request;
     } catch (error) {
       logger.error('Error storing memory:', error);
       throw new Error(`Failed to store memory: ${error}`);
+    } finally {
+      this.pendingWrites.delete(request);
     }
   }
 
-  // Retrieve a memory
-  async retrieve(key: string): Promise<any> {
+  // Retrieve a memory; undefined when the key does not exist, as in LocalMemoryStore
+  async retrieve(key: string): Promise<MemoryRecord | undefined> {
     try {
       const response = await this.apiClient.get(`/retrieve/${key}`);
       return response.data;
     } catch (error) {
+      if ((error as AxiosError)?.isAxiosError && (error as AxiosError).response?.status === 404) {
+        return undefined;
+      }
       logger.error(`Error retrieving memory with key ${key}:`, error);
       throw new Error(`Failed to retrieve memory: ${error}`);
     }
   }
 
   // Search memories
-  async search(params: { query: string; filters?: any; limit?: number }): Promise<any[]> {
+  async search(params: MemorySearchParams): Promise<MemoryRecord[]> {
     try {
       const response = await this.apiClient.post('/search', params);
       return response.data.results;
@@ -64,4 +64,208 @@ export class RecallMemory {
       throw new Error(`Failed to search memories: ${error}`);
     }
   }
+
+  // Wait for store requests still in flight; their callers see any failures
+  async flush(): Promise<void> {
+    await Promise.allSettled([...this.pendingWrites]);
+  }
+}
+
+export type RecallErrorCode =
+  | 'unauthorized'
+  | 'not_found'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'server_error'
+  | 'network_error';
+
+export class RecallApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RecallErrorCode,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'RecallApiError';
+  }
+}
+
+export interface RecallPriceResponse {
+  success: boolean;
+  price: number;
+  token: string;
+  chain: string;
+  specificChain?: string;
+  timestamp: string;
+}
+
+export interface RecallPortfolioToken {
+  token: string;
+  symbol?: string;
+  amount: number;
+  price: number;
+  value: number;
+  chain?: string;
+  specificChain?: string;
+}
+
+export interface RecallPortfolioResponse {
+  success: boolean;
+  agentId: string;
+  totalValue: number;
+  tokens: RecallPortfolioToken[];
+  snapshotTime?: string;
+}
+
+export interface RecallQuoteResponse {
+  success?: boolean;
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  toAmount: number;
+  exchangeRate: number;
+  slippage: number;
+  tradeAmountUsd?: number;
+  prices?: { fromToken: number; toToken: number };
+  symbols?: { fromTokenSymbol: string; toTokenSymbol: string };
+}
+
+export interface RecallTradeRequest {
+  fromToken: string;
+  toToken: string;
+  amount: string;
+  reason: string;
+  slippageTolerance?: string;
+}
+
+export interface RecallTransaction {
+  id: string;
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  toAmount: number;
+  price: number;
+  success: boolean;
+  error?: string;
+  reason?: string;
+  tradeAmountUsd?: number;
+  timestamp: string;
+  fromTokenSymbol?: string;
+  toTokenSymbol?: string;
+}
+
+export interface RecallTradeResponse {
+  success: boolean;
+  transaction: RecallTransaction;
+}
+
+export interface RecallClientOptions {
+  baseURL?: string;
+  apiKey?: string;
+  timeout?: number;
+}
+
+// Translate an axios failure into a RecallApiError with a stable code
+export function toRecallApiError(error: unknown, action: string): RecallApiError {
+  if (error instanceof RecallApiError) return error;
+
+  const axiosError = error as AxiosError<{ error?: string; message?: string }>;
+  if (!axiosError?.isAxiosError) {
+    return new RecallApiError(`Failed to ${action}: ${error}`, 'network_error');
+  }
+
+  const status = axiosError.response?.status;
+  const detail = axiosError.response?.data?.error || axiosError.response?.data?.message || axiosError.message;
+
+  if (status === undefined) {
+    return new RecallApiError(`Failed to ${action}: ${detail}`, 'network_error');
+  }
+
+  let code: RecallErrorCode = 'server_error';
+  if (status === 401 || status === 403) code = 'unauthorized';
+  else if (status === 404) code = 'not_found';
+  else if (status === 429) code = 'rate_limited';
+  else if (status >= 400 && status < 500) code = 'invalid_request';
+
+  return new RecallApiError(`Failed to ${action}: ${detail}`, code, status);
+}
+
+export class RecallTradingClient {
+  private apiClient: AxiosInstance;
+
+  constructor(options: RecallClientOptions = {}) {
+    this.apiClient = axios.create({
+      baseURL: `${options.baseURL || config.recall.networkUrl}/api`,
+      timeout: options.timeout ?? 15000,
+      headers: {
+        'Authorization': `Bearer ${options.apiKey ?? config.recall.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  // Get the current USD price of a token
+  async getPrice(token: string, chain?: string, specificChain?: string): Promise<RecallPriceResponse> {
+    try {
+      const response = await this.apiClient.get<RecallPriceResponse>('/price', {
+        params: { token, chain, specificChain },
+      });
+      this.assertSuccess(response.data, 'fetch price');
+      return response.data;
+    } catch (error) {
+      logger.error(`Error fetching price for ${token}:`, error);
+      throw toRecallApiError(error, 'fetch price');
+    }
+  }
+
+  // Get the agent's portfolio with per-token balances and values
+  async getPortfolio(): Promise<RecallPortfolioResponse> {
+    try {
+      const response = await this.apiClient.get<RecallPortfolioResponse>('/agent/portfolio');
+      this.assertSuccess(response.data, 'fetch portfolio');
+      return response.data;
+    } catch (error) {
+      logger.error('Error fetching portfolio:', error);
+      throw toRecallApiError(error, 'fetch portfolio');
+    }
+  }
+
+  // Get a quote for swapping an amount of one token into another
+  async getQuote(fromToken: string, toToken: string, amount: string): Promise<RecallQuoteResponse> {
+    try {
+      const response = await this.apiClient.get<RecallQuoteResponse>('/trade/quote', {
+        params: { fromToken, toToken, amount },
+      });
+      this.assertSuccess(response.data, 'fetch trade quote');
+      return response.data;
+    } catch (error) {
+      logger.error(`Error fetching quote ${fromToken} -> ${toToken}:`, error);
+      throw toRecallApiError(error, 'fetch trade quote');
+    }
+  }
+
+  // Execute a trade
+  async executeTrade(request: RecallTradeRequest): Promise<RecallTransaction> {
+    try {
+      const response = await this.apiClient.post<RecallTradeResponse>('/trade/execute', request);
+      this.assertSuccess(response.data, 'execute trade');
+      if (!response.data.transaction?.success) {
+        throw new RecallApiError(
+          `Failed to execute trade: ${response.data.transaction?.error || 'trade rejected'}`,
+          'invalid_request'
+        );
+      }
+      return response.data.transaction;
+    } catch (error) {
+      logger.error(`Error executing trade ${request.fromToken} -> ${request.toToken}:`, error);
+      throw toRecallApiError(error, 'execute trade');
+    }
+  }
+
+  // The competition API reports some failures as 200 responses with success: false
+  private assertSuccess(data: { success?: boolean; error?: string } | undefined, action: string): void {
+    if (data && data.success === false) {
+      throw new RecallApiError(`Failed to ${action}: ${data.error || 'unknown error'}`, 'invalid_request');
+    }
+  }
 }
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { tokenRegistry } from '../tokens/token-registry';
+import {
+  RecallApiError,
+  RecallPortfolioResponse,
+  RecallPriceResponse,
+  RecallQuoteResponse,
+  RecallTradeRequest,
+  RecallTransaction,
+} from './recall-service';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('paper-trading.log');
+
+export interface SimulatedExchangeOptions {
+  priceSource: (token: string) => Promise<number>;
+  initialBalances: Record<string, number>; // Token address -> amount
+  feePercent?: number;
+  liquidityUsd?: number; // Depth used by the price impact model; larger means less impact
+  stateFile?: string; // Persist balances here so soak tests survive restarts
+}
+
+// EVM addresses are case-insensitive; other chains' addresses are kept as-is
+function tokenKey(address: string): string {
+  return address.startsWith('0x') ? address.toLowerCase() : address;
+}
+
+interface ExchangeState {
+  balances: Record<string, number>;
+  tradeCount: number;
+}
+
+// In-process exchange for paper trading: virtual balances, constant-depth price impact, fees and fake tx hashes
+export class SimulatedExchange {
+  private state: ExchangeState;
+  private feeRate: number;
+  private liquidityUsd: number;
+
+  constructor(private options: SimulatedExchangeOptions) {
+    this.feeRate = (options.feePercent ?? 0.3) / 100;
+    this.liquidityUsd = options.liquidityUsd ?? 5000000;
+    this.state = this.loadState() || {
+      balances: this.normalizeBalances(options.initialBalances),
+      tradeCount: 0,
+    };
+    logger.info('Paper trading exchange initialized', { balances: this.state.balances });
+  }
+
+  async getPrice(token: string, chain: string = 'evm', specificChain: string = 'eth'): Promise<RecallPriceResponse> {
+    const price = await this.options.priceSource(token);
+    return {
+      success: true,
+      price,
+      token,
+      chain,
+      specificChain,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async getPortfolio(): Promise<RecallPortfolioResponse> {
+    const held = Object.entries(this.state.balances).filter(([, amount]) => amount > 0);
+    const tokens = await Promise.all(
+      held.map(async ([token, amount]) => {
+        const price = await this.options.priceSource(token);
+        return { token, symbol: this.symbolFor(token), amount, price, value: amount * price };
+      })
+    );
+
+    return {
+      success: true,
+      agentId: 'paper',
+      totalValue: tokens.reduce((sum, token) => sum + token.value, 0),
+      tokens,
+      snapshotTime: new Date().toISOString(),
+    };
+  }
+
+  async getQuote(fromToken: string, toToken: string, amount: string): Promise<RecallQuoteResponse> {
+    const fromAmount = this.parseAmount(amount);
+    const [fromPrice, toPrice] = await Promise.all([
+      this.options.priceSource(fromToken),
+      this.options.priceSource(toToken),
+    ]);
+
+    const tradeAmountUsd = fromAmount * fromPrice;
+    // Impact grows with trade size relative to the simulated pool depth
+    const impact = tradeAmountUsd / (tradeAmountUsd + this.liquidityUsd);
+    const toAmount = (tradeAmountUsd * (1 - impact) * (1 - this.feeRate)) / toPrice;
+
+    return {
+      fromToken,
+      toToken,
+      fromAmount,
+      toAmount,
+      exchangeRate: toAmount / fromAmount,
+      slippage: impact * 100,
+      tradeAmountUsd,
+      prices: { fromToken: fromPrice, toToken: toPrice },
+      symbols: { fromTokenSymbol: this.symbolFor(fromToken) || fromToken, toTokenSymbol: this.symbolFor(toToken) || toToken },
+    };
+  }
+
+  async executeTrade(request: RecallTradeRequest): Promise<RecallTransaction> {
+    const fromToken = tokenKey(request.fromToken);
+    const toToken = tokenKey(request.toToken);
+    const quote = await this.getQuote(fromToken, toToken, request.amount);
+
+    const available = this.state.balances[fromToken] || 0;
+    if (available < quote.fromAmount) {
+      throw new RecallApiError(
+        `Failed to execute trade: insufficient balance (${available} available, ${quote.fromAmount} required)`,
+        'invalid_request',
+        400
+      );
+    }
+
+    const tolerance = request.slippageTolerance !== undefined ? parseFloat(request.slippageTolerance) : undefined;
+    if (tolerance !== undefined && quote.slippage > tolerance) {
+      throw new RecallApiError(
+        `Failed to execute trade: price impact ${quote.slippage.toFixed(4)}% exceeds tolerance ${tolerance}%`,
+        'invalid_request',
+        400
+      );
+    }
+
+    this.state.balances[fromToken] = available - quote.fromAmount;
+    this.state.balances[toToken] = (this.state.balances[toToken] || 0) + quote.toAmount;
+    this.state.tradeCount += 1;
+    this.saveState();
+
+    const timestamp = new Date().toISOString();
+    const transaction: RecallTransaction = {
+      id: ethers.id(`paper:${this.state.tradeCount}:${timestamp}:${fromToken}:${toToken}:${request.amount}`),
+      fromToken,
+      toToken,
+      fromAmount: quote.fromAmount,
+      toAmount: quote.toAmount,
+      price: quote.exchangeRate,
+      success: true,
+      reason: request.reason,
+      tradeAmountUsd: quote.tradeAmountUsd,
+      timestamp,
+      fromTokenSymbol: quote.symbols?.fromTokenSymbol,
+      toTokenSymbol: quote.symbols?.toTokenSymbol,
+    };
+
+    logger.info('Paper trade filled:', transaction);
+    return transaction;
+  }
+
+  getBalances(): Record<string, number> {
+    return { ...this.state.balances };
+  }
+
+  private parseAmount(amount: string): number {
+    const parsed = Number(amount);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new RecallApiError(`Failed to fetch trade quote: invalid amount ${amount}`, 'invalid_request', 400);
+    }
+    return parsed;
+  }
+
+  private symbolFor(token: string): string | undefined {
+    return tokenRegistry.findByAddress(token)?.symbol;
+  }
+
+  private normalizeBalances(balances: Record<string, number>): Record<string, number> {
+    const normalized: Record<string, number> = {};
+    for (const [token, amount] of Object.entries(balances)) {
+      normalized[tokenKey(token)] = (normalized[tokenKey(token)] || 0) + amount;
+    }
+    return normalized;
+  }
+
+  private loadState(): ExchangeState | undefined {
+    if (!this.options.stateFile || !fs.existsSync(this.options.stateFile)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(this.options.stateFile, 'utf8'));
+    } catch (error) {
+      logger.error(`Error loading paper trading state from ${this.options.stateFile}:`, error);
+      return undefined;
+    }
+  }
+
+  private saveState(): void {
+    if (!this.options.stateFile) return;
+    try {
+      fs.writeFileSync(this.options.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      logger.error(`Error saving paper trading state to ${this.options.stateFile}:`, error);
+    }
+  }
+}
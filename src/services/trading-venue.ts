@@ -0,0 +1,60 @@
+import { config } from '../config';
+import { chains, tokenRegistry } from '../tokens/token-registry';
+import {
+  RecallPortfolioResponse,
+  RecallPriceResponse,
+  RecallQuoteResponse,
+  RecallTradeRequest,
+  RecallTradingClient,
+  RecallTransaction,
+} from './recall-service';
+import { SimulatedExchange } from './simulated-exchange';
+
+// Where quotes and fills come from: the live Recall API or a simulated exchange
+export interface TradingVenue {
+  getPrice(token: string, chain?: string, specificChain?: string): Promise<RecallPriceResponse>;
+  getPortfolio(): Promise<RecallPortfolioResponse>;
+  getQuote(fromToken: string, toToken: string, amount: string): Promise<RecallQuoteResponse>;
+  executeTrade(request: RecallTradeRequest): Promise<RecallTransaction>;
+}
+
+// Parse "USDC:10000,WETH@base:1" into token address -> amount
+export function parseInitialBalances(value: string): Record<string, number> {
+  const balances: Record<string, number> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [symbol, amount] = entry.split(':').map(part => part.trim());
+    const token = tokenRegistry.resolve(symbol).address;
+    const parsed = Number(amount);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid amount for ${symbol} in PAPER_INITIAL_BALANCES: ${amount}`);
+    }
+    balances[token] = (balances[token] || 0) + parsed;
+  }
+  return balances;
+}
+
+let sharedVenue: TradingVenue | undefined;
+
+// Venue selected by config.trading.mode; shared so the agent and workflow see the same paper balances
+export function createTradingVenue(): TradingVenue {
+  if (sharedVenue) return sharedVenue;
+
+  const recallClient = new RecallTradingClient();
+  if (config.trading.mode === 'paper') {
+    sharedVenue = new SimulatedExchange({
+      // Marks still come from the live price endpoint, which is read-only
+      priceSource: async token => {
+        const info = tokenRegistry.findByAddress(token);
+        const chain = info ? chains[info.chain] : undefined;
+        return (await recallClient.getPrice(token, chain?.recallChain, chain?.specificChain)).price;
+      },
+      initialBalances: parseInitialBalances(config.paper.initialBalances),
+      feePercent: config.paper.feePercent,
+      liquidityUsd: config.paper.liquidityUsd,
+      stateFile: config.paper.stateFile,
+    });
+  } else {
+    sharedVenue = recallClient;
+  }
+  return sharedVenue;
+}
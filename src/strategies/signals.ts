@@ -0,0 +1,172 @@
+import { TechnicalIndicators, TradingSignal } from '../tools/trading-tools';
+
+export type SignalName = 'composite' | 'rsi_mean_reversion' | 'macd_trend' | 'breakout';
+
+export interface SignalParameters {
+  targetAtr?: number; // Take-profit distance in ATR multiples (default 2)
+  stopAtr?: number; // Stop-loss distance in ATR multiples (default 1.5)
+  rsiOversold?: number; // rsi_mean_reversion buy threshold (default 30)
+  rsiOverbought?: number; // rsi_mean_reversion sell threshold (default 70)
+  breakoutAtrBuffer?: number; // breakout: ATR multiples price must clear the band by (default 0)
+  highVolatility?: number; // Annualized volatility above which confidence is cut (default 0.3)
+}
+
+export type SignalFunction = (indicators: TechnicalIndicators, parameters: SignalParameters) => TradingSignal;
+
+function buildSignal(
+  action: TradingSignal['action'],
+  confidence: number,
+  reasons: string[],
+  indicators: TechnicalIndicators,
+  parameters: SignalParameters
+): TradingSignal {
+  let adjusted = confidence;
+  if (indicators.volatility > (parameters.highVolatility ?? 0.3)) {
+    adjusted *= 0.8; // Reduce confidence in high volatility
+    reasons.push('High volatility detected.');
+  }
+
+  return {
+    action,
+    confidence: Math.round(Math.min(adjusted, 1) * 100) / 100,
+    reason: reasons.join(' '),
+    // Targets are placed in ATR multiples around the last close
+    targetPrice: action === 'buy' ? indicators.price + (parameters.targetAtr ?? 2) * indicators.atr : undefined,
+    stopLoss: action === 'buy' ? Math.max(indicators.price - (parameters.stopAtr ?? 1.5) * indicators.atr, 0) : undefined,
+  };
+}
+
+// RSI, MACD and EMA votes with volume confirmation
+export const composite: SignalFunction = (indicators, parameters) => {
+  let action: TradingSignal['action'] = 'hold';
+  let confidence = 0;
+  const reasons: string[] = [];
+
+  // RSI-based signals
+  if (indicators.rsi < 30) {
+    action = 'buy';
+    confidence += 0.3;
+    reasons.push('RSI oversold.');
+  } else if (indicators.rsi > 70) {
+    action = 'sell';
+    confidence += 0.3;
+    reasons.push('RSI overbought.');
+  }
+
+  // MACD signals
+  if (indicators.macd.line > indicators.macd.signal && indicators.macd.histogram > 0) {
+    if (action === 'hold') action = 'buy';
+    confidence += 0.25;
+    reasons.push('MACD bullish crossover.');
+  } else if (indicators.macd.line < indicators.macd.signal && indicators.macd.histogram < 0) {
+    if (action === 'hold') action = 'sell';
+    confidence += 0.25;
+    reasons.push('MACD bearish crossover.');
+  }
+
+  // Moving average signals
+  if (indicators.movingAverages.ema12 > indicators.movingAverages.ema26) {
+    if (action === 'hold') action = 'buy';
+    confidence += 0.2;
+    reasons.push('EMA bullish alignment.');
+  } else if (indicators.movingAverages.ema12 < indicators.movingAverages.ema26) {
+    if (action === 'hold') action = 'sell';
+    confidence += 0.2;
+    reasons.push('EMA bearish alignment.');
+  }
+
+  // Volume confirmation
+  if (indicators.volume > 500000) {
+    confidence += 0.15;
+    reasons.push('High volume confirmation.');
+  }
+
+  return buildSignal(action, confidence, reasons, indicators, parameters);
+};
+
+// Buy oversold and sell overbought RSI; deeper readings and closes outside the Bollinger bands add confidence
+export const rsiMeanReversion: SignalFunction = (indicators, parameters) => {
+  const oversold = parameters.rsiOversold ?? 30;
+  const overbought = parameters.rsiOverbought ?? 70;
+  const { rsi, price, bollingerBands } = indicators;
+
+  if (rsi < oversold) {
+    const reasons = [`RSI ${rsi.toFixed(1)} below ${oversold}.`];
+    let confidence = 0.5 + Math.min((oversold - rsi) / 20, 0.3);
+    if (price < bollingerBands.lower) {
+      confidence += 0.2;
+      reasons.push('Close below lower Bollinger band.');
+    }
+    return buildSignal('buy', confidence, reasons, indicators, parameters);
+  }
+  if (rsi > overbought) {
+    const reasons = [`RSI ${rsi.toFixed(1)} above ${overbought}.`];
+    let confidence = 0.5 + Math.min((rsi - overbought) / 20, 0.3);
+    if (price > bollingerBands.upper) {
+      confidence += 0.2;
+      reasons.push('Close above upper Bollinger band.');
+    }
+    return buildSignal('sell', confidence, reasons, indicators, parameters);
+  }
+  return buildSignal('hold', 0, [`RSI ${rsi.toFixed(1)} within ${oversold}-${overbought}.`], indicators, parameters);
+};
+
+// Follow the MACD histogram when the EMAs and the 50-period SMA agree with it
+export const macdTrend: SignalFunction = (indicators, parameters) => {
+  const { macd, movingAverages, price } = indicators;
+  const direction = macd.line > macd.signal && macd.histogram > 0 ? 1 : macd.line < macd.signal && macd.histogram < 0 ? -1 : 0;
+  if (direction === 0) {
+    return buildSignal('hold', 0, ['No MACD trend.'], indicators, parameters);
+  }
+
+  const reasons = [direction > 0 ? 'MACD bullish crossover.' : 'MACD bearish crossover.'];
+  let confidence = 0.4;
+  if (Math.sign(movingAverages.ema12 - movingAverages.ema26) === direction) {
+    confidence += 0.2;
+    reasons.push(direction > 0 ? 'EMA bullish alignment.' : 'EMA bearish alignment.');
+  }
+  if (Math.sign(price - movingAverages.sma50) === direction) {
+    confidence += 0.2;
+    reasons.push(direction > 0 ? 'Price above SMA50.' : 'Price below SMA50.');
+  }
+  if (Math.sign(macd.line) === direction) {
+    confidence += 0.1;
+    reasons.push(direction > 0 ? 'MACD above zero.' : 'MACD below zero.');
+  }
+  return buildSignal(direction > 0 ? 'buy' : 'sell', confidence, reasons, indicators, parameters);
+};
+
+// Buy closes above the upper Bollinger band, exit on closes below the lower band
+export const breakout: SignalFunction = (indicators, parameters) => {
+  const { price, bollingerBands, atr, vwap } = indicators;
+  const buffer = (parameters.breakoutAtrBuffer ?? 0) * atr;
+
+  if (price > bollingerBands.upper + buffer) {
+    const reasons = ['Close broke above upper Bollinger band.'];
+    let confidence = 0.6;
+    if (price > vwap) {
+      confidence += 0.15;
+      reasons.push('Price above VWAP.');
+    }
+    if (indicators.volume > 500000) {
+      confidence += 0.15;
+      reasons.push('High volume confirmation.');
+    }
+    return buildSignal('buy', confidence, reasons, indicators, parameters);
+  }
+  if (price < bollingerBands.lower - buffer) {
+    return buildSignal('sell', 0.7, ['Close broke below lower Bollinger band.'], indicators, parameters);
+  }
+  return buildSignal('hold', 0, ['Price inside Bollinger bands.'], indicators, parameters);
+};
+
+export const signalFunctions: Record<SignalName, SignalFunction> = {
+  composite,
+  rsi_mean_reversion: rsiMeanReversion,
+  macd_trend: macdTrend,
+  breakout,
+};
+
+export function isSignalName(value: string): value is SignalName {
+  return Object.prototype.hasOwnProperty.call(signalFunctions, value);
+}
@@ -0,0 +1,82 @@
+import defaultStrategies from './strategies.json';
+import { StrategyFile, StrategyRegistry, TradingStrategy, UnknownStrategyError, volatilityRegime } from './strategy-registry';
+
+const BUNDLED = defaultStrategies as StrategyFile;
+
+// A valid strategy with some fields replaced
+function strategy(overrides: Record<string, unknown> = {}): TradingStrategy {
+  return { ...BUNDLED.strategies[0], name: 'test', ...overrides } as TradingStrategy;
+}
+
+function registry(...strategies: TradingStrategy[]): StrategyRegistry {
+  return new StrategyRegistry({ version: 1, strategies });
+}
+
+describe('StrategyRegistry', () => {
+  it('loads the bundled strategies', () => {
+    const bundled = new StrategyRegistry(BUNDLED);
+
+    expect(bundled.list().map(entry => entry.name)).toEqual(['conservative', 'defensive', 'balanced', 'trend_following', 'aggressive']);
+    expect(bundled.get('balanced').riskLimits.maxTradeNotional).toBe(2500);
+  });
+
+  it('hands out strategies that cannot be changed', () => {
+    const loaded = registry(strategy()).get('test');
+
+    expect(Object.isFrozen(loaded)).toBe(true);
+    expect(Object.isFrozen(loaded.riskLimits)).toBe(true);
+    expect(Object.isFrozen(loaded.parameters)).toBe(true);
+    expect(Object.isFrozen(loaded.volatilityRegimes)).toBe(true);
+  });
+
+  it('rejects an unsupported file version or an empty list', () => {
+    expect(() => new StrategyRegistry({ version: 2, strategies: [strategy()] })).toThrow('Unsupported strategy file version: 2 (expected 1)');
+    expect(() => registry()).toThrow('"strategies" must be a non-empty array');
+  });
+
+  it.each([
+    [{ name: '' }, 'is missing a name'],
+    [{ riskTolerance: 'reckless' }, 'has unknown risk tolerance reckless'],
+    [{ volatilityRegimes: [] }, 'must list volatility regimes from low, medium, high'],
+    [{ volatilityRegimes: ['low', 'extreme'] }, 'must list volatility regimes'],
+    [{ signal: 'astrology' }, 'has unknown signal astrology'],
+    [{ parameters: 'fast' }, 'parameters must be an object'],
+    [{ riskPerTrade: 0 }, 'riskPerTrade must be a fraction between 0 and 1'],
+    [{ stopLoss: 1.5 }, 'stopLoss must be a fraction between 0 and 1'],
+    [{ riskLimits: undefined }, 'is missing riskLimits'],
+    [{ riskLimits: { ...BUNDLED.strategies[0].riskLimits, maxDailyDrawdown: 2 } }, 'riskLimits.maxDailyDrawdown must be a fraction'],
+    [{ riskLimits: { ...BUNDLED.strategies[0].riskLimits, maxTradeNotional: 0 } }, 'riskLimits.maxTradeNotional must be positive'],
+    [{ riskLimits: { ...BUNDLED.strategies[0].riskLimits, maxOpenPositions: 1.5 } }, 'riskLimits.maxOpenPositions must be a positive integer'],
+  ])('rejects a strategy with %j', (overrides, message) => {
+    expect(() => registry(strategy(overrides))).toThrow(message);
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => registry(strategy(), strategy())).toThrow('Invalid strategy file: duplicate strategy test');
+  });
+
+  it('refuses to substitute an unknown strategy', () => {
+    expect(() => registry(strategy()).get('missing')).toThrow(UnknownStrategyError);
+  });
+
+  it('selects by risk tolerance and volatility regime', () => {
+    const bundled = new StrategyRegistry(BUNDLED);
+
+    expect(bundled.select('medium', 'moderate').name).toBe('balanced');
+    expect(bundled.select('high', 'moderate').name).toBe('trend_following');
+    expect(bundled.select('high', 'conservative').name).toBe('defensive');
+  });
+
+  it('falls back to any strategy for the tolerance when none covers the regime', () => {
+    const lowOnly = registry(strategy({ name: 'calm', riskTolerance: 'moderate', volatilityRegimes: ['low'] }));
+
+    expect(lowOnly.select('high', 'moderate').name).toBe('calm');
+    expect(() => lowOnly.select('low', 'aggressive')).toThrow('No trading strategy for risk tolerance aggressive');
+  });
+
+  it('classifies annualized volatility into regimes', () => {
+    expect(volatilityRegime(0.39)).toBe('low');
+    expect(volatilityRegime(0.4)).toBe('medium');
+    expect(volatilityRegime(0.8)).toBe('high');
+  });
+});
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import { config } from '../config';
+import { TechnicalIndicators, TradingSignal } from '../tools/trading-tools';
+import { SignalName, SignalParameters, isSignalName, signalFunctions } from './signals';
+import defaultStrategies from './strategies.json';
+
+export const STRATEGY_FILE_VERSION = 1;
+
+export type RiskTolerance = 'conservative' | 'moderate' | 'aggressive';
+export type VolatilityRegime = 'low' | 'medium' | 'high';
+
+const riskTolerances: RiskTolerance[] = ['conservative', 'moderate', 'aggressive'];
+const volatilityRegimes: VolatilityRegime[] = ['low', 'medium', 'high'];
+
+// Annualized realized volatility boundaries between regimes
+export const LOW_VOLATILITY = 0.4;
+export const HIGH_VOLATILITY = 0.8;
+
+export interface RiskLimits {
+  maxTradeNotional: number; // Largest single order, in USD
+  maxAssetExposure: number; // Largest share of equity held in one non-stable asset
+  maxTotalExposure: number; // Largest share of equity held in non-stable assets overall
+  maxOpenPositions: number; // Most non-stable assets held at once
+  maxDailyDrawdown: number; // Decline from the day's equity peak that halts new buys
+  maxWeeklyDrawdown: number; // Decline from the week's equity peak that halts new buys
+}
+
+export interface TradingStrategy {
+  name: string;
+  description: string;
+  riskTolerance: RiskTolerance;
+  volatilityRegimes: VolatilityRegime[]; // Regimes the strategy is selected for
+  signal: SignalName;
+  parameters: SignalParameters;
+  riskPerTrade: number; // Share of equity lost if the stop is hit
+  maxPositionSize: number; // Largest share of equity in one position
+  stopLoss: number; // Stop distance assumed when sizing, as a fraction of entry
+  takeProfit: number; // Target distance, as a fraction of entry
+  riskLimits: RiskLimits;
+}
+
+export interface StrategyFile {
+  version: number;
+  strategies: TradingStrategy[];
+}
+
+export class UnknownStrategyError extends Error {
+  constructor(public readonly strategy: string) {
+    super(`Unknown trading strategy: ${strategy}`);
+    this.name = 'UnknownStrategyError';
+  }
+}
+
+export function isRiskTolerance(value: string): value is RiskTolerance {
+  return (riskTolerances as string[]).includes(value);
+}
+
+export function isVolatilityRegime(value: string): value is VolatilityRegime {
+  return (volatilityRegimes as string[]).includes(value);
+}
+
+// Classify annualized realized volatility
+export function volatilityRegime(volatility: number): VolatilityRegime {
+  if (volatility < LOW_VOLATILITY) return 'low';
+  if (volatility < HIGH_VOLATILITY) return 'medium';
+  return 'high';
+}
+
+function isFraction(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 1;
+}
+
+function validateStrategy(strategy: TradingStrategy, index: number): void {
+  const where = `strategy #${index} (${strategy?.name})`;
+  if (!strategy || typeof strategy.name !== 'string' || strategy.name.length === 0) {
+    throw new Error(`Invalid strategy file: ${where} is missing a name`);
+  }
+  if (!isRiskTolerance(strategy.riskTolerance)) {
+    throw new Error(`Invalid strategy file: ${where} has unknown risk tolerance ${strategy.riskTolerance}`);
+  }
+  if (!Array.isArray(strategy.volatilityRegimes) || strategy.volatilityRegimes.length === 0 || !strategy.volatilityRegimes.every(isVolatilityRegime)) {
+    throw new Error(`Invalid strategy file: ${where} must list volatility regimes from ${volatilityRegimes.join(', ')}`);
+  }
+  if (!isSignalName(strategy.signal)) {
+    throw new Error(`Invalid strategy file: ${where} has unknown signal ${strategy.signal}`);
+  }
+  if (strategy.parameters !== undefined && (typeof strategy.parameters !== 'object' || strategy.parameters === null)) {
+    throw new Error(`Invalid strategy file: ${where} parameters must be an object`);
+  }
+  for (const field of ['riskPerTrade', 'maxPositionSize', 'stopLoss', 'takeProfit'] as const) {
+    if (!isFraction(strategy[field])) {
+      throw new Error(`Invalid strategy file: ${where} ${field} must be a fraction between 0 and 1`);
+    }
+  }
+
+  const limits = strategy.riskLimits;
+  if (!limits || typeof limits !== 'object') {
+    throw new Error(`Invalid strategy file: ${where} is missing riskLimits`);
+  }
+  for (const field of ['maxAssetExposure', 'maxTotalExposure', 'maxDailyDrawdown', 'maxWeeklyDrawdown'] as const) {
+    if (!isFraction(limits[field])) {
+      throw new Error(`Invalid strategy file: ${where} riskLimits.${field} must be a fraction between 0 and 1`);
+    }
+  }
+  if (!(limits.maxTradeNotional > 0)) {
+    throw new Error(`Invalid strategy file: ${where} riskLimits.maxTradeNotional must be positive`);
+  }
+  if (!Number.isInteger(limits.maxOpenPositions) || limits.maxOpenPositions < 1) {
+    throw new Error(`Invalid strategy file: ${where} riskLimits.maxOpenPositions must be a positive integer`);
+  }
+}
+
+function freezeStrategy(strategy: TradingStrategy): TradingStrategy {
+  return Object.freeze({
+    ...strategy,
+    volatilityRegimes: Object.freeze([...strategy.volatilityRegimes]) as VolatilityRegime[],
+    parameters: Object.freeze({ ...strategy.parameters }),
+    riskLimits: Object.freeze({ ...strategy.riskLimits }),
+  });
+}
+
+// Named, immutable trading strategies selected by volatility regime and risk tolerance
+export class StrategyRegistry {
+  public readonly version: number;
+  private strategies = new Map<string, TradingStrategy>();
+
+  constructor(file: StrategyFile) {
+    if (file?.version !== STRATEGY_FILE_VERSION) {
+      throw new Error(`Unsupported strategy file version: ${file?.version} (expected ${STRATEGY_FILE_VERSION})`);
+    }
+    if (!Array.isArray(file.strategies) || file.strategies.length === 0) {
+      throw new Error('Invalid strategy file: "strategies" must be a non-empty array');
+    }
+
+    this.version = file.version;
+    file.strategies.forEach((strategy, index) => {
+      validateStrategy(strategy, index);
+      if (this.strategies.has(strategy.name)) {
+        throw new Error(`Invalid strategy file: duplicate strategy ${strategy.name}`);
+      }
+      this.strategies.set(strategy.name, freezeStrategy(strategy));
+    });
+  }
+
+  static fromFile(filePath: string): StrategyRegistry {
+    return new StrategyRegistry(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  }
+
+  get(name: string): TradingStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new UnknownStrategyError(name);
+    }
+    return strategy;
+  }
+
+  list(): TradingStrategy[] {
+    return [...this.strategies.values()];
+  }
+
+  // First strategy for the tolerance that covers the regime; falls back to any strategy for the tolerance
+  select(regime: VolatilityRegime, riskTolerance: RiskTolerance): TradingStrategy {
+    const candidates = this.list().filter(strategy => strategy.riskTolerance === riskTolerance);
+    const strategy = candidates.find(candidate => candidate.volatilityRegimes.includes(regime)) || candidates[0];
+    if (!strategy) {
+      throw new Error(`No trading strategy for risk tolerance ${riskTolerance}`);
+    }
+    return strategy;
+  }
+
+  // Run the strategy's signal function and tag the signal with the strategy name
+  generateSignal(strategy: TradingStrategy, indicators: TechnicalIndicators): TradingSignal {
+    return { ...signalFunctions[strategy.signal](indicators, strategy.parameters), strategy: strategy.name };
+  }
+}
+
+export const strategyRegistry = config.strategies.file
+  ? StrategyRegistry.fromFile(config.strategies.file)
+  : new StrategyRegistry(defaultStrategies as StrategyFile);
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import defaultRegistry from './tokens.json';
+
+export const TOKEN_REGISTRY_VERSION = 1;
+
+export type ChainName = 'ethereum' | 'base' | 'arbitrum' | 'optimism' | 'solana';
+
+// How each chain is addressed by the Recall API
+export const chains: Record<ChainName, { recallChain: 'evm' | 'svm'; specificChain: string; chainId?: number }> = {
+  ethereum: { recallChain: 'evm', specificChain: 'eth', chainId: 1 },
+  base: { recallChain: 'evm', specificChain: 'base', chainId: 8453 },
+  arbitrum: { recallChain: 'evm', specificChain: 'arbitrum', chainId: 42161 },
+  optimism: { recallChain: 'evm', specificChain: 'optimism', chainId: 10 },
+  solana: { recallChain: 'svm', specificChain: 'svm' },
+};
+
+export interface TokenInfo {
+  symbol: string;
+  chain: ChainName;
+  address: string;
+  decimals: number;
+  name: string;
+  aliases?: string[];
+  stablecoin?: boolean;
+}
+
+export interface TokenRegistryFile {
+  version: number;
+  tokens: TokenInfo[];
+}
+
+export interface ResolvedPair {
+  base: TokenInfo;
+  quote: TokenInfo;
+  chain: ChainName;
+}
+
+export class UnknownTokenError extends Error {
+  constructor(public readonly symbol: string, public readonly chain: string) {
+    super(`Unknown token ${symbol} on ${chain}`);
+    this.name = 'UnknownTokenError';
+  }
+}
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// EVM addresses compare case-insensitively, Solana addresses exactly
+export function sameAddress(a: string, b: string): boolean {
+  return a.startsWith('0x') && b.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+// Format an amount with the token's decimals, rounding down so we never exceed a balance
+export function formatTokenAmount(amount: number, decimals: number): string {
+  let units = ethers.parseUnits(amount.toFixed(decimals), decimals);
+  if (Number(ethers.formatUnits(units, decimals)) > amount && units > 0n) {
+    units -= 1n;
+  }
+  return ethers.formatUnits(units, decimals);
+}
+
+export function isChainName(value: string): value is ChainName {
+  return Object.prototype.hasOwnProperty.call(chains, value);
+}
+
+// Split "ETH@base" into its symbol and chain, defaulting to the configured chain
+export function parseTokenRef(ref: string, defaultChain: string = config.trading.chain): { symbol: string; chain: ChainName } {
+  const [symbol, chain = defaultChain] = ref.trim().split('@');
+  if (!isChainName(chain)) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return { symbol, chain };
+}
+
+function validateToken(token: TokenInfo, index: number): void {
+  const where = `token #${index} (${token?.symbol})`;
+  if (!token || typeof token.symbol !== 'string' || token.symbol.length === 0) {
+    throw new Error(`Invalid token registry: ${where} is missing a symbol`);
+  }
+  if (!isChainName(token.chain)) {
+    throw new Error(`Invalid token registry: ${where} has unsupported chain ${token.chain}`);
+  }
+  if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+    throw new Error(`Invalid token registry: ${where} has invalid decimals ${token.decimals}`);
+  }
+
+  if (chains[token.chain].recallChain === 'evm') {
+    let checksummed: string;
+    try {
+      checksummed = ethers.getAddress(token.address);
+    } catch (error) {
+      throw new Error(`Invalid token registry: ${where} has an invalid address or checksum ${token.address}`);
+    }
+    if (checksummed !== token.address) {
+      throw new Error(`Invalid token registry: ${where} address must be EIP-55 checksummed (${checksummed})`);
+    }
+  } else if (!SOLANA_ADDRESS.test(token.address)) {
+    throw new Error(`Invalid token registry: ${where} has invalid address ${token.address}`);
+  }
+}
+
+export class TokenRegistry {
+  public readonly version: number;
+  private bySymbol = new Map<string, TokenInfo>();
+  private byAddress = new Map<string, TokenInfo>();
+
+  constructor(file: TokenRegistryFile) {
+    if (file?.version !== TOKEN_REGISTRY_VERSION) {
+      throw new Error(`Unsupported token registry version: ${file?.version} (expected ${TOKEN_REGISTRY_VERSION})`);
+    }
+    if (!Array.isArray(file.tokens)) {
+      throw new Error('Invalid token registry: "tokens" must be an array');
+    }
+
+    this.version = file.version;
+    file.tokens.forEach((token, index) => {
+      validateToken(token, index);
+      const entry = Object.freeze({ ...token, aliases: token.aliases ? [...token.aliases] : undefined });
+      for (const name of [token.symbol, ...(token.aliases || [])]) {
+        const key = this.symbolKey(name, token.chain);
+        if (this.bySymbol.has(key)) {
+          throw new Error(`Invalid token registry: duplicate symbol ${name} on ${token.chain}`);
+        }
+        this.bySymbol.set(key, entry);
+      }
+      this.byAddress.set(this.addressKey(token.address, token.chain), entry);
+    });
+  }
+
+  static fromFile(filePath: string): TokenRegistry {
+    return new TokenRegistry(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  }
+
+  // Look up a token by symbol or alias; unknown symbols are an error, never a substitute
+  resolve(symbol: string, chain: ChainName = parseTokenRef(symbol).chain): TokenInfo {
+    const { symbol: name } = parseTokenRef(symbol, chain);
+    const token = this.bySymbol.get(this.symbolKey(name, chain));
+    if (!token) {
+      throw new UnknownTokenError(name, chain);
+    }
+    return token;
+  }
+
+  // Resolve "BASE/QUOTE" or "BASE/QUOTE@chain"
+  resolvePair(pair: string): ResolvedPair {
+    const { symbol, chain } = parseTokenRef(pair);
+    const [baseSymbol, quoteSymbol] = symbol.split('/');
+    if (!baseSymbol || !quoteSymbol) {
+      throw new Error(`Invalid trading pair: ${pair}`);
+    }
+    return {
+      base: this.resolve(baseSymbol, chain),
+      quote: this.resolve(quoteSymbol, chain),
+      chain,
+    };
+  }
+
+  findByAddress(address: string, chain?: ChainName): TokenInfo | undefined {
+    if (chain) {
+      return this.byAddress.get(this.addressKey(address, chain));
+    }
+    return this.list().find(token => sameAddress(token.address, address));
+  }
+
+  list(chain?: ChainName): TokenInfo[] {
+    return [...this.byAddress.values()].filter(token => !chain || token.chain === chain);
+  }
+
+  private symbolKey(symbol: string, chain: ChainName): string {
+    return `${chain}:${symbol.toUpperCase()}`;
+  }
+
+  // EVM addresses are case-insensitive, Solana addresses are not
+  private addressKey(address: string, chain: ChainName): string {
+    return `${chain}:${chains[chain].recallChain === 'evm' ? address.toLowerCase() : address}`;
+  }
+}
+
+export const tokenRegistry = config.tokens.registryFile
+  ? TokenRegistry.fromFile(config.tokens.registryFile)
+  : new TokenRegistry(defaultRegistry as TokenRegistryFile);
@@ -0,0 +1,200 @@
+import { Tool } from '@mastra/core';
+import { config } from '../config';
+import { TradingVenue, createTradingVenue } from '../services/trading-venue';
+import { chains, parseTokenRef, tokenRegistry } from '../tokens/token-registry';
+import { audited } from '../audit/audit-trail';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('recall-tools.log');
+
+export interface MarketData {
+  symbol: string;
+  token: string;
+  price: number;
+  chain: string;
+  timestamp: Date;
+}
+
+export interface TokenBalance {
+  token: string;
+  symbol?: string;
+  amount: number;
+  price: number;
+  value: number;
+}
+
+export interface PortfolioBalance {
+  totalBalance: number;
+  tokens: TokenBalance[];
+}
+
+export interface TradeQuote {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  exchangeRate: number;
+  priceImpact: number;
+}
+
+export interface TradeExecutionResult {
+  txHash: string; // Venue trade ID; a 32-byte hex hash when the trade settled on chain
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  price: number;
+  timestamp: Date;
+}
+
+export class RecallNetworkTools {
+  // Live Recall API client or the paper-trading simulated exchange, depending on config.trading.mode
+  constructor(private client: TradingVenue = createTradingVenue()) {}
+
+  // Tool: Get Market Data
+  getMarketData = new Tool({
+    name: 'getMarketData',
+    description: 'Get the current USD price for a token or trading pair',
+    parameters: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string', description: 'Token symbol or trading pair, optionally with a chain (e.g. ETH, ETH/USDC or ETH/USDC@base)' },
+      },
+      required: ['symbol'],
+    },
+    execute: audited('getMarketData', async ({ symbol }: { symbol: string }): Promise<MarketData> => {
+      const { symbol: pair, chain } = parseTokenRef(symbol);
+      const token = tokenRegistry.resolve(pair.split('/')[0], chain);
+
+      const response = await this.client.getPrice(token.address, chains[chain].recallChain, chains[chain].specificChain);
+      const marketData: MarketData = {
+        symbol,
+        token: token.address,
+        price: response.price,
+        chain: response.specificChain || response.chain,
+        timestamp: new Date(response.timestamp),
+      };
+
+      logger.info(`Market data for ${symbol}:`, marketData);
+      return marketData;
+    }),
+  });
+
+  // Tool: Get Portfolio Balance
+  getPortfolioBalance = new Tool({
+    name: 'getPortfolioBalance',
+    description: 'Get the agent portfolio balances and total USD value',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+    execute: audited('getPortfolioBalance', async (): Promise<PortfolioBalance> => {
+      const portfolio = await this.client.getPortfolio();
+      const balance: PortfolioBalance = {
+        totalBalance: portfolio.totalValue,
+        tokens: portfolio.tokens.map(token => ({
+          token: token.token,
+          symbol: token.symbol,
+          amount: token.amount,
+          price: token.price,
+          value: token.value,
+        })),
+      };
+
+      logger.info(`Portfolio balance: ${balance.totalBalance}`);
+      return balance;
+    }),
+  });
+
+  // Tool: Get Trade Quote
+  getTradeQuote = new Tool({
+    name: 'getTradeQuote',
+    description: 'Get a quote for swapping tokenIn into tokenOut',
+    parameters: {
+      type: 'object',
+      properties: {
+        tokenIn: { type: 'string', description: 'Address of the token to sell' },
+        tokenOut: { type: 'string', description: 'Address of the token to buy' },
+        amountIn: { type: 'string', description: 'Amount of tokenIn in whole token units (e.g. "100.5")' },
+      },
+      required: ['tokenIn', 'tokenOut', 'amountIn'],
+    },
+    execute: audited('getTradeQuote', async ({ tokenIn, tokenOut, amountIn }: { tokenIn: string; tokenOut: string; amountIn: string }): Promise<TradeQuote> => {
+      const response = await this.client.getQuote(tokenIn, tokenOut, amountIn);
+      const quote: TradeQuote = {
+        tokenIn,
+        tokenOut,
+        amountIn: response.fromAmount,
+        amountOut: response.toAmount,
+        exchangeRate: response.exchangeRate,
+        priceImpact: response.slippage,
+      };
+
+      logger.info('Trade quote:', quote);
+      return quote;
+    }),
+  });
+
+  // Tool: Execute Trade
+  executeTrade = new Tool({
+    name: 'executeTrade',
+    description: 'Execute a swap of tokenIn into tokenOut',
+    parameters: {
+      type: 'object',
+      properties: {
+        tokenIn: { type: 'string', description: 'Address of the token to sell' },
+        tokenOut: { type: 'string', description: 'Address of the token to buy' },
+        amountIn: { type: 'string', description: 'Amount of tokenIn in whole token units (e.g. "100.5")' },
+        slippageTolerance: { type: 'number', description: 'Maximum slippage in percent' },
+        reason: { type: 'string', description: 'Reason for the trade' },
+      },
+      required: ['tokenIn', 'tokenOut', 'amountIn'],
+    },
+    execute: audited('executeTrade', async ({
+      tokenIn,
+      tokenOut,
+      amountIn,
+      slippageTolerance = config.trading.maxSlippage,
+      reason = 'SlothfulTrader automated trade',
+    }: {
+      tokenIn: string;
+      tokenOut: string;
+      amountIn: string;
+      slippageTolerance?: number;
+      reason?: string;
+    }): Promise<TradeExecutionResult> => {
+      const transaction = await this.client.executeTrade({
+        fromToken: tokenIn,
+        toToken: tokenOut,
+        amount: amountIn,
+        reason,
+        slippageTolerance: slippageTolerance.toString(),
+      });
+
+      const result: TradeExecutionResult = {
+        txHash: transaction.id,
+        tokenIn: transaction.fromToken,
+        tokenOut: transaction.toToken,
+        amountIn: transaction.fromAmount,
+        amountOut: transaction.toAmount,
+        price: transaction.price,
+        timestamp: new Date(transaction.timestamp),
+      };
+
+      logger.info('Trade executed:', result);
+      return result;
+    }),
+  });
+
+  // Get all Recall Network tools
+  getTools() {
+    return [
+      this.getMarketData,
+      this.getPortfolioBalance,
+      this.getTradeQuote,
+      this.executeTrade,
+    ];
+  }
+}
+
+export const recallTools = new RecallNetworkTools();
@@ -1,20 +1,25 @@
 import { Tool } from '@mastra/core';
 import { ethers } from 'ethers';
-import { config, TradingStrategy, tradingStrategies } from '../config';
-import winston from 'winston';
+import { config } from '../config';
+import { CandleStore, candleStore, parseTimeframe } from '../market/candles';
+import { computeIndicators } from '../market/indicators';
+import { PositionLedger, positionLedger } from '../portfolio/position-ledger';
+import {
+  StrategyRegistry,
+  TradingStrategy,
+  isRiskTolerance,
+  isVolatilityRegime,
+  strategyRegistry,
+  volatilityRegime,
+} from '../strategies/strategy-registry';
+import { audited } from '../audit/audit-trail';
+import { EventBus, eventBus } from '../events/event-bus';
+import { createModuleLogger } from '../logging/logger';
 
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  transports: [
-    new winston.transports.File({ filename: 'trading.log' }),
-    new winston.transports.Console({
-      format: winston.format.simple(),
-    }),
-  ],
-});
+const logger = createModuleLogger('trading.log');
 
 export interface TechnicalIndicators {
+  price: number;
   rsi: number;
   macd: {
     line: number;
@@ -27,8 +32,16 @@ export interface TechnicalIndicators {
     ema12: number;
     ema26: number;
   };
+  bollingerBands: {
+    upper: number;
+    middle: number;
+    lower: number;
+    bandwidth: number;
+  };
+  atr: number;
+  vwap: number;
   volume: number;
-  volatility: number;
+  volatility: number; // Annualized realized volatility of log returns
 }
 
 export interface TradingSignal {
@@ -38,9 +51,27 @@ export interface TradingSignal {
   suggestedAmount?: number;
   targetPrice?: number;
   stopLoss?: number;
+  strategy?: string; // TradingStrategy that produced the signal
+}
+
+// Largest share of the portfolio a single position may take
+export const MAX_POSITION_FRACTION = 0.5;
+
+// Risk-based position size, capped at MAX_POSITION_FRACTION of the portfolio
+export function sizePosition(totalBalance: number, riskPercentage: number, stopLossPercentage: number): number {
+  const riskAmount = totalBalance * (riskPercentage / 100);
+  const positionSize = riskAmount / (stopLossPercentage / 100);
+  return Math.min(positionSize, totalBalance * MAX_POSITION_FRACTION);
 }
 
 export class TradingTools {
+  constructor(
+    private candles: CandleStore = candleStore,
+    private ledger: PositionLedger = positionLedger,
+    private strategies: StrategyRegistry = strategyRegistry,
+    private events: EventBus = eventBus
+  ) {}
+
   // Tool: Analyze Market Conditions
   analyzeMarket = new Tool({
     name: 'analyzeMarket',
@@ -50,22 +81,30 @@ export class TradingTools {
       properties: {
         symbol: { type: 'string', description: 'Trading pair symbol' },
         timeframe: { type: 'string', description: 'Timeframe for analysis (1h, 4h, 1d)' },
+        strategy: { type: 'string', description: 'Strategy name; selected by volatility and risk tolerance when omitted' },
       },
       required: ['symbol', 'timeframe'],
     },
-    execute: async ({ symbol, timeframe }: { symbol: string; timeframe: string }): Promise<TradingSignal> => {
+    execute: audited('analyzeMarket', async ({ symbol, timeframe, strategy }: { symbol: string; timeframe: string; strategy?: string }): Promise<TradingSignal> => {
       try {
-        // Simulate technical analysis (in production, this would call real TA APIs)
-        const indicators = await this.calculateIndicators(symbol, timeframe);
-        const signal = this.generateSignal(indicators);
+        const indicators = this.calculateIndicators(symbol, timeframe);
+        const signal = this.generateSignal(indicators, strategy ? this.strategies.get(strategy) : undefined);
         
         logger.info(`Market analysis for ${symbol}:`, signal);
+        this.events.emit('signal_generated', {
+          symbol,
+          source: 'strategy',
+          action: signal.action,
+          confidence: signal.confidence,
+          reason: signal.reason,
+          strategy: signal.strategy,
+        });
         return signal;
       } catch (error) {
         logger.error('Error analyzing market:', error);
         throw new Error(`Failed to analyze market: ${error}`);
       }
-    },
+    }),
   });
 
   // Tool: Calculate Position Size
@@ -81,13 +120,12 @@ export class TradingTools {
       },
       required: ['totalBalance', 'riskPercentage', 'stopLossPercentage'],
     },
-    execute: async ({ totalBalance, riskPercentage, stopLossPercentage }: any): Promise<number> => {
-      const riskAmount = totalBalance * (riskPercentage / 100);
-      const positionSize = riskAmount / (stopLossPercentage / 100);
+    execute: audited('calculatePositionSize', async ({ totalBalance, riskPercentage, stopLossPercentage }: any): Promise<number> => {
+      const positionSize = sizePosition(totalBalance, riskPercentage, stopLossPercentage);
       
       logger.info(`Calculated position size: ${positionSize}`);
-      return Math.min(positionSize, totalBalance * 0.5); // Max 50% of portfolio
-    },
+      return positionSize;
+    }),
   });
 
   // Tool: Get Trading Strategy
@@ -98,24 +136,32 @@ export class TradingTools {
       type: 'object',
       properties: {
         marketVolatility: { type: 'string', description: 'Market volatility level (low, medium, high)' },
-                accountBalance: { type: 'number', description: 'Current account balance' },
+        accountBalance: { type: 'number', description: 'Current account balance' },
         riskTolerance: { type: 'string', description: 'Risk tolerance (conservative, moderate, aggressive)' },
       },
       required: ['marketVolatility', 'accountBalance', 'riskTolerance'],
     },
-    execute: async ({ marketVolatility, accountBalance, riskTolerance }: any): Promise<TradingStrategy> => {
-      const strategyKey = `${riskTolerance}_${marketVolatility}` as keyof typeof tradingStrategies;
-      const strategy = tradingStrategies[strategyKey] || tradingStrategies.moderate_medium;
-      
-      // Adjust strategy based on account balance
+    execute: audited('getStrategy', async ({ marketVolatility, accountBalance, riskTolerance }: any): Promise<TradingStrategy> => {
+      if (!isVolatilityRegime(marketVolatility)) {
+        throw new Error(`Invalid market volatility: ${marketVolatility} (expected low, medium or high)`);
+      }
+      if (!isRiskTolerance(riskTolerance)) {
+        throw new Error(`Invalid risk tolerance: ${riskTolerance} (expected conservative, moderate or aggressive)`);
+      }
+      let strategy = this.strategies.select(marketVolatility, riskTolerance);
+
+      // Small accounts get a scaled-down copy; registry strategies are never modified
       if (accountBalance < 1000) {
-        strategy.maxPositionSize = Math.min(strategy.maxPositionSize, 0.3);
-        strategy.riskPerTrade = Math.min(strategy.riskPerTrade, 0.02);
+        strategy = Object.freeze({
+          ...strategy,
+          maxPositionSize: Math.min(strategy.maxPositionSize, 0.3),
+          riskPerTrade: Math.min(strategy.riskPerTrade, 0.02),
+        });
       }
       
-      logger.info(`Selected strategy: ${strategyKey}`, strategy);
+      logger.info(`Selected strategy: ${strategy.name} for ${riskTolerance}/${marketVolatility}`, strategy);
       return strategy;
-    },
+    }),
   });
 
   // Tool: Monitor Trade Performance
@@ -126,14 +172,23 @@ export class TradingTools {
       type: 'object',
       properties: {
         tradeId: { type: 'string', description: 'Trade identifier' },
+        symbol: { type: 'string', description: 'Trading pair; entry price, stop loss and take profit default to the open position in the ledger' },
         entryPrice: { type: 'number', description: 'Entry price of the trade' },
         currentPrice: { type: 'number', description: 'Current market price' },
         stopLoss: { type: 'number', description: 'Stop loss price' },
         takeProfit: { type: 'number', description: 'Take profit price' },
       },
-      required: ['tradeId', 'entryPrice', 'currentPrice'],
+      required: ['tradeId', 'currentPrice'],
     },
-    execute: async ({ tradeId, entryPrice, currentPrice, stopLoss, takeProfit }: any): Promise<any> => {
+    execute: audited('monitorTrade', async ({ tradeId, symbol, currentPrice, ...levels }: any): Promise<any> => {
+      const position = symbol ? this.ledger.getPosition(symbol) : undefined;
+      const entryPrice = levels.entryPrice ?? position?.averageCost;
+      const stopLoss = levels.stopLoss ?? position?.stopLoss;
+      const takeProfit = levels.takeProfit ?? position?.takeProfit;
+      if (!entryPrice) {
+        throw new Error(`No entry price for trade ${tradeId}: pass entryPrice or the symbol of an open position`);
+      }
+
       const pnlPercentage = ((currentPrice - entryPrice) / entryPrice) * 100;
       
       let recommendation = 'hold';
@@ -163,93 +218,37 @@ export class TradingTools {
       };
       
       logger.info(`Trade monitoring result:`, result);
+      if (recommendation === 'close') {
+        this.events.emit('stop_triggered', {
+          symbol: symbol || tradeId,
+          reason: stopLoss && currentPrice <= stopLoss ? 'stop_loss' : 'take_profit',
+          price: currentPrice,
+          message: reason,
+          source: 'monitorTrade',
+        });
+      }
       return result;
-    },
+    }),
   });
 
-  // Helper method to calculate technical indicators
-  private async calculateIndicators(symbol: string, timeframe: string): Promise<TechnicalIndicators> {
-    // In a real implementation, this would fetch historical data and calculate indicators
-    // For now, we'll simulate some values
-    return {
-      rsi: Math.random() * 100,
-      macd: {
-        line: (Math.random() - 0.5) * 2,
-        signal: (Math.random() - 0.5) * 2,
-        histogram: (Math.random() - 0.5) * 2,
-      },
-      movingAverages: {
-        sma20: Math.random() * 100 + 50,
-        sma50: Math.random() * 100 + 50,
-        ema12: Math.random() * 100 + 50,
-                ema26: Math.random() * 100 + 50,
-      },
-      volume: Math.random() * 1000000,
-      volatility: Math.random() * 0.5,
-    };
+  // Helper method to calculate technical indicators from the stored candle series
+  private calculateIndicators(symbol: string, timeframe: string): TechnicalIndicators {
+    const candles = this.candles.getCandles(symbol, parseTimeframe(timeframe));
+    return computeIndicators(candles, parseTimeframe(timeframe));
   }
 
-  // Helper method to generate trading signals
-  private generateSignal(indicators: TechnicalIndicators): TradingSignal {
-    let action: 'buy' | 'sell' | 'hold' = 'hold';
-    let confidence = 0;
-    let reason = '';
-
-    // RSI-based signals
-    if (indicators.rsi < 30) {
-      action = 'buy';
-      confidence += 0.3;
-      reason += 'RSI oversold. ';
-    } else if (indicators.rsi > 70) {
-      action = 'sell';
-      confidence += 0.3;
-      reason += 'RSI overbought. ';
-    }
-
-    // MACD signals
-    if (indicators.macd.line > indicators.macd.signal && indicators.macd.histogram > 0) {
-      if (action === 'hold') action = 'buy';
-      confidence += 0.25;
-      reason += 'MACD bullish crossover. ';
-    } else if (indicators.macd.line < indicators.macd.signal && indicators.macd.histogram < 0) {
-      if (action === 'hold') action = 'sell';
-      confidence += 0.25;
-      reason += 'MACD bearish crossover. ';
+  // Strategy for the configured risk tolerance in the indicators' volatility regime
+  selectStrategy(indicators: TechnicalIndicators): TradingStrategy {
+    const riskTolerance = config.strategies.riskTolerance;
+    if (!isRiskTolerance(riskTolerance)) {
+      throw new Error(`Invalid RISK_TOLERANCE: ${riskTolerance}`);
     }
+    return this.strategies.select(volatilityRegime(indicators.volatility), riskTolerance);
+  }
 
-    // Moving average signals
-    if (indicators.movingAverages.ema12 > indicators.movingAverages.ema26) {
-      if (action === 'hold') action = 'buy';
-      confidence += 0.2;
-      reason += 'EMA bullish alignment. ';
-    } else if (indicators.movingAverages.ema12 < indicators.movingAverages.ema26) {
-      if (action === 'hold') action = 'sell';
-      confidence += 0.2;
-      reason += 'EMA bearish alignment. ';
-    }
-
-    // Volume confirmation
-    if (indicators.volume > 500000) {
-      confidence += 0.15;
-      reason += 'High volume confirmation. ';
-    }
-
-    // Volatility adjustment
-    if (indicators.volatility > 0.3) {
-      confidence *= 0.8; // Reduce confidence in high volatility
-      reason += 'High volatility detected. ';
-    }
-
-    confidence = Math.min(confidence, 1);
-
-    return {
-      action,
-      confidence: Math.round(confidence * 100) / 100,
-      reason: reason.trim(),
-      suggestedAmount: action !== 'hold' ? Math.random() * 1000 + 100 : undefined,
-      targetPrice: action === 'buy' ? Math.random() * 10 + 100 : undefined,
-      stopLoss: action === 'buy' ? Math.random() * 5 + 95 : undefined,
-    };
+  // Generate a trading signal from indicators (pure, also used by the backtester)
+  generateSignal(indicators: TechnicalIndicators, strategy: TradingStrategy = this.selectStrategy(indicators)): TradingSignal {
+    return this.strategies.generateSignal(strategy, indicators);
   }
 
   // Get all trading tools
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { TokenInfo } from '../tokens/token-registry';
+import {
+  GasLimitExceededError,
+  NonceManager,
+  WalletAddressMismatchError,
+  WalletOptions,
+  WalletSigner,
+  capFees,
+  gasLimitFor,
+  loadWallet,
+} from './wallet-signer';
+
+// The first account of the standard dev-chain mnemonic (anvil, hardhat)
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const NO_KEY: WalletOptions = { privateKey: '', keystoreFile: '', keystorePassword: '', mnemonic: '', derivationPath: "m/44'/60'/0'/0/0", address: '' };
+const GAS = { gasLimit: 300_000, maxFeePerGasGwei: 100, maxPriorityFeePerGasGwei: 2 };
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+const USDT: TokenInfo = { symbol: 'USDT', chain: 'ethereum', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, name: 'Tether USD' };
+const ROUTER = '0x3333333333333333333333333333333333333333';
+const ERC20 = new ethers.Interface(['function allowance(address owner, address spender) view returns (uint256)', 'function approve(address spender, uint256 amount) returns (bool)']);
+
+describe('loadWallet', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wallet-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the same account from a private key, a mnemonic and a keystore', async () => {
+    const keystoreFile = path.join(dir, 'keystore.json');
+    fs.writeFileSync(keystoreFile, ethers.encryptKeystoreJsonSync({ address: ADDRESS, privateKey: PRIVATE_KEY }, 'secret', { scrypt: { N: 16 } }));
+
+    const fromKey = await loadWallet({ ...NO_KEY, privateKey: PRIVATE_KEY, address: ADDRESS.toLowerCase() });
+    const fromMnemonic = await loadWallet({ ...NO_KEY, mnemonic: ` ${MNEMONIC} ` });
+    const fromKeystore = await loadWallet({ ...NO_KEY, keystoreFile, keystorePassword: 'secret' });
+
+    expect([fromKey.address, fromMnemonic.address, fromKeystore.address]).toEqual([ADDRESS, ADDRESS, ADDRESS]);
+  });
+
+  it('refuses a key that does not belong to WALLET_ADDRESS', async () => {
+    const error = await loadWallet({ ...NO_KEY, privateKey: PRIVATE_KEY, address: ROUTER }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WalletAddressMismatchError);
+    expect(error.actual).toBe(ADDRESS);
+  });
+
+  it('needs exactly one key source', async () => {
+    await expect(loadWallet(NO_KEY)).rejects.toThrow('Configure exactly one of');
+    await expect(loadWallet({ ...NO_KEY, privateKey: PRIVATE_KEY, mnemonic: MNEMONIC })).rejects.toThrow('Configure exactly one of');
+    await expect(loadWallet({ ...NO_KEY, privateKey: '0x1234' })).rejects.toThrow('Failed to load wallet');
+  });
+});
+
+describe('gas', () => {
+  it('caps suggested fees and keeps the tip under the max fee', () => {
+    expect(capFees({ maxFeePerGas: gwei('250'), maxPriorityFeePerGas: gwei('1'), gasPrice: null }, GAS)).toEqual({
+      maxFeePerGas: gwei('100'),
+      maxPriorityFeePerGas: gwei('1'),
+    });
+    expect(capFees({ maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: gwei('1.5') }, GAS)).toEqual({
+      maxFeePerGas: gwei('1.5'),
+      maxPriorityFeePerGas: gwei('1.5'),
+    });
+  });
+
+  it('adds headroom to estimates up to the gas limit', () => {
+    expect(gasLimitFor(100_000n, 300_000)).toBe(120_000n);
+    expect(gasLimitFor(280_000n, 300_000)).toBe(300_000n);
+    expect(() => gasLimitFor(300_001n, 300_000)).toThrow(GasLimitExceededError);
+  });
+});
+
+describe('NonceManager', () => {
+  it('hands out consecutive nonces and resyncs after a reset', async () => {
+    let pending = 5;
+    const nonces = new NonceManager({ getTransactionCount: async () => pending }, ADDRESS);
+
+    await expect(Promise.all([nonces.reserve(), nonces.reserve(), nonces.reserve()])).resolves.toEqual([5, 6, 7]);
+
+    pending = 20; // Transactions sent from elsewhere
+    await expect(nonces.reserve()).resolves.toBe(20);
+
+    pending = 6;
+    nonces.reset();
+    await expect(nonces.reserve()).resolves.toBe(6);
+  });
+});
+
+// Dev chain stand-in: answers allowance calls and accepts signed transactions
+class FakeChain {
+  allowance = 0n;
+  sent: ethers.Transaction[] = [];
+
+  asProvider(): ethers.Provider {
+    return {
+      getNetwork: async () => ({ chainId: 31337n }),
+      estimateGas: async () => 100_000n,
+      getFeeData: async () => ({ maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('5'), gasPrice: null }),
+      getTransactionCount: async () => this.sent.length,
+      call: async () => ERC20.encodeFunctionResult('allowance', [this.allowance]),
+      broadcastTransaction: async (signed: string) => {
+        const transaction = ethers.Transaction.from(signed);
+        this.sent.push(transaction);
+        const approval = transaction.data.startsWith(ERC20.getFunction('approve')!.selector);
+        if (approval) this.allowance = ERC20.decodeFunctionData('approve', transaction.data)[1];
+        return { hash: transaction.hash, wait: async () => ({ status: 1 }) };
+      },
+    } as unknown as ethers.Provider;
+  }
+}
+
+describe('WalletSigner', () => {
+  let chain: FakeChain;
+  let signer: WalletSigner;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    signer = new WalletSigner(new ethers.Wallet(PRIVATE_KEY), chain.asProvider(), GAS);
+  });
+
+  function approvals(): bigint[] {
+    return chain.sent.filter(tx => tx.to === USDT.address).map(tx => ERC20.decodeFunctionData('approve', tx.data)[1]);
+  }
+
+  it('signs with the buffered gas limit, capped fees and the next nonce', async () => {
+    await signer.sendTransaction({ to: ROUTER, data: '0x' });
+    await signer.sendTransaction({ to: ROUTER, data: '0x' });
+
+    expect(chain.sent.map(tx => [tx.from, tx.nonce, tx.gasLimit, tx.maxFeePerGas, tx.maxPriorityFeePerGas, tx.chainId])).toEqual([
+      [ADDRESS, 0, 120_000n, gwei('30'), gwei('2'), 31337n],
+      [ADDRESS, 1, 120_000n, gwei('30'), gwei('2'), 31337n],
+    ]);
+  });
+
+  it('approves the swap contract before sending a swap, resetting a short allowance to zero first', async () => {
+    chain.allowance = ethers.parseUnits('10', 6);
+
+    await signer.sendSwap(USDT, '250', { to: ROUTER, data: '0x1234' });
+
+    expect(approvals()).toEqual([0n, ethers.parseUnits('250', 6)]);
+    expect(chain.sent.map(tx => tx.to)).toEqual([USDT.address, USDT.address, ROUTER]);
+  });
+
+  it('sends a swap straight away when the allowance covers it', async () => {
+    chain.allowance = ethers.parseUnits('1000', 6);
+
+    await Promise.all([signer.sendSwap(USDT, '250', { to: ROUTER }), signer.sendSwap(USDT, '250', { to: ROUTER })]);
+
+    expect(approvals()).toEqual([]);
+    expect(chain.sent.map(tx => tx.nonce)).toEqual([0, 1]);
+  });
+});
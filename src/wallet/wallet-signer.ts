@@ -0,0 +1,249 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { TokenInfo, sameAddress } from '../tokens/token-registry';
+import { createModuleLogger } from '../logging/logger';
+
+const logger = createModuleLogger('wallet.log');
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+// Headroom added to gas estimates, in percent
+const GAS_ESTIMATE_BUFFER = 20;
+
+export interface WalletOptions {
+  privateKey: string;
+  keystoreFile: string; // Encrypted JSON keystore
+  keystorePassword: string;
+  mnemonic: string;
+  derivationPath: string;
+  address: string; // Expected address; checked against the loaded key when set
+}
+
+export interface GasOptions {
+  gasLimit: number; // Highest gas limit a transaction may use
+  maxFeePerGasGwei: number; // Cap on the EIP-1559 max fee
+  maxPriorityFeePerGasGwei: number; // Cap on the EIP-1559 tip
+}
+
+export interface FeeCaps {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export class WalletAddressMismatchError extends Error {
+  constructor(public readonly expected: string, public readonly actual: string) {
+    super(`Wallet key belongs to ${actual}, but WALLET_ADDRESS is ${expected}`);
+    this.name = 'WalletAddressMismatchError';
+  }
+}
+
+export class GasLimitExceededError extends Error {
+  constructor(public readonly estimate: bigint, public readonly gasLimit: number) {
+    super(`Estimated gas ${estimate} exceeds the gas limit of ${gasLimit}`);
+    this.name = 'GasLimitExceededError';
+  }
+}
+
+// Whether any signing key is configured
+export function hasWalletKey(options: WalletOptions): boolean {
+  return !!(options.privateKey || options.keystoreFile || options.mnemonic);
+}
+
+// Load the signing key from exactly one of an env private key, a keystore file or a mnemonic,
+// and check it against the configured address
+export async function loadWallet(options: WalletOptions): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+  const sources = [options.privateKey, options.keystoreFile, options.mnemonic].filter(Boolean);
+  if (sources.length !== 1) {
+    throw new Error('Configure exactly one of PRIVATE_KEY, WALLET_KEYSTORE_FILE or WALLET_MNEMONIC');
+  }
+
+  let wallet: ethers.Wallet | ethers.HDNodeWallet;
+  try {
+    if (options.privateKey) {
+      wallet = new ethers.Wallet(options.privateKey);
+    } else if (options.keystoreFile) {
+      const json = fs.readFileSync(options.keystoreFile, 'utf8');
+      wallet = await ethers.Wallet.fromEncryptedJson(json, options.keystorePassword);
+    } else {
+      wallet = ethers.HDNodeWallet.fromPhrase(options.mnemonic.trim(), undefined, options.derivationPath);
+    }
+  } catch (error) {
+    logger.error(`Error loading wallet: ${error instanceof Error ? error.message : error}`);
+    throw new Error(`Failed to load wallet: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (options.address && !sameAddress(options.address, wallet.address)) {
+    throw new WalletAddressMismatchError(options.address, wallet.address);
+  }
+  return wallet;
+}
+
+// Cap the network's suggested EIP-1559 fees; the tip never exceeds the max fee
+export function capFees(feeData: Pick<ethers.FeeData, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>, options: GasOptions): FeeCaps {
+  const maxFeeCap = ethers.parseUnits(options.maxFeePerGasGwei.toString(), 'gwei');
+  const priorityCap = ethers.parseUnits(options.maxPriorityFeePerGasGwei.toString(), 'gwei');
+  const suggestedMaxFee = feeData.maxFeePerGas ?? feeData.gasPrice ?? maxFeeCap;
+  const suggestedPriority = feeData.maxPriorityFeePerGas ?? priorityCap;
+
+  const maxFeePerGas = suggestedMaxFee < maxFeeCap ? suggestedMaxFee : maxFeeCap;
+  let maxPriorityFeePerGas = suggestedPriority < priorityCap ? suggestedPriority : priorityCap;
+  if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Add headroom to a gas estimate without going over the limit; estimates already over it are refused
+export function gasLimitFor(estimate: bigint, gasLimit: number): bigint {
+  const limit = BigInt(gasLimit);
+  if (estimate > limit) throw new GasLimitExceededError(estimate, gasLimit);
+  const buffered = (estimate * BigInt(100 + GAS_ESTIMATE_BUFFER)) / 100n;
+  return buffered < limit ? buffered : limit;
+}
+
+// Hands out consecutive nonces to concurrent senders. The first reservation, and the first
+// after a reset, starts from the chain's pending transaction count.
+export class NonceManager {
+  private next?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private provider: Pick<ethers.Provider, 'getTransactionCount'>, private address: string) {}
+
+  reserve(): Promise<number> {
+    const reservation = this.queue.then(async () => {
+      const pending = await this.provider.getTransactionCount(this.address, 'pending');
+      const nonce = this.next === undefined ? pending : Math.max(this.next, pending);
+      this.next = nonce + 1;
+      return nonce;
+    });
+    this.queue = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  // Forget local state, e.g. after a reserved nonce was never broadcast
+  reset(): void {
+    this.next = undefined;
+  }
+}
+
+// Signs and sends transactions for the configured wallet: nonces, gas limits, fee caps and allowances
+export class WalletSigner {
+  private nonces: NonceManager;
+  private approvals = new Map<string, Promise<void>>();
+
+  constructor(
+    private wallet: ethers.Wallet | ethers.HDNodeWallet,
+    private provider: ethers.Provider,
+    private gas: GasOptions = {
+      gasLimit: config.trading.gasLimit,
+      maxFeePerGasGwei: config.wallet.maxFeePerGasGwei,
+      maxPriorityFeePerGasGwei: config.wallet.maxPriorityFeePerGasGwei,
+    }
+  ) {
+    this.wallet = wallet.connect(provider);
+    this.nonces = new NonceManager(provider, wallet.address);
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  // Estimate gas, apply fee caps, take the next nonce and broadcast
+  async sendTransaction(request: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    const estimate = await this.provider.estimateGas({ ...request, from: this.wallet.address });
+    const gasLimit = gasLimitFor(estimate, this.gas.gasLimit);
+    const fees = capFees(await this.provider.getFeeData(), this.gas);
+    const nonce = await this.nonces.reserve();
+
+    try {
+      const response = await this.wallet.sendTransaction({ ...request, ...fees, gasLimit, nonce, type: 2 });
+      logger.info(`Sent transaction ${response.hash} (nonce ${nonce}, gas limit ${gasLimit})`);
+      return response;
+    } catch (error) {
+      // The nonce may not have been used; resync from the chain on the next send
+      this.nonces.reset();
+      logger.error(`Error sending transaction with nonce ${nonce}:`, error);
+      throw new Error(`Failed to send transaction: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Send a swap from this wallet, first allowing the swap contract it calls to spend amountIn of tokenIn
+  async sendSwap(tokenIn: TokenInfo, amountIn: string, request: ethers.TransactionRequest & { to: string }): Promise<ethers.TransactionResponse> {
+    await this.ensureAllowance(tokenIn, request.to, amountIn);
+    return this.sendTransaction(request);
+  }
+
+  // Make sure spender may move at least amount of token, approving exactly that amount if not.
+  // A nonzero allowance is reset to zero first, as tokens like USDT require.
+  // Checks for the same token and spender run one at a time so concurrent trades don't race their approvals.
+  ensureAllowance(token: TokenInfo, spender: string, amount: string, confirmations: number = 1): Promise<void> {
+    const key = `${token.address.toLowerCase()}:${spender.toLowerCase()}`;
+    const previous = this.approvals.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.approveIfNeeded(token, spender, amount, confirmations));
+    this.approvals.set(key, next);
+    return next;
+  }
+
+  private async approveIfNeeded(token: TokenInfo, spender: string, amount: string, confirmations: number): Promise<void> {
+    const contract = new ethers.Contract(token.address, ERC20_ABI, this.provider);
+    const required = ethers.parseUnits(amount, token.decimals);
+    const current: bigint = await contract.allowance(this.wallet.address, spender);
+    if (current >= required) return;
+
+    logger.info(`Approving ${amount} ${token.symbol} for ${spender} (current allowance ${ethers.formatUnits(current, token.decimals)})`);
+    if (current > 0n) {
+      await this.approve(contract, spender, 0n, confirmations);
+    }
+    await this.approve(contract, spender, required, confirmations);
+  }
+
+  private async approve(contract: ethers.Contract, spender: string, amount: bigint, confirmations: number): Promise<void> {
+    const data = contract.interface.encodeFunctionData('approve', [spender, amount]);
+    const response = await this.sendTransaction({ to: await contract.getAddress(), data });
+    const receipt = await response.wait(confirmations);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Failed to approve ${spender}: transaction ${response.hash} reverted`);
+    }
+  }
+}
+
+let sharedSigner: Promise<WalletSigner | undefined> | undefined;
+
+// Signer for the configured wallet on RPC_URL. The key is loaded and checked against
+// WALLET_ADDRESS whenever one is set; without RPC_URL there is nothing to sign for and this
+// resolves to undefined, as it does without a key. Paper trading never signs anything, so it
+// gets no signer either.
+export function createWalletSigner(): Promise<WalletSigner | undefined> {
+  if (config.trading.mode !== 'live') return Promise.resolve(undefined);
+  if (sharedSigner) return sharedSigner;
+
+  const options: WalletOptions = {
+    privateKey: config.wallet.privateKey,
+    keystoreFile: config.wallet.keystoreFile,
+    keystorePassword: config.wallet.keystorePassword,
+    mnemonic: config.wallet.mnemonic,
+    derivationPath: config.wallet.derivationPath,
+    address: config.wallet.address,
+  };
+  if (!hasWalletKey(options)) return Promise.resolve(undefined);
+
+  sharedSigner = (async () => {
+    const wallet = await loadWallet(options);
+    if (!config.orders.rpcUrl) {
+      logger.info(`Wallet ${wallet.address} loaded; set RPC_URL to sign transactions`);
+      return undefined;
+    }
+    const provider = new ethers.JsonRpcProvider(config.orders.rpcUrl);
+    const signer = new WalletSigner(wallet, provider);
+    const network = await provider.getNetwork();
+    logger.info(`Wallet ${signer.address} connected to chain ${network.chainId}`);
+    return signer;
+  })();
+  // Let a failed load be retried rather than cached
+  sharedSigner.catch(() => {
+    sharedSigner = undefined;
+  });
+  return sharedSigner;
+}
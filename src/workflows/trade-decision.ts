@@ -0,0 +1,89 @@
+import { MAX_POSITION_FRACTION, TradingSignal, sizePosition } from '../tools/trading-tools';
+import { AgentDecision, toTradingSignal } from '../decisions/agent-decision';
+import { config } from '../config';
+import { strategyRegistry } from '../strategies/strategy-registry';
+
+export const MIN_SIGNAL_CONFIDENCE = 0.6;
+// Share of the held position sold when monitorTrade recommends a partial close
+export const PARTIAL_CLOSE_FRACTION = 0.5;
+
+export interface TradeDecision {
+  execute: boolean;
+  symbol: string;
+  reason: string;
+  action?: 'buy' | 'sell';
+  positionSize?: number; // Quote-asset amount to spend on a buy
+  closeFraction?: number; // Share of the held base asset to sell, between 0 and 1
+  confidence?: number;
+  signal?: TradingSignal;
+  agentDecision?: AgentDecision; // Set when the decision came from the LLM
+  strategy?: string; // TradingStrategy whose risk limits apply
+  source?: string; // Component that placed the order, e.g. "agent" or "workflow"
+}
+
+export interface TradeReview {
+  recommendation: string;
+  reason: string;
+}
+
+// Whether a signal is strong enough to size a trade for
+export function isActionableSignal(signal: TradingSignal): boolean {
+  return signal.action !== 'hold' && signal.confidence >= MIN_SIGNAL_CONFIDENCE;
+}
+
+// Turn a signal into a trade decision sized by the producing strategy's risk per trade,
+// shared by the workflow and the backtester
+export function decideTrade(symbol: string, signal: TradingSignal, totalBalance: number): TradeDecision {
+  if (signal.action === 'hold' || !isActionableSignal(signal)) {
+    return { execute: false, symbol, reason: `Low confidence (${signal.confidence})` };
+  }
+
+  const strategy = strategyRegistry.get(signal.strategy || config.risk.strategy);
+  const positionSize = Math.min(
+    sizePosition(totalBalance, strategy.riskPerTrade * 100, strategy.stopLoss * 100),
+    totalBalance * strategy.maxPositionSize
+  );
+
+  return {
+    execute: true,
+    action: signal.action,
+    symbol,
+    positionSize,
+    // A sell signal exits the whole position
+    closeFraction: signal.action === 'sell' ? 1 : undefined,
+    reason: signal.reason,
+    confidence: signal.confidence,
+    signal,
+    strategy: strategy.name,
+  };
+}
+
+// Turn a monitorTrade review of an open position into an exit decision, if it calls for one
+export function decideExit(symbol: string, review: TradeReview, partialTaken: boolean = false): TradeDecision | undefined {
+  if (review.recommendation === 'close') {
+    return { execute: true, action: 'sell', symbol, closeFraction: 1, reason: review.reason, confidence: 1 };
+  }
+  if (review.recommendation === 'partial_close' && !partialTaken) {
+    return { execute: true, action: 'sell', symbol, closeFraction: PARTIAL_CLOSE_FRACTION, reason: review.reason, confidence: 1 };
+  }
+  return undefined;
+}
+
+// Turn a validated LLM decision into a sized trade decision
+export function decideFromAgent(symbol: string, decision: AgentDecision, totalBalance: number): TradeDecision {
+  if (decision.action === 'hold' || decision.confidence < MIN_SIGNAL_CONFIDENCE) {
+    return { execute: false, symbol, reason: `No trade: ${decision.rationale}`, agentDecision: decision };
+  }
+
+  return {
+    execute: true,
+    action: decision.action,
+    symbol,
+    positionSize: decision.action === 'buy' ? Math.min(decision.size, MAX_POSITION_FRACTION) * totalBalance : undefined,
+    closeFraction: decision.action === 'sell' ? decision.size : undefined,
+    reason: decision.rationale,
+    confidence: decision.confidence,
+    signal: toTradingSignal(decision),
+    agentDecision: decision,
+  };
+}
@@ -1,184 +1,159 @@
 import { Workflow, Step } from '@mastra/core';
-import { RecallNetworkTools } from '../tools/recall-tools';
-import { TradingTools } from '../tools/trading-tools';
-import { TradingMemory } from '../memory/trading-memory';
-import { config } from '../config';
-import winston from 'winston';
+import { MarketData, recallTools } from '../tools/recall-tools';
+import { TradingSignal, tradingTools } from '../tools/trading-tools';
+import { candleStore } from '../market/candles';
+import { positionLedger } from '../portfolio/position-ledger';
+import { ExecutionResult, tradeExecutor } from '../execution/trade-executor';
+import { TradeDecision, decideExit, decideTrade, isActionableSignal } from './trade-decision';
+import { eventBus } from '../events/event-bus';
+import { createModuleLogger } from '../logging/logger';
 
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  transports: [
-    new winston.transports.File({ filename: 'trading-workflow.log' }),
-    new winston.transports.Console({
-      format: winston.format.simple(),
-    }),
-  ],
-});
+const logger = createModuleLogger('trading-workflow.log');
+
+// Ask monitorTrade about the open position for the pair in the ledger, if there is one
+async function reviewOpenPosition(symbol: string, currentPrice: number): Promise<TradeDecision | undefined> {
+  try {
+    const position = positionLedger.getPosition(symbol);
+    if (!position || position.quantity <= 0 || !position.openedAt) return undefined;
+
+    const review = await tradingTools.monitorTrade.execute({
+      tradeId: `${symbol}_${position.openedAt.getTime()}`,
+      symbol,
+      currentPrice,
+    });
+
+    // Only take one partial profit per position
+    return decideExit(symbol, review, position.sellCount > 0);
+  } catch (error) {
+    logger.error(`Error reviewing open position for ${symbol}:`, error);
+    return undefined;
+  }
+}
+
+interface MarketAnalysis {
+  symbol: string;
+  marketData: MarketData;
+  signal: TradingSignal;
+}
+
+// Step 1: Market Analysis
+const marketAnalysisStep = {
+  name: 'MarketAnalysis',
+  description: 'Analyze market data and technical indicators',
+  execute: async ({ symbol, timeframe = '1h' }: { symbol: string; timeframe?: string }): Promise<MarketAnalysis> => {
+    const marketData = await recallTools.getMarketData.execute({ symbol });
+    candleStore.recordTick(symbol, marketData.price, 0, marketData.timestamp.getTime());
+    const signal = await tradingTools.analyzeMarket.execute({ symbol, timeframe });
+    
+    return {
+      symbol,
+      marketData,
+      signal,
+    };
+  },
+};
+
+// Step 2: Decision Making
+const decisionMakingStep = {
+  name: 'DecisionMaking',
+  description: 'Make trading decision based on analysis',
+  execute: async ({ symbol, marketData, signal }: MarketAnalysis): Promise<Omit<TradeDecision, 'symbol'>> => {
+    // Exits for an open position take priority over new signals
+    const exit = await reviewOpenPosition(symbol, marketData.price);
+    if (exit) {
+      logger.info(`Exiting ${symbol} (${exit.closeFraction! * 100}%): ${exit.reason}`);
+      return exit;
+    }
+    
+    if (!isActionableSignal(signal)) {
+      logger.info(`No action for ${symbol}: ${signal.reason} (confidence: ${signal.confidence})`);
+      return { execute: false, reason: `Low confidence (${signal.confidence})` };
+    }
+    
+    // Get portfolio data
+    const portfolio = await recallTools.getPortfolioBalance.execute({});
+    
+    // Calculate position size
+    return decideTrade(symbol, signal, portfolio.totalBalance);
+  },
+};
+
+// Step 3: Trade Execution
+const tradeExecutionStep = {
+  name: 'TradeExecution',
+  description: 'Execute the trade if decided',
+  execute: async (decision: TradeDecision) => tradeExecutor.execute({ ...decision, source: 'workflow' }),
+};
 
-// Initialize tools
-const recallTools = new RecallNetworkTools();
-const tradingTools = new TradingTools();
-const memory = new TradingMemory();
+// Step 4: Post-Trade Analysis
+const postTradeAnalysisStep = {
+  name: 'PostTradeAnalysis',
+  description: 'Analyze trade execution and record results',
+  execute: async (executionResult: ExecutionResult) => {
+    if (executionResult.executed) {
+      logger.info('Trade executed successfully:', executionResult);
+      
+      // Record successful trade
+      return {
+        status: 'success',
+        message: `Trade executed with tx hash ${executionResult.txHash}`,
+        execution: executionResult,
+      };
+    } else {
+      logger.warn('Trade execution failed or skipped:', executionResult);
+      
+      return {
+        status: 'skipped',
+        message: executionResult.reason || 'Unknown reason',
+      };
+    }
+  },
+};
 
 // Create trading workflow
 export const tradingWorkflow = new Workflow({
   name: 'TradingWorkflow',
   description: 'Complete workflow for analyzing market data and executing trades',
   steps: [
-    // Step 1: Market Analysis
-    new Step({
-      name: 'MarketAnalysis',
-      description: 'Analyze market data and technical indicators',
-      execute: async ({ symbol, timeframe = '1h' }: { symbol: string; timeframe?: string }) => {
-        const marketData = await recallTools.getMarketData.execute({ symbol });
-        const signal = await tradingTools.analyzeMarket.execute({ symbol, timeframe });
-        
-        return {
-          symbol,
-          marketData,
-          signal,
-        };
-      },
-    }),
-    
-    // Step 2: Decision Making
-    new Step({
-      name: 'DecisionMaking',
-      description: 'Make trading decision based on analysis',
-      execute: async ({ symbol, marketData, signal }: any) => {
-        if (signal.action === 'hold' || signal.confidence < 0.6) {
-          logger.info(`No action for ${symbol}: ${signal.reason} (confidence: ${signal.confidence})`);
-          return { execute: false, reason: `Low confidence (${signal.confidence})` };
-        }
-        
-        // Get portfolio data
-        const portfolio = await recallTools.getPortfolioBalance.execute({});
-        
-        // Calculate position size
-        const positionSize = await tradingTools.calculatePositionSize.execute({
-          totalBalance: portfolio.totalBalance,
-          riskPercentage: 1.5,
-          stopLossPercentage: signal.action === 'buy' ? 3 : 2,
-        });
-        
-        return {
-          execute: true,
-          action: signal.action,
-          symbol,
-          positionSize,
-          reason: signal.reason,
-          confidence: signal.confidence,
-        };
-      },
-    }),
-    
-    // Step 3: Trade Execution
-    new Step({
-      name: 'TradeExecution',
-      description: 'Execute the trade if decided',
-      execute: async (decision: any) => {
-        if (!decision.execute) {
-          return { executed: false, reason: decision.reason };
-        }
-        
-        try {
-          const [baseAsset, quoteAsset] = decision.symbol.split('/');
-          
-          if (decision.action === 'buy') {
-            // Get token addresses (in a real app, you'd have a token registry)
-            const tokenIn = quoteAsset === 'USDC' ? '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48' : '0xdac17f958d2ee523a2206206994597c13d831ec7';
-            const tokenOut = baseAsset === 'ETH' ? '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2' : 
-                            (baseAsset === 'BTC' ? '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599' : 
-                             '0x514910771af9ca656af840dff83e8264ecf986ca');
-            
-            // Calculate amount in
-            const amountIn = (decision.positionSize * 0.99).toFixed(6); // 99% of position size to account for fees
-            
-            // Get quote
-            const quote = await recallTools.getTradeQuote.execute({
-              tokenIn,
-              tokenOut,
-              amountIn: ethers.utils.parseUnits(amountIn, 6).toString(), // Assuming USDC or USDT with 6 decimals
-            });
-            
-            // Execute trade if price impact is reasonable
-            if (quote.priceImpact < 1.5) {
-              const txHash = await recallTools.executeTrade.execute({
-                tokenIn,
-                tokenOut,
-                amountIn: ethers.utils.parseUnits(amountIn, 6).toString(),
-                minAmountOut: (parseFloat(quote.amountOut) * 0.99).toString(), // 1% slippage
-              });
-              
-              // Store trade in memory
-              await memory.storeTradingDecision({
-                timestamp: new Date(),
-                symbol: decision.symbol,
-                action: decision.action,
-                signal: decision,
-                result: {
-                  executed: true,
-                  price: marketData.price,
-                  amount: parseFloat(amountIn),
-                },
-              });
-              
-              return {
-                executed: true,
-                txHash,
-                amountIn,
-                estimatedAmountOut: quote.amountOut,
-                priceImpact: quote.priceImpact,
-              };
-            } else {
-              return {
-                executed: false,
-                reason: `Price impact too high: ${quote.priceImpact}%`,
-              };
-            }
-          } else if (decision.action === 'sell') {
-            // Similar implementation for sell, just reverse tokenIn and tokenOut
-            // ...
-            
-            return {
-              executed: false,
-              reason: 'Sell implementation pending',
-            };
-          }
-        } catch (error) {
-          logger.error('Error executing trade:', error);
-          return {
-            executed: false,
-            error: error.message,
-          };
-        }
-      },
-    }),
-    
-    // Step 4: Post-Trade Analysis
-    new Step({
-      name: 'PostTradeAnalysis',
-      description: 'Analyze trade execution and record results',
-      execute: async (executionResult: any) => {
-        if (executionResult.executed) {
-          logger.info('Trade executed successfully:', executionResult);
-          
-          // Record successful trade
-          return {
-            status: 'success',
-            message: `Trade executed with tx hash ${executionResult.txHash}`,
-            execution: executionResult,
-          };
-        } else {
-          logger.warn('Trade execution failed or skipped:', executionResult);
-          
-          return {
-            status: 'skipped',
-            message: executionResult.reason || 'Unknown reason',
-          };
-        }
-      },
-    }),
+    new Step(marketAnalysisStep),
+    new Step(decisionMakingStep),
+    new Step(tradeExecutionStep),
+    new Step(postTradeAnalysisStep),
   ],
 });
+
+export interface TradingWorkflowRun {
+  symbol: string;
+  signal: TradingSignal;
+  decision: TradeDecision;
+  dryRun: boolean;
+  execution?: ExecutionResult;
+  outcome?: { status: string; message: string };
+}
+
+// Run the workflow's steps once for a pair; a dry run stops after the decision
+export async function runTradingWorkflow(
+  symbol: string,
+  options: { timeframe?: string; dryRun?: boolean } = {}
+): Promise<TradingWorkflowRun> {
+  try {
+    return await runWorkflowSteps(symbol, options);
+  } catch (error) {
+    logger.error(`Trading workflow failed for ${symbol}:`, error);
+    eventBus.emit('loop_error', { source: 'workflow', symbol, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+async function runWorkflowSteps(symbol: string, options: { timeframe?: string; dryRun?: boolean }): Promise<TradingWorkflowRun> {
+  const analysis = await marketAnalysisStep.execute({ symbol, timeframe: options.timeframe });
+  const decision: TradeDecision = { symbol, ...(await decisionMakingStep.execute(analysis)) };
+  if (options.dryRun) {
+    logger.info(`Dry run for ${symbol}: ${decision.execute ? `would ${decision.action}` : 'no trade'}`, { reason: decision.reason });
+    return { symbol, signal: analysis.signal, decision, dryRun: true };
+  }
+
+  const execution = await tradeExecutionStep.execute(decision);
+  const outcome = await postTradeAnalysisStep.execute(execution);
+  return { symbol, signal: analysis.signal, decision, dryRun: false, execution, outcome };
+}